@@ -0,0 +1,70 @@
+/**
+ * Backfills the global learning progress documents into the progress of a single user.
+ *
+ * Before progress was kept per user, every rating was counted in "learningProgress/{date}", keyed by the date
+ * on the server's clock. This script copies each of those documents to "users/{lineUserId}/progress/{date}"
+ * of the given user. The dates are kept as they are, since the time zone in which they were recorded is unknown.
+ * Documents that already exist for the user are never overwritten, so the script can safely be run again.
+ * The user is also registered in the "users" collection, so that the dashboard lists them.
+ *
+ * Usage:
+ *   TS_NODE_COMPILER_OPTIONS='{"module":"commonjs","moduleResolution":"node"}' node --env-file=.env.local -r ts-node/register \
+ *     scripts/migrateLearningProgress.ts <lineUserId> [--dry-run]
+ *
+ * Options:
+ * - `--dry-run`: Lists the documents that would be copied without writing anything.
+ */
+import { adminFirestore } from "../src/app/constants/firebaseAdminConfig";
+
+/**
+ * Copies every global progress document that the user does not have yet.
+ *
+ * @param userId - The LINE user ID that receives the progress.
+ * @param dryRun - If true, nothing is written.
+ * @returns A promise that resolves to the number of documents copied and skipped.
+ */
+async function migrateLearningProgress(userId: string, dryRun: boolean): Promise<{ copied: number; skipped: number }> {
+  const result = { copied: 0, skipped: 0 };
+  if (!dryRun) {
+    await adminFirestore.collection("users").doc(userId).set({ userId }, { merge: true });
+  }
+  const snapshot = await adminFirestore.collection("learningProgress").get();
+
+  for (const source of snapshot.docs) {
+    const targetRef = adminFirestore.collection("users").doc(userId).collection("progress").doc(source.id);
+    if ((await targetRef.get()).exists) {
+      console.log(`Skipped ${source.id}: the user already has progress on this date.`);
+      result.skipped++;
+      continue;
+    }
+
+    if (!dryRun) {
+      await targetRef.set({ ...source.data(), migratedFrom: `learningProgress/${source.id}` });
+    }
+    console.log(`${dryRun ? "Would copy" : "Copied"} ${source.id} (${source.data().totalStudied ?? 0} ratings).`);
+    result.copied++;
+  }
+
+  return result;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const userId = args.find((arg) => !arg.startsWith("--"));
+  if (!userId) {
+    console.error("Usage: scripts/migrateLearningProgress.ts <lineUserId> [--dry-run]");
+    process.exit(1);
+  }
+
+  try {
+    const { copied, skipped } = await migrateLearningProgress(userId, dryRun);
+    console.log(`Done${dryRun ? " (dry run)" : ""}: ${copied} copied, ${skipped} skipped.`);
+    process.exit(0); // Firestore keeps the connection open, so exit explicitly
+  } catch (error) {
+    console.error("Failed to migrate learning progress:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,8 +1,19 @@
 "use client";
 
-import { useEffect } from "react";
-import { useRouter } from "next/navigation";
-import { observeAuthState } from "./utils/firebaseUtils";
+import { useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { logoutUser, observeAuthState, startSession } from "./utils/firebaseUtils";
+
+type AuthStatus = "loading" | "signedIn" | "signedOut";
+
+/**
+ * Returns the dashboard page to open after signing in: the one the user was redirected from, if any.
+ */
+function getRedirectPath(): string {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next?.startsWith("/dashboard") ? next : "/dashboard";
+}
 
 export default function AuthWrapper({
   children,
@@ -10,19 +21,52 @@ export default function AuthWrapper({
   children: React.ReactNode;
 }) {
   const router = useRouter();
+  const pathname = usePathname();
+  const [status, setStatus] = useState<AuthStatus>("loading");
+  const isProtected = pathname.startsWith("/dashboard");
 
   useEffect(() => {
-    // Monitor authentication status
-    const unsubscribe = observeAuthState((user) => {
-      if (user) {
-        router.push("/dashboard");
-      } else {
-        router.push("/");
+    // Monitor authentication status, starting a server session for every signed-in user
+    const unsubscribe = observeAuthState(async (user) => {
+      if (!user) {
+        setStatus("signedOut");
+        return;
+      }
+
+      try {
+        if (await startSession()) {
+          setStatus("signedIn");
+          return;
+        }
+        alert("You do not have access to the dashboard.");
+      } catch (error) {
+        console.error("Session error:", error);
+        alert("Failed to sign in. Please try again.");
       }
+      await logoutUser();
     });
 
     return () => unsubscribe();
-  }, [router]);
+  }, []);
+
+  // Keep signed-in users on the dashboard page they opened, and send signed-out users to the login page
+  const isRedirecting = (status === "signedIn" && !isProtected) || (status === "signedOut" && isProtected);
+  useEffect(() => {
+    if (status === "signedIn" && !isProtected) {
+      router.replace(getRedirectPath());
+    } else if (status === "signedOut" && isProtected) {
+      router.replace("/");
+    }
+  }, [router, status, isProtected]);
+
+  // Show a spinner until the authentication status is known, so that protected content never flashes
+  if (status === "loading" || isRedirecting) {
+    return (
+      <div className="flex min-h-svh w-full items-center justify-center">
+        <Loader2 className="animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
 
-  return <>{children}</>; // Show child elements only if authenticated
-}
\ No newline at end of file
+  return <>{children}</>;
+}
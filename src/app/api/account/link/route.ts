@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "../../../utils/authUtils";
+import { redeemLinkCode, unlinkAccount } from "../../../utils/accountLinkUtils";
+
+/**
+ * API Endpoint: Link a LINE account
+ *
+ * This API links the signed-in dashboard account to the LINE account that requested a code
+ * by sending "link" to the bot. The code can be used once.
+ *
+ * Request headers:
+ * - `Cookie` or `Authorization` (required): The session cookie, or "Bearer <Firebase ID token>".
+ *
+ * Request body:
+ * - `code` (required): The link code sent by the bot.
+ *
+ * @param request - The HTTP POST request containing the JSON payload described above.
+ * @returns A JSON response with the new account `link`, or an error message.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Authentication
+    const auth = await authorizeRequest(request);
+    if ("error" in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const { code } = await request.json();
+    if (!code || typeof code !== "string") {
+      return NextResponse.json({ error: "Invalid 'code' parameter." }, { status: 400 });
+    }
+
+    const result = await redeemLinkCode(code, auth.user);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ link: result.link });
+  } catch (error) {
+    console.error("Error linking account:", error);
+    return NextResponse.json({ error: "Failed to link account." }, { status: 500 });
+  }
+}
+
+/**
+ * API Endpoint: Unlink the LINE account
+ *
+ * Request headers:
+ * - `Cookie` or `Authorization` (required): The session cookie, or "Bearer <Firebase ID token>".
+ *
+ * @param request - The HTTP DELETE request.
+ * @returns An empty JSON response, or an error message.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Authentication
+    const auth = await authorizeRequest(request);
+    if ("error" in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    await unlinkAccount(auth.user.uid);
+    return NextResponse.json({});
+  } catch (error) {
+    console.error("Error unlinking account:", error);
+    return NextResponse.json({ error: "Failed to unlink account." }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "../../../utils/authUtils";
+import { getAccountLink } from "../../../utils/accountLinkUtils";
+import { getProgressHistory, getReviewSchedules } from "../../../utils/learningProgressUtils";
+import { getStreak } from "../../../utils/streakUtils";
+import { getUserSettings } from "../../../utils/settingsUtils";
+import { getSelectedDecks } from "../../../utils/deckUtils";
+
+/**
+ * API Endpoint: Get the study progress of the linked LINE account
+ *
+ * This API is called by the dashboard to show the analytics of the signed-in user.
+ * Only the progress of the LINE account linked to the user is returned,
+ * and only the review schedules of the words in the decks that account is studying.
+ *
+ * Request headers:
+ * - `Cookie` or `Authorization` (required): The session cookie, or "Bearer <Firebase ID token>".
+ *
+ * Query parameters:
+ * - `from`, `to` (required): The first and last dates of the progress in "YYYY-MM-DD" format,
+ *   in the time zone of the LINE user.
+ *
+ * @param request - The HTTP GET request.
+ * @returns A JSON response with the daily progress `history`, the `streak` and the review `schedules`,
+ *          or an error message.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication
+    const auth = await authorizeRequest(request);
+    if ("error" in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const from = params.get("from") ?? "";
+    const to = params.get("to") ?? "";
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      return NextResponse.json({ error: "'from' and 'to' must be dates in YYYY-MM-DD format." }, { status: 400 });
+    }
+
+    const link = await getAccountLink(auth.user.uid);
+    if (!link) {
+      return NextResponse.json({ error: "No LINE account is linked." }, { status: 404 });
+    }
+
+    const databaseIds = getSelectedDecks(await getUserSettings(link.lineUserId)).map((deck) => deck.databaseId);
+    const [history, streak, schedules] = await Promise.all([
+      getProgressHistory(link.lineUserId, from, to),
+      getStreak(link.lineUserId),
+      getReviewSchedules(databaseIds),
+    ]);
+    return NextResponse.json({ history, streak, schedules });
+  } catch (error) {
+    console.error("Error loading progress:", error);
+    return NextResponse.json({ error: "Failed to load progress." }, { status: 500 });
+  }
+}
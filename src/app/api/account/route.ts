@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "../../utils/authUtils";
+import { getAccountLink } from "../../utils/accountLinkUtils";
+import { getUserSettings } from "../../utils/settingsUtils";
+
+/**
+ * API Endpoint: Get the signed-in dashboard account
+ *
+ * This API is called by the dashboard to find the LINE account linked to the signed-in user,
+ * and the settings the user configured from the chat.
+ *
+ * Request headers:
+ * - `Cookie` or `Authorization` (required): The session cookie, or "Bearer <Firebase ID token>".
+ *
+ * @param request - The HTTP GET request.
+ * @returns A JSON response with the account `link` and the user's `settings` (both `null` if no LINE account is linked),
+ *          or an error message.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication
+    const auth = await authorizeRequest(request);
+    if ("error" in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const link = await getAccountLink(auth.user.uid);
+    const settings = link ? await getUserSettings(link.lineUserId) : null;
+    return NextResponse.json({ link, settings });
+  } catch (error) {
+    console.error("Error loading account:", error);
+    return NextResponse.json({ error: "Failed to load account." }, { status: 500 });
+  }
+}
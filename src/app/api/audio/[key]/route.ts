@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadAudioData } from "../../../utils/ttsUtils";
+
+/**
+ * API Endpoint: Serve a stored audio file
+ *
+ * This API serves audio files stored by the local filesystem backend (see `createLocalAudioStorage`),
+ * so that the LINE platform can download them during development.
+ *
+ * @param request - The HTTP GET request.
+ * @param context - The route parameters, containing the content-addressed `key` of the audio file.
+ * @returns The MP3 data, or a 404 error response if no audio is stored under the key.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const { key } = await params;
+
+    // Only content-addressed MP3 keys are valid
+    if (!/^[0-9a-f]{64}\.mp3$/.test(key)) {
+      return NextResponse.json({ error: "Invalid audio key." }, { status: 400 });
+    }
+
+    const data = await loadAudioData(key);
+    if (!data) {
+      return NextResponse.json({ error: "Audio file not found." }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": "audio/mpeg",
+        "Cache-Control": "public, max-age=31536000, immutable", // Content-addressed files never change
+      },
+    });
+  } catch (error) {
+    console.error("Error serving audio file:", error);
+    return NextResponse.json({ error: "Failed to serve audio file." }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "../../../utils/authUtils";
+import { getAccountLink } from "../../../utils/accountLinkUtils";
+import { getProgressHistory } from "../../../utils/learningProgressUtils";
+import { formatReviewHistoryCsv, listReviewHistory } from "../../../utils/exportUtils";
+
+/**
+ * API Endpoint: Export the review history
+ *
+ * This API returns every rating of the LINE account linked to the signed-in user as a downloadable file.
+ *
+ * Request headers:
+ * - `Cookie` or `Authorization` (required): The session cookie, or "Bearer <Firebase ID token>".
+ *
+ * Query parameters:
+ * - `format` (optional): "csv" or "json". Defaults to "csv".
+ * - `from`, `to` (optional): The first and last dates to export in "YYYY-MM-DD" format. Default to the whole history.
+ *
+ * @param request - The HTTP GET request.
+ * @returns The review history as a CSV file or a JSON array of `ReviewHistoryEntry`, or an error message.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication
+    const auth = await authorizeRequest(request);
+    if ("error" in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const format = params.get("format") || "csv";
+    if (format !== "csv" && format !== "json") {
+      return NextResponse.json({ error: "Invalid 'format' parameter. Must be one of: csv, json." }, { status: 400 });
+    }
+    const from = params.get("from") || "0000-01-01";
+    const to = params.get("to") || "9999-12-31";
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      return NextResponse.json({ error: "'from' and 'to' must be dates in YYYY-MM-DD format." }, { status: 400 });
+    }
+
+    const link = await getAccountLink(auth.user.uid);
+    if (!link) {
+      return NextResponse.json({ error: "No LINE account is linked." }, { status: 404 });
+    }
+
+    const entries = listReviewHistory(await getProgressHistory(link.lineUserId, from, to));
+    const body = format === "csv" ? formatReviewHistoryCsv(entries) : JSON.stringify(entries, null, 2);
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="review-history.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting review history:", error);
+    return NextResponse.json({ error: "Failed to export review history." }, { status: 500 });
+  }
+}
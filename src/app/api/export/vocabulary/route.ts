@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "../../../utils/authUtils";
+import { getAccountLink } from "../../../utils/accountLinkUtils";
+import { getUserSettings } from "../../../utils/settingsUtils";
+import { getAvailableDecks, getSharedDecks } from "../../../utils/deckUtils";
+import { searchDatabasePages } from "../../../utils/notionUtils";
+import { findAudioFile, DEFAULT_VOICE } from "../../../utils/ttsUtils";
+import { findUserDeck, parseWordQuery } from "../../../utils/wordBrowserUtils";
+import { formatAnkiTsv } from "../../../utils/exportUtils";
+import type { NotionPage } from "../../../types/notionTypes";
+import type { AudioFile } from "../../../types/audioTypes";
+
+/**
+ * The number of words fetched from Notion per request (the maximum allowed by the Notion API).
+ */
+const PAGE_SIZE = 100;
+
+/**
+ * The number of audio files looked up at the same time, so that large decks do not flood the storage bucket.
+ */
+const AUDIO_LOOKUP_BATCH_SIZE = 10;
+
+/**
+ * API Endpoint: Export the vocabulary of a deck for Anki
+ *
+ * This API returns the words of a deck of the user as a tab-separated file that Anki imports as "Basic" notes
+ * (see `formatAnkiTsv`). The audio references point to the phrases synthesized in the voice of the linked
+ * LINE account, or the default voice if no account is linked.
+ *
+ * Request headers:
+ * - `Cookie` or `Authorization` (required): The session cookie, or "Bearer <Firebase ID token>".
+ *
+ * Query parameters:
+ * - `deckId` (optional): The database ID of the deck. Defaults to the first deck of the user (see `getUserDecks`).
+ * - The search and sort order described in `parseWordQuery`, to export only the words shown in the word browser.
+ *
+ * @param request - The HTTP GET request.
+ * @returns The TSV file, or an error message.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication
+    const auth = await authorizeRequest(request);
+    if ("error" in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    // The decks and the voice of the linked LINE account, or the shared decks and the default voice
+    const link = await getAccountLink(auth.user.uid);
+    const settings = link ? await getUserSettings(link.lineUserId) : null;
+    const voice = settings?.voice ?? DEFAULT_VOICE;
+
+    const params = request.nextUrl.searchParams;
+    const deck = findUserDeck(settings ? getAvailableDecks(settings) : getSharedDecks(), params.get("deckId"));
+    if (!deck) {
+      return NextResponse.json({ error: "Deck not found." }, { status: 404 });
+    }
+
+    const result = parseWordQuery(params);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    // Fetch every matching word, a batch at a time
+    const words: NotionPage[] = [];
+    let cursor: string | null = null;
+    do {
+      const response = await searchDatabasePages(deck.databaseId, { ...result.query, cursor }, PAGE_SIZE);
+      words.push(...response.results);
+      cursor = response.next_cursor;
+    } while (cursor);
+
+    // Look up the audio of the words, a batch at a time
+    const cards: { word: NotionPage; audioFile: AudioFile | null }[] = [];
+    for (let start = 0; start < words.length; start += AUDIO_LOOKUP_BATCH_SIZE) {
+      const batch = words.slice(start, start + AUDIO_LOOKUP_BATCH_SIZE);
+      cards.push(
+        ...(await Promise.all(
+          batch.map(async (word) => ({ word, audioFile: await findAudioFile({ text: word.properties.phrase }, voice) }))
+        ))
+      );
+    }
+    const fileName = deck.name.replace(/[^\w-]+/g, "_") || "vocabulary";
+    return new NextResponse(formatAnkiTsv(deck.name, cards), {
+      headers: {
+        "Content-Type": "text/tab-separated-values; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}.tsv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting vocabulary:", error);
+    return NextResponse.json({ error: "Failed to export vocabulary." }, { status: 500 });
+  }
+}
@@ -1,44 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import path from "path";
-import util from "util";
-import fs from "fs";
-import { TextToSpeechClient, protos } from "@google-cloud/text-to-speech";
-
-// Initialize Google Cloud Text-to-Speech client
-const client = new TextToSpeechClient();
-
-/**
- * Generates an audio file from the provided text using Google Cloud Text-to-Speech API.
- * 
- * @param text - The text to be synthesized into speech.
- * @param outputFilePath - The path where the generated audio file will be saved.
- * @returns Promise<void>
- */
-async function generateAudioFile(text: string, outputFilePath: string): Promise<void> {
-  try {
-    // Construct the request
-    const request: protos.google.cloud.texttospeech.v1.ISynthesizeSpeechRequest = {
-      input: { text },
-      voice: { languageCode: "en-US", ssmlGender: protos.google.cloud.texttospeech.v1.SsmlVoiceGender.NEUTRAL },
-      audioConfig: { audioEncoding: "MP3" },
-    };
-
-    // Perform text-to-speech request
-    const [response] = await client.synthesizeSpeech(request);
-
-    if (!response.audioContent) {
-      throw new Error("Failed to generate audio content.");
-    }
-
-    // Write the audio content to a file
-    const writeFile = util.promisify(fs.writeFile);
-    await writeFile(outputFilePath, response.audioContent, "binary");
-    console.log(`Audio file created successfully: ${outputFilePath}`);
-  } catch (error) {
-    console.error("An error occurred while generating the audio file:", error);
-    throw error;
-  }
-}
+import { authorizeRequest } from "../../utils/authUtils";
+import { getOrCreateAudioFile, validateVoiceOptions } from "../../utils/ttsUtils";
+import type { SpeechInput } from "../../types/ttsTypes";
 
 /**
  * Verifies if the request contains a valid internal API key.
@@ -47,70 +10,90 @@ async function generateAudioFile(text: string, outputFilePath: string): Promise<
  */
 function isValidApiKey(req: NextRequest): boolean {
   const apiKey = req.headers.get("internal-api-key");
-  return apiKey === process.env.INTERNAL_API_KEY;
+  return !!process.env.INTERNAL_API_KEY && apiKey === process.env.INTERNAL_API_KEY;
 }
 
 /**
  * API Endpoint: Convert text into an audio file
  *
- * This API receives a text string via a POST request, converts it into an audio file
- * using Google Cloud Text-to-Speech API, and returns the URL to access the generated audio file.
+ * This API receives a text string (or SSML markup) via a POST request, converts it into an audio file
+ * using the configured text-to-speech provider, and returns the URL to access the generated audio file.
+ * Audio files are cached by their text and voice, so the same request is synthesized only once.
+ *
+ * Request headers (one of them is required):
+ * - `internal-api-key`: The internal API key, for server-to-server calls.
+ * - `Cookie` or `Authorization`: The dashboard session cookie, or "Bearer <Firebase ID token>".
  *
- * @param request - The HTTP POST request containing the JSON payload with the `text` to synthesize.
- * @returns A JSON response containing the URL of the generated audio file or an error message.
+ * Request body:
+ * - `text` or `ssml` (required): The plain text, or the SSML markup wrapped in `<speak>`, to synthesize.
+ * - `accent` (optional): "US", "UK" or "AU". Defaults to "US".
+ * - `gender` (optional): "Female", "Male" or "Neutral". Defaults to "Neutral".
+ * - `speakingRate` (optional): A number between 0.25 and 4.0. Defaults to 1.0.
+ *
+ * @param request - The HTTP POST request containing the JSON payload described above.
+ * @returns A JSON response containing the URL and duration of the generated audio file or an error message.
  */
 export async function POST(request: NextRequest) {
   try {
-    // API Key Validation
-    if (!isValidApiKey(request)) {
-      return NextResponse.json(
-        { error: "Invalid API key." },
-        { status: 403 }
-      );
+    // Authentication: the internal API key for server-to-server calls, otherwise a signed-in dashboard user
+    if (request.headers.has("internal-api-key")) {
+      if (!isValidApiKey(request)) {
+        return NextResponse.json(
+          { error: "Invalid API key." },
+          { status: 403 }
+        );
+      }
+    } else {
+      const auth = await authorizeRequest(request);
+      if ("error" in auth) {
+        return NextResponse.json(
+          { error: auth.error },
+          { status: auth.status }
+        );
+      }
     }
 
     // Parse the incoming request body
-    const { text, pageId } = await request.json();
+    const body = await request.json();
+    const { text, ssml } = body;
 
     // Validate the input
-    if (!text || typeof text !== "string") {
+    if ((text === undefined) === (ssml === undefined)) {
       return NextResponse.json(
-        { error: "Invalid or missing 'text' parameter." },
+        { error: "Exactly one of 'text' or 'ssml' must be provided." },
         { status: 400 }
       );
     }
 
-    if (!pageId || typeof pageId !== "string") {
+    if (text !== undefined && (!text || typeof text !== "string")) {
       return NextResponse.json(
-        { error: "Invalid or missing 'pageId' parameter." },
+        { error: "Invalid 'text' parameter." },
         { status: 400 }
       );
     }
 
-    // Define the output directory and file path
-    const outputDir = path.resolve(process.cwd(), "public/output"); // Directory for saving audio files
-    const fileName = `audio-${pageId}.mp3`; // Unique file name based on "pageId"
-    const outputFilePath = path.join(outputDir, fileName);
-
-    // Ensure the output directory exists, create it if not
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
+    if (ssml !== undefined && (typeof ssml !== "string" || !/^\s*<speak>[\s\S]*<\/speak>\s*$/.test(ssml))) {
+      return NextResponse.json(
+        { error: "Invalid 'ssml' parameter. It must be wrapped in <speak> tags." },
+        { status: 400 }
+      );
     }
 
-    // Generate the audio file from the text
-    await generateAudioFile(text, outputFilePath);
-
-    // Get the host name from the request header
-    const host = request.headers.get("host");
-    if (!host) {
-      throw new Error("Failed to get host name.");
+    // Validate the voice options
+    const voiceResult = validateVoiceOptions(body);
+    if ("error" in voiceResult) {
+      return NextResponse.json(
+        { error: voiceResult.error },
+        { status: 400 }
+      );
     }
 
-    // Construct the URL for the generated file (accessible via the public directory)
-    const fileUrl = `https://${host}/output/${fileName}`;
+    // Generate the audio file from the input, or reuse the cached one
+    const input: SpeechInput = text !== undefined ? { text } : { ssml };
+    const audioFile = await getOrCreateAudioFile(input, voiceResult.voice);
 
-    // Return the file URL as a JSON response
-    return NextResponse.json({ fileUrl });
+    // Return the file URL and duration as a JSON response
+    return NextResponse.json({ fileUrl: audioFile.url, duration: audioFile.durationMs });
   } catch (error) {
     // Log the error for debugging
     console.error("Error generating audio file:", error);
@@ -121,4 +104,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
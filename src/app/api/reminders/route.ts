@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as line from "@line/bot-sdk";
+import { Button } from "../../constants/buttons";
+import { getUserSettings } from "../../utils/settingsUtils";
+import { getSelectedDecks } from "../../utils/deckUtils";
+import { countDuePages } from "../../utils/notionUtils";
+import { listSessionUserIds } from "../../utils/sessionUtils";
+import { getStreak, getCurrentStreak } from "../../utils/streakUtils";
+import {
+  getLastReminderDate,
+  saveReminderDate,
+  isReminderDue,
+  formatReminderMessage,
+} from "../../utils/reminderUtils";
+
+// Initialize LINE Messaging API Client
+const client = new line.messagingApi.MessagingApiClient({
+  channelAccessToken: process.env.LINE_CHANNEL_ACCESS_TOKEN!, // Access token for the LINE Messaging API
+});
+
+/**
+ * Verifies if the request was sent by the scheduler.
+ * The scheduler (e.g., Vercel Cron Jobs) sends the `CRON_SECRET` environment variable as a bearer token.
+ *
+ * @param req - The incoming NextRequest object.
+ * @returns True if the request carries the cron secret, otherwise false.
+ */
+function isValidCronSecret(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && req.headers.get("authorization") === `Bearer ${secret}`;
+}
+
+/**
+ * Sends the daily reminder to a user if it is due.
+ * No reminder is pushed when no words are due, but the day still counts as handled.
+ *
+ * @param userId - The LINE user ID.
+ * @param now - The time of the scheduled run.
+ * @returns A promise that resolves to "sent" if a reminder was pushed, or "skipped" otherwise.
+ */
+async function sendReminder(userId: string, now: Date): Promise<"sent" | "skipped"> {
+  const settings = await getUserSettings(userId);
+  const { due, date } = isReminderDue(settings, await getLastReminderDate(userId), now);
+  if (!due) {
+    return "skipped";
+  }
+
+  // Count the due words in every deck the user is studying
+  let dueCount = 0;
+  for (const deck of getSelectedDecks(settings)) {
+    dueCount += await countDuePages(deck.databaseId, date);
+  }
+
+  if (dueCount > 0) {
+    const streak = getCurrentStreak(await getStreak(userId), date);
+    await client.pushMessage({
+      to: userId,
+      messages: [
+        {
+          type: "text",
+          text: formatReminderMessage(dueCount, streak),
+          quickReply: { items: [Button.Start] },
+        },
+      ],
+    });
+  }
+
+  await saveReminderDate(userId, date);
+  return dueCount > 0 ? "sent" : "skipped";
+}
+
+/**
+ * API Endpoint: Push the daily reminders
+ *
+ * This API is called periodically by a scheduler (e.g., every hour). On each run, it pushes a reminder
+ * with the number of due words and the current streak to every user whose reminder time has been reached
+ * in their time zone, unless the user has muted reminders, is within their quiet hours,
+ * or has already been reminded that day.
+ *
+ * Request headers:
+ * - `Authorization` (required): "Bearer <CRON_SECRET>".
+ *
+ * @param request - The HTTP GET request sent by the scheduler.
+ * @returns A JSON response with the number of reminders sent, skipped and failed, or an error message.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Cron Secret Validation
+    if (!isValidCronSecret(request)) {
+      return NextResponse.json(
+        { error: "Invalid cron secret." },
+        { status: 401 }
+      );
+    }
+
+    const now = new Date();
+    const result = { sent: 0, skipped: 0, failed: 0 };
+
+    // Visit every user who has interacted with the bot, one at a time to stay within the API rate limits
+    for (const userId of await listSessionUserIds()) {
+      try {
+        result[await sendReminder(userId, now)]++;
+      } catch (error) {
+        console.error(`Failed to send the reminder to user ${userId}:`, error);
+        result.failed++;
+      }
+    }
+
+    console.log("Daily reminders processed:", result);
+    return NextResponse.json(result);
+  } catch (error) {
+    // Log the error for debugging
+    console.error("Error sending reminders:", error);
+
+    // Return a 500 error response
+    return NextResponse.json(
+      { error: "Failed to send reminders." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSessionToken, isAllowedUser, SESSION_COOKIE_NAME, SESSION_MAX_AGE, verifyIdToken } from "../../utils/authUtils";
+
+/**
+ * API Endpoint: Start a dashboard session
+ *
+ * This API is called by the dashboard after the user signs in with Firebase Authentication.
+ * It verifies the user's ID token and sets an HTTP-only session cookie, which is checked by the middleware
+ * before the dashboard pages and API routes are served.
+ *
+ * Request body:
+ * - `idToken` (required): The Firebase ID token of the signed-in user.
+ *
+ * @param request - The HTTP POST request containing the JSON payload described above.
+ * @returns A JSON response with the signed-in `user`, or an error message:
+ *          401 if the ID token is invalid, or 403 if the user may not use the dashboard.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { idToken } = await request.json();
+    if (!idToken || typeof idToken !== "string") {
+      return NextResponse.json({ error: "Invalid 'idToken' parameter." }, { status: 400 });
+    }
+
+    const user = await verifyIdToken(idToken);
+    if (!user) {
+      return NextResponse.json({ error: "Invalid ID token." }, { status: 401 });
+    }
+    if (!isAllowedUser(user)) {
+      return NextResponse.json({ error: "You do not have access to the dashboard." }, { status: 403 });
+    }
+
+    const response = NextResponse.json({ user });
+    response.cookies.set(SESSION_COOKIE_NAME, await createSessionToken(user), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: SESSION_MAX_AGE,
+    });
+    return response;
+  } catch (error) {
+    console.error("Error starting session:", error);
+    return NextResponse.json({ error: "Failed to start the session." }, { status: 500 });
+  }
+}
+
+/**
+ * API Endpoint: End the dashboard session
+ *
+ * This API is called by the dashboard when the user signs out. It clears the session cookie.
+ *
+ * @returns An empty JSON response.
+ */
+export async function DELETE() {
+  const response = NextResponse.json({});
+  response.cookies.delete(SESSION_COOKIE_NAME);
+  return response;
+}
@@ -4,12 +4,77 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import * as line from "@line/bot-sdk";
-import type { NotionPage } from "../../types/notionTypes";
-import { ButtonLabel, Button } from "../../constants/buttons";
-import { startLoadingAnimation, getNextPage } from "../../utils/cacheUtils"; // Temporarily disabled: generateAudioFileViaApi
+import type { NotionPage, NotionPageProperties } from "../../types/notionTypes";
+import type { UserSession } from "../../types/sessionTypes";
+import type { ReviewSchedule } from "../../types/scheduleTypes";
+import type { CardDirection, CardPrompt } from "../../types/cardTypes";
+import type { AnswerGrade } from "../../types/answerTypes";
+import type { VoiceOptions } from "../../types/ttsTypes";
+import type { Deck } from "../../types/deckTypes";
+import type { StudyFilter } from "../../types/filterTypes";
+import type { WordDraft } from "../../types/draftTypes";
+import type { EditableField, WordEdit } from "../../types/editTypes";
+import type { EnrichableField } from "../../types/dictionaryTypes";
+import { ButtonLabel, Button, createButton, createCommandButton } from "../../constants/buttons";
+import { startLoadingAnimation, getNextPage } from "../../utils/cacheUtils";
 import { getIconAndLabel, formatFlexMessage } from "../../utils/generalUtils";
-import { updateMemorizationStatus } from "../../utils/notionUtils";
-import { saveLearningProgress } from "../../utils/firebaseUtils";
+import {
+  updateMemorizationStatus,
+  getQuizCandidatePages,
+  getDatabaseTitle,
+  verifyDatabaseSchema,
+  countFilteredPages,
+  getFilterOptions,
+  findPagesByPhrase,
+  createNotionPage,
+  updatePageFields,
+  isFieldMapped,
+} from "../../utils/notionUtils";
+import { saveLearningProgress, saveReviewSchedule, getLearningProgress } from "../../utils/learningProgressUtils";
+import { computeNextSchedule } from "../../utils/schedulerUtils";
+import { getSession, saveSession, renewNonce } from "../../utils/sessionUtils";
+import { parsePostbackData, isStalePostback, encodePostbackData } from "../../utils/postbackUtils";
+import { createQuizQuestion, formatQuizFlexMessage, DISTRACTOR_COUNT } from "../../utils/quizUtils";
+import { createCardPrompt, formatCardPrompt, findPhrase } from "../../utils/cardUtils";
+import { gradeBestAnswer, formatAnswerFlexMessage } from "../../utils/answerUtils";
+import { isValidSignature, claimEvent, completeEvent, releaseEvent } from "../../utils/webhookUtils";
+import { getOrCreateAudioFile, DEFAULT_VOICE, SLOW_SPEAKING_RATE } from "../../utils/ttsUtils";
+import { buildEmphasisSsml } from "../../utils/ttsProviderUtils";
+import { splitExampleSentences, toPlainRichText } from "../../utils/richTextUtils";
+import {
+  getAvailableDecks,
+  getSelectedDecks,
+  findDeck,
+  parseDatabaseId,
+  formatDeckCarousel,
+} from "../../utils/deckUtils";
+import { parseStudyFilter, formatStudyFilter, findOption } from "../../utils/filterUtils";
+import {
+  parseAddCommand,
+  getNextDraftStep,
+  applyDraftInput,
+  formatDraftPrompt,
+  formatDraftFlexMessage,
+} from "../../utils/draftUtils";
+import {
+  EDITABLE_FIELD_LABELS,
+  applyEditInput,
+  formatEditPrompt,
+  formatEditFlexMessage,
+} from "../../utils/editUtils";
+import {
+  ENRICHABLE_FIELD_LABELS,
+  lookUpPhrase,
+  suggestFieldValues,
+  findMissingValues,
+  formatEnrichmentFlexMessage,
+} from "../../utils/enrichmentUtils";
+import { getUserSettings, saveUserSettings } from "../../utils/settingsUtils";
+import { createLinkCode, LINK_CODE_TTL_MINUTES } from "../../utils/accountLinkUtils";
+import { getStreak, getCurrentStreak, recordStudyDay } from "../../utils/streakUtils";
+import { getLocalDate, addDays } from "../../utils/timeUtils";
+import { addRating, formatSummaryFlexMessage } from "../../utils/progressUtils";
+import { applyReminderOption, formatReminderSettings } from "../../utils/reminderUtils";
 
 // ============================
 // Client Initialization
@@ -23,69 +88,2093 @@ const client = new line.messagingApi.MessagingApiClient({
 });
 
 // ============================
-// State Management
+// Utility Functions
+// ============================
+
+/**
+ * The maximum number of example sentences read aloud for a word.
+ * A reply can contain up to five messages, and the phrase audio and the details card take up two of them.
+ */
+const MAX_EXAMPLE_AUDIO_COUNT = 3;
+
+/**
+ * Creates quick reply buttons attached to the given word.
+ * Each button carries the word's page ID and the session nonce, so that stale buttons can be detected.
+ * 
+ * @param word - The word the buttons act on.
+ * @param session - The user's current session.
+ * @param labels - The ButtonLabels of the buttons to create.
+ * @returns An array of QuickReplyItems with postback actions.
+ */
+function createWordButtons(word: NotionPage, session: UserSession, labels: ButtonLabel[]): line.messagingApi.QuickReplyItem[] {
+  const target = { pageId: word.id, nonce: session.nonce };
+  return labels.map((label) => createButton(label, target));
+}
+
+/**
+ * Returns the fields that can be filled in from the dictionary, excluding fields that are not mapped to a Notion column.
+ * 
+ * @returns The enrichable fields mapped to a column.
+ */
+function getEnrichableFields(): EnrichableField[] {
+  return (Object.keys(ENRICHABLE_FIELD_LABELS) as EnrichableField[]).filter((field) => isFieldMapped(field));
+}
+
+/**
+ * Returns the labels of the buttons used to correct the given word: "Edit", preceded by "Look Up"
+ * if any field that can be filled in from the dictionary is empty.
+ * 
+ * @param word - The word displayed to the user.
+ * @returns The ButtonLabels of the correction buttons.
+ */
+function getCorrectionLabels(word: NotionPage): ButtonLabel[] {
+  const hasEmptyField = getEnrichableFields().some((field) =>
+    field === "category" ? word.properties.category.length === 0 : !word.properties[field]
+  );
+  return hasEmptyField ? [ButtonLabel.LookUp, ButtonLabel.Edit] : [ButtonLabel.Edit];
+}
+
+/**
+ * Fetches the next word from the user's study queue, drawing from the decks the user is studying
+ * and applying the session's study filter.
+ * 
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ * @returns A promise that resolves to the next word, or `null` if no more words are due.
+ */
+async function getNextWord(chatId: string, session: UserSession): Promise<NotionPage | null> {
+  const settings = await getUserSettings(chatId);
+  const databaseIds = getSelectedDecks(settings).map((deck) => deck.databaseId);
+  return getNextPage(client, chatId, databaseIds, session.filter, getLocalDate(settings.timeZone));
+}
+
+/**
+ * Formats a review schedule into a short message for the user.
+ * 
+ * @param schedule - The review schedule to format.
+ * @returns A string such as "Next review: 2024-12-03 (in 6 days)".
+ */
+function formatSchedule(schedule: ReviewSchedule): string {
+  return `Next review: ${schedule.nextReview} (in ${schedule.interval} day${schedule.interval === 1 ? "" : "s"})`;
+}
+
+/**
+ * Records a memorization rating for a word: updates the Notion page, schedules its next review,
+ * saves the learning progress to Firestore, extends the user's study streak
+ * and adds the rating to the statistics of the current study session.
+ * This is shared by the self-assessment feedback buttons and the automatically graded quiz.
+ * 
+ * @param chatId - The LINE user's chat ID, used to display the loading animation.
+ * @param session - The user's current session.
+ * @param word - The word being rated.
+ * @param rating - The memorization level to record.
+ * @param direction - The direction in which the word was asked.
+ * @returns A promise that resolves to the computed `ReviewSchedule` and the number of words the user had studied
+ *          that day before this one, or `null` if the update could not be completed.
+ */
+async function recordRating(
+  chatId: string,
+  session: UserSession,
+  word: NotionPage,
+  rating: "Never Better" | "Good" | "So So" | "Not At All",
+  direction: CardDirection
+): Promise<{ schedule: ReviewSchedule; studiedBefore: number } | null> {
+  try {
+    await startLoadingAnimation(client, chatId);
+
+    // Compute the next review schedule from the rating, counting days in the user's time zone
+    const settings = await getUserSettings(chatId);
+    const today = getLocalDate(settings.timeZone);
+    const schedule = computeNextSchedule(word.properties, rating, today);
+
+    // Update Notion page memorization status and review schedule
+    await updateMemorizationStatus(word.id, rating, schedule);
+    console.log(`Notion page "${word.properties.phrase}" updated with memorization status: ${rating}`);
+
+    // Mirror the review schedule to Firestore
+    await saveReviewSchedule(
+      { pageId: word.id, phrase: word.properties.phrase, databaseId: word.databaseId },
+      schedule
+    );
+
+    // Save learning progress to Firestore, attributed to the deck the word was drawn from
+    const deck = findDeck(settings, word.databaseId) ?? null;
+    const studiedBefore = await saveLearningProgress(
+      chatId,
+      settings.timeZone,
+      { pageId: word.id, phrase: word.properties.phrase },
+      rating,
+      direction,
+      deck
+    );
+
+    // Count the user's local date as a study day
+    await recordStudyDay(chatId, today);
+
+    // Count the rating in the session summary
+    session.stats = addRating(session.stats, rating);
+    await saveSession(session);
+
+    return { schedule, studiedBefore };
+  } catch (error) {
+    // Log error for debugging
+    console.error(`Failed to process memorization update or save progress for ${word.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Ends the current study session: creates its summary and resets the session statistics.
+ * 
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ * @param title - The headline of the summary.
+ * @returns A promise that resolves to the summary message, or an empty array if nothing was reviewed in the session.
+ */
+async function createSummaryMessages(chatId: string, session: UserSession, title: string): Promise<line.messagingApi.FlexMessage[]> {
+  const stats = session.stats;
+  if (!stats) {
+    return [];
+  }
+  session.stats = null;
+  await saveSession(session);
+
+  const settings = await getUserSettings(chatId);
+  const today = getLocalDate(settings.timeZone);
+  const progress = {
+    today: await getLearningProgress(chatId, today),
+    yesterday: await getLearningProgress(chatId, addDays(today, -1)),
+  };
+  const streak = await getStreak(chatId);
+  const current = getCurrentStreak(streak, today);
+
+  return [
+    {
+      type: "flex",
+      altText: title,
+      contents: formatSummaryFlexMessage(title, stats, progress, settings.dailyGoal, { current, freezes: streak.freezes }),
+    },
+  ];
+}
+
+/**
+ * Ends the current study session with a summary if the rating just recorded reached the user's daily goal,
+ * i.e., the number of words studied today crossed the goal with this rating.
+ * 
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ * @param studiedBefore - The number of words the user had studied today before the rating just recorded.
+ * @returns A promise that resolves to the summary message, or an empty array if the goal was not reached just now.
+ */
+async function createGoalMessages(
+  chatId: string,
+  session: UserSession,
+  studiedBefore: number
+): Promise<line.messagingApi.FlexMessage[]> {
+  try {
+    const { dailyGoal, timeZone } = await getUserSettings(chatId);
+    const progress = await getLearningProgress(chatId, getLocalDate(timeZone));
+    if (dailyGoal === 0 || studiedBefore >= dailyGoal || (progress?.totalStudied ?? 0) < dailyGoal) {
+      return [];
+    }
+    return await createSummaryMessages(chatId, session, "🎯 Daily goal reached!");
+  } catch (error) {
+    // The summary is not essential, so the rating is still confirmed without it
+    console.error("Failed to create the daily goal summary:", error);
+    return [];
+  }
+}
+
 // ============================
+// Button Handlers
+// ============================
+
+/**
+ * Handles the "Next" button: fetches the next word from the user's study queue and displays its phrase.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ */
+async function handleNext(replyToken: string, chatId: string, session: UserSession): Promise<void> {
+  // Fetch the next page from the cache and update the session's current word
+  const currentWord = await getNextWord(chatId, session);
+  session.currentWord = currentWord;
+  session.quiz = null;
+  session.direction = "Recognition";
+  session.prompt = null;
+  renewNonce(session); // Invalidate the buttons attached to the previous word
+
+  if (currentWord) {
+    session.state = "NotUnderstood"; // Update state
+    await saveSession(session);
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: currentWord.properties.phrase,
+          quickReply: { items: [Button.Next, ...createWordButtons(currentWord, session, [ButtonLabel.Meaning])] },
+        },
+      ],
+    });
+  } else {
+    // No more pages to fetch
+    session.state = "NotDisplayed"; // Reset state to initial
+    await saveSession(session);
+    const messages: line.messagingApi.Message[] = [
+      ...(await createSummaryMessages(chatId, session, "🏁 Session complete!")),
+      {
+        type: "text",
+        text: session.filter
+          ? `You have completed all the words matching "${formatStudyFilter(session.filter)}"! Press "Next" to start over, or send "study all" to clear the filter.`
+          : 'No more words are due for review. You have completed all the words! Press "Next" to start over.',
+        quickReply: { items: [Button.Next] },
+      },
+    ];
+    await client.replyMessage({
+      replyToken,
+      messages: messages,
+    });
+  }
+}
+
+/**
+ * Handles the "Meaning" button: displays the details of the current word with the feedback buttons.
+ * For reverse and cloze cards, this reveals the answer and lets the user rate themselves instead of typing.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param session - The user's current session.
+ */
+async function handleMeaning(replyToken: string, session: UserSession): Promise<void> {
+  const currentWord = session.currentWord;
+  if ((session.state === "NotUnderstood" || session.state === "AwaitingAnswer") && currentWord) {
+    session.state = "Understood"; // Update state
+    session.prompt = null;
+    await saveSession(session);
+
+    // Construct the messages array dynamically based on audio generation result
+    const messages: line.messagingApi.Message[] = [];
+
+    // Add the pronunciation audio of the phrase and the example sentences (with the phrase emphasized)
+    // in the user's preferred voice, or a fallback text message if the audio files could not be generated
+    try {
+      const { voice } = await getUserSettings(session.userId);
+      const { phrase, example } = currentWord.properties;
+      const audioFiles = [await getOrCreateAudioFile({ text: phrase }, voice)];
+      for (const sentence of splitExampleSentences(example).slice(0, MAX_EXAMPLE_AUDIO_COUNT)) {
+        audioFiles.push(await getOrCreateAudioFile(buildEmphasisSsml(sentence, findPhrase(sentence, phrase)), voice));
+      }
+      for (const audioFile of audioFiles) {
+        messages.push({
+          type: "audio",
+          originalContentUrl: audioFile.url,
+          duration: audioFile.durationMs,
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to generate audio for ${currentWord.id}:`, error);
+      messages.push({
+        type: "text",
+        text: "Sorry, the audio file could not be generated.",
+      });
+    }
+
+    // Add other messages
+    const altText = currentWord.properties.meaning || "Study Data: No meaning available.";
+    messages.push(
+      {
+        type: "flex",
+        altText: altText,
+        contents: formatFlexMessage(currentWord),
+        quickReply: {
+          items: [
+            Button.Next,
+            ...createWordButtons(currentWord, session, [
+              ButtonLabel.NeverBetter,
+              ButtonLabel.Good,
+              ButtonLabel.SoSo,
+              ButtonLabel.NotAtAll,
+              ...getCorrectionLabels(currentWord),
+            ]),
+          ],
+        },
+      },
+    );
+
+    // Send the reply messages
+    await client.replyMessage({
+      replyToken,
+      messages: messages,
+    });
+  } else {
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: "There's something wrong. No more words available.",
+          quickReply: { items: [Button.Next] },
+        },
+      ],
+    });
+  }
+}
+
+/**
+ * Handles the feedback buttons: records the selected memorization level for the current word
+ * and schedules its next review.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ * @param rating - The memorization level selected by the user.
+ */
+async function handleFeedback(
+  replyToken: string,
+  chatId: string,
+  session: UserSession,
+  rating: ButtonLabel.NeverBetter | ButtonLabel.Good | ButtonLabel.SoSo | ButtonLabel.NotAtAll
+): Promise<void> {
+  const currentWord = session.currentWord;
+  if (session.state === "Understood" && currentWord) {
+    session.state = "NotUnderstood"; // Reset state
+    await saveSession(session);
+
+    // Record the rating and schedule the next review
+    const recorded = await recordRating(chatId, session, currentWord, rating, session.direction);
+    const schedule = recorded?.schedule ?? null;
+
+    // Reply to the user based on the update status, with the session summary if the daily goal was just reached
+    const goalMessages = recorded ? await createGoalMessages(chatId, session, recorded.studiedBefore) : [];
+    const replyMessages: line.messagingApi.Message[] = schedule
+      ? [
+          {
+            type: "text",
+            text: `✅ The button "${getIconAndLabel(rating)}" was pressed!\n${formatSchedule(schedule)}`,
+          },
+        ]
+      : [
+          {
+            type: "text",
+            text: `❌ The button "${getIconAndLabel(rating)}" was pressed, but the update could not be completed. Please check it in Notion.`,
+          },
+        ];
+    replyMessages.push(...goalMessages);
+    replyMessages[replyMessages.length - 1].quickReply = {
+      items: goalMessages.length > 0 ? [Button.Next] : [Button.Next, Button.Finish],
+    };
+
+    await client.replyMessage({
+      replyToken,
+      messages: replyMessages,
+    });
+  } else {
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: "There's something wrong. No more words available.",
+          quickReply: { items: [Button.Next] },
+        },
+      ],
+    });
+  }
+}
+
+/**
+ * Handles the "Quiz" button: fetches the next word from the user's study queue and asks
+ * a multiple-choice question about its meaning.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ */
+async function handleQuiz(replyToken: string, chatId: string, session: UserSession): Promise<void> {
+  // Skip words without a meaning, since they cannot be asked
+  let word: NotionPage | null = null;
+  for (let attempt = 0; attempt < 5; attempt++) {
+    word = await getNextWord(chatId, session);
+    if (!word || word.properties.meaning) {
+      break;
+    }
+  }
+
+  // Build the question with distractors drawn from other words
+  const candidates = word?.properties.meaning
+    ? await getQuizCandidatePages(word.databaseId, word.properties.category, DISTRACTOR_COUNT + 1)
+    : [];
+  const question = word ? createQuizQuestion(word, candidates) : null;
+
+  if (!word || !question) {
+    session.currentWord = null;
+    session.quiz = null;
+    session.state = "NotDisplayed"; // Reset state to initial
+    await saveSession(session);
+    const messages: line.messagingApi.Message[] = [
+      ...(word ? [] : await createSummaryMessages(chatId, session, "🏁 Session complete!")),
+      {
+        type: "text",
+        text: word
+          ? "There are not enough words with a meaning to create a quiz."
+          : 'No more words are due for review. You have completed all the words! Press "Quiz" to start over.',
+        quickReply: { items: [Button.Next, Button.Quiz] },
+      },
+    ];
+    await client.replyMessage({
+      replyToken,
+      messages: messages,
+    });
+    return;
+  }
+
+  session.currentWord = word;
+  session.quiz = question;
+  session.direction = "Recognition";
+  session.prompt = null;
+  session.state = "QuizAsked"; // Update state
+  renewNonce(session); // Invalidate the buttons attached to the previous word
+  await saveSession(session);
+
+  const messages: line.messagingApi.Message[] = [
+    {
+      type: "flex",
+      altText: `Quiz: ${word.properties.phrase}`,
+      contents: formatQuizFlexMessage(word, question, session.nonce),
+      quickReply: { items: [Button.Next, Button.Quiz] },
+    },
+  ];
+
+  await client.replyMessage({
+    replyToken,
+    messages: messages,
+  });
+}
+
+/**
+ * Handles an answer to a quiz question: grades it and records the result as an objective rating
+ * ("Good" if correct, "Not At All" otherwise).
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ * @param choice - The index of the selected choice.
+ */
+async function handleAnswer(
+  replyToken: string,
+  chatId: string,
+  session: UserSession,
+  choice: number | undefined
+): Promise<void> {
+  const currentWord = session.currentWord;
+  const quiz = session.quiz;
+  if (session.state !== "QuizAsked" || !currentWord || !quiz || choice === undefined) {
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: "There's something wrong. No quiz question is waiting for an answer.",
+          quickReply: { items: [Button.Next, Button.Quiz] },
+        },
+      ],
+    });
+    return;
+  }
+
+  session.state = "NotUnderstood"; // Reset state
+  session.quiz = null;
+  await saveSession(session);
+
+  // Grade the answer and record it as an objective rating
+  const isCorrect = choice === quiz.correctIndex;
+  const rating = isCorrect ? ButtonLabel.Good : ButtonLabel.NotAtAll;
+  const recorded = await recordRating(chatId, session, currentWord, rating, "Recognition");
+  const schedule = recorded?.schedule ?? null;
+  const goalMessages = recorded ? await createGoalMessages(chatId, session, recorded.studiedBefore) : [];
+
+  const resultText = isCorrect
+    ? "⭕ Correct!"
+    : `❌ Incorrect. The correct answer is:\n${quiz.choices[quiz.correctIndex]}`;
+  const scheduleText = schedule
+    ? formatSchedule(schedule)
+    : "The result could not be saved. Please check it in Notion.";
+
+  const messages: line.messagingApi.Message[] = [
+    {
+      type: "text",
+      text: `${resultText}\n\n${scheduleText}`,
+    },
+    {
+      type: "flex",
+      altText: currentWord.properties.meaning || "Study Data: No meaning available.",
+      contents: formatFlexMessage(currentWord),
+    },
+    ...goalMessages,
+  ];
+  messages[messages.length - 1].quickReply = {
+    items: [
+      Button.Quiz,
+      Button.Next,
+      ...(goalMessages.length > 0 ? [] : [Button.Finish]),
+      ...createWordButtons(currentWord, session, getCorrectionLabels(currentWord)),
+    ],
+  };
+
+  await client.replyMessage({
+    replyToken,
+    messages: messages,
+  });
+}
+
+/**
+ * Handles the "Reverse" and "Cloze" buttons: fetches the next word from the user's study queue and
+ * asks the user to type its phrase, given its meaning or its example sentence with the phrase blanked out.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ * @param direction - The direction of the card ("Reverse" or "Cloze").
+ */
+async function handleRecall(
+  replyToken: string,
+  chatId: string,
+  session: UserSession,
+  direction: Exclude<CardDirection, "Recognition">
+): Promise<void> {
+  const directionButton = direction === "Reverse" ? Button.Reverse : Button.Cloze;
+
+  // Skip words that lack the fields required by the direction (e.g., no example for a cloze card)
+  let word: NotionPage | null = null;
+  let prompt: CardPrompt | null = null;
+  for (let attempt = 0; attempt < 5 && !prompt; attempt++) {
+    word = await getNextWord(chatId, session);
+    if (!word) {
+      break;
+    }
+    prompt = createCardPrompt(word, direction);
+  }
+
+  if (!word || !prompt) {
+    session.currentWord = null;
+    session.prompt = null;
+    session.state = "NotDisplayed"; // Reset state to initial
+    await saveSession(session);
+    const messages: line.messagingApi.Message[] = [
+      ...(word ? [] : await createSummaryMessages(chatId, session, "🏁 Session complete!")),
+      {
+        type: "text",
+        text: word
+          ? `Could not find a word that can be asked as a ${direction.toLowerCase()} card. Please try again.`
+          : `No more words are due for review. You have completed all the words! Press "${direction}" to start over.`,
+        quickReply: { items: [Button.Next, directionButton] },
+      },
+    ];
+    await client.replyMessage({
+      replyToken,
+      messages: messages,
+    });
+    return;
+  }
+
+  session.currentWord = word;
+  session.quiz = null;
+  session.direction = direction;
+  session.prompt = prompt;
+  session.state = "AwaitingAnswer"; // Update state
+  renewNonce(session); // Invalidate the buttons attached to the previous word
+  await saveSession(session);
+
+  await client.replyMessage({
+    replyToken,
+    messages: [
+      {
+        type: "text",
+        text: formatCardPrompt(prompt),
+        quickReply: { items: [Button.Next, ...createWordButtons(word, session, [ButtonLabel.Meaning])] },
+      },
+    ],
+  });
+}
+
+/**
+ * Handles a typed answer to a reverse or cloze card: grades it with typo tolerance and records the result
+ * as an objective rating on the four memorization levels (see `gradeAnswer`).
+ * Both the form of the phrase shown in the card and the phrase itself are accepted.
+ * Unless the answer is exact, a character-level diff against the expected answer is returned as well.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ * @param answer - The answer typed by the user.
+ */
+async function handleTypedAnswer(
+  replyToken: string,
+  chatId: string,
+  session: UserSession,
+  answer: string
+): Promise<void> {
+  const currentWord = session.currentWord;
+  const prompt = session.prompt;
+  if (!currentWord || !prompt) {
+    return;
+  }
+
+  session.state = "NotUnderstood"; // Reset state
+  session.prompt = null;
+  await saveSession(session);
+
+  // Grade the answer and record it as an objective rating
+  const grade = gradeBestAnswer(answer, [prompt.answer, currentWord.properties.phrase]);
+  const recorded = await recordRating(chatId, session, currentWord, grade.rating, prompt.direction);
+  const schedule = recorded?.schedule ?? null;
+  const goalMessages = recorded ? await createGoalMessages(chatId, session, recorded.studiedBefore) : [];
+
+  const resultTexts: Record<AnswerGrade["rating"], string> = {
+    "Never Better": "⭕ Perfect!",
+    "Good": `⭕ Correct! The exact form is "${grade.expected}".`,
+    "So So": `🔺 Close — you wrote "${answer.trim()}". The correct answer is "${grade.expected}".`,
+    "Not At All": `❌ Incorrect. The correct answer is "${prompt.answer}".`,
+  };
+  const scheduleText = schedule
+    ? formatSchedule(schedule)
+    : "The result could not be saved. Please check it in Notion.";
+  const directionButton = prompt.direction === "Reverse" ? Button.Reverse : Button.Cloze;
+
+  const messages: line.messagingApi.Message[] = [
+    {
+      type: "text",
+      text: `${resultTexts[grade.rating]}\n\n${scheduleText}`,
+    },
+  ];
+
+  // Show the diff unless the answer was exact
+  if (grade.rating !== "Never Better") {
+    messages.push({
+      type: "flex",
+      altText: `Correction: ${grade.expected}`,
+      contents: formatAnswerFlexMessage(answer, grade),
+    });
+  }
+
+  messages.push({
+    type: "flex",
+    altText: currentWord.properties.meaning || "Study Data: No meaning available.",
+    contents: formatFlexMessage(currentWord),
+  }, ...goalMessages);
+  messages[messages.length - 1].quickReply = {
+    items: [
+      directionButton,
+      Button.Next,
+      ...(goalMessages.length > 0 ? [] : [Button.Finish]),
+      ...createWordButtons(currentWord, session, getCorrectionLabels(currentWord)),
+    ],
+  };
+
+  await client.replyMessage({
+    replyToken,
+    messages: messages,
+  });
+}
+
+/**
+ * Handles the "voice" command: updates or shows the user's voice preferences.
+ * 
+ * Supported options:
+ * - "us", "uk", "au": Sets the accent.
+ * - "female", "male", "neutral": Sets the gender.
+ * - "slow", "normal": Sets the speaking rate.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param option - The option following the command (e.g., "uk"), or an empty string to show the current preferences.
+ */
+async function handleVoiceCommand(replyToken: string, chatId: string, option: string): Promise<void> {
+  const settings = await getUserSettings(chatId);
+  const accents: Record<string, VoiceOptions["accent"]> = { us: "US", uk: "UK", au: "AU" };
+  const genders: Record<string, VoiceOptions["gender"]> = { female: "Female", male: "Male", neutral: "Neutral" };
+
+  let updated = true;
+  if (option in accents) {
+    settings.voice.accent = accents[option];
+  } else if (option in genders) {
+    settings.voice.gender = genders[option];
+  } else if (option === "slow" || option === "normal") {
+    settings.voice.speakingRate = option === "slow" ? SLOW_SPEAKING_RATE : DEFAULT_VOICE.speakingRate;
+  } else {
+    updated = false;
+  }
+
+  if (updated) {
+    await saveUserSettings(settings);
+  }
+
+  const { accent, gender, speakingRate } = settings.voice;
+  const speed = speakingRate < DEFAULT_VOICE.speakingRate ? "slow" : "normal";
+  const header = updated
+    ? "✅ Your voice preferences have been updated."
+    : option
+      ? `"${option}" is not a valid voice option.`
+      : "🔊 Your voice preferences:";
+
+  await client.replyMessage({
+    replyToken,
+    messages: [
+      {
+        type: "text",
+        text: `${header}\nAccent: ${accent}\nGender: ${gender}\nSpeed: ${speed}`,
+        quickReply: {
+          items: [
+            createCommandButton("🇺🇸 US", "voice us"),
+            createCommandButton("🇬🇧 UK", "voice uk"),
+            createCommandButton("🇦🇺 AU", "voice au"),
+            createCommandButton("Female", "voice female"),
+            createCommandButton("Male", "voice male"),
+            createCommandButton("Neutral", "voice neutral"),
+            createCommandButton("🐢 Slow", "voice slow"),
+            createCommandButton("Normal speed", "voice normal"),
+            Button.Next,
+          ],
+        },
+      },
+    ],
+  });
+}
+
+/**
+ * Handles the "reminder" command: updates or shows the user's daily reminder preferences
+ * (see `applyReminderOption` for the supported options).
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param option - The option following the command (e.g., "7:30"), or an empty string to show the current preferences.
+ */
+async function handleReminderCommand(replyToken: string, chatId: string, option: string): Promise<void> {
+  const settings = await getUserSettings(chatId);
+
+  const error = option ? applyReminderOption(settings, option) : null;
+  if (option && !error) {
+    await saveUserSettings(settings);
+  }
+  const header = error ?? (option ? "✅ Your reminder preferences have been updated." : "⏰ Your reminder preferences:");
+
+  await client.replyMessage({
+    replyToken,
+    messages: [
+      {
+        type: "text",
+        text: `${header}\n${formatReminderSettings(settings)}\n\nSend "reminder <time>", "reminder quiet 22:00-07:00" or "reminder timezone Asia/Tokyo" to change them.`,
+        quickReply: {
+          items: [
+            settings.reminder.enabled
+              ? createCommandButton("🔕 Mute", "reminder off")
+              : createCommandButton("🔔 Turn on", "reminder on"),
+            createCommandButton("⏰ 7:00", "reminder 7:00"),
+            createCommandButton("⏰ 8:00", "reminder 8:00"),
+            createCommandButton("⏰ 12:00", "reminder 12:00"),
+            createCommandButton("⏰ 20:00", "reminder 20:00"),
+            settings.reminder.quietHours
+              ? createCommandButton("Quiet hours off", "reminder quiet off")
+              : createCommandButton("🌙 Quiet 22-7", "reminder quiet 22:00-07:00"),
+            Button.Next,
+          ],
+        },
+      },
+    ],
+  });
+}
 
 /**
- * State variable to manage the current status of the bot's interaction with the user.
- * The state transitions as the user interacts with the bot.
+ * Handles the "Finish" button and the "finish" command: ends the current study session and shows its summary.
  * 
- * Possible states for the `userState` variable:
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ */
+async function handleFinish(replyToken: string, chatId: string, session: UserSession): Promise<void> {
+  const messages: line.messagingApi.Message[] = await createSummaryMessages(chatId, session, "🏁 Session summary");
+  if (messages.length === 0) {
+    messages.push({
+      type: "text",
+      text: 'No words have been reviewed since the last summary. Press "Next" to start studying.',
+    });
+  }
+  messages[messages.length - 1].quickReply = { items: [Button.Next] };
+
+  await client.replyMessage({
+    replyToken,
+    messages: messages,
+  });
+}
+
+/**
+ * Handles the "goal" command: updates or shows the number of words the user aims to review each day.
  * 
- * 1. "NotDisplayed" (Initial state)
- *    - Indicates that the bot has not yet displayed any vocabulary word to the user.
- *    - This is the default state when the bot starts an interaction or resets after completing a cycle.
+ * Supported options:
+ * - "<number>" (e.g., "30"): Sets the daily goal.
+ * - "off": Clears the daily goal.
  * 
- * 2. "NotUnderstood"
- *    - Indicates that the bot has displayed a vocabulary word to the user, but the user has not yet requested its meaning.
- *    - In this state, the user can either proceed to the next word without viewing the meaning
- *      or request the meaning of the current word.
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param option - The option following the command (e.g., "30"), or an empty string to show the current goal.
+ */
+async function handleGoalCommand(replyToken: string, chatId: string, option: string): Promise<void> {
+  const settings = await getUserSettings(chatId);
+
+  let header = "🎯 Your daily goal:";
+  if (option === "off" || /^\d+$/.test(option)) {
+    settings.dailyGoal = option === "off" ? 0 : Math.min(Number(option), 1000);
+    await saveUserSettings(settings);
+    header = "✅ Your daily goal has been updated.";
+  } else if (option) {
+    header = `"${option}" is not a valid goal. Please send a number of words, e.g., "goal 20", or "goal off".`;
+  }
+  const goalText = settings.dailyGoal > 0 ? `${settings.dailyGoal} words a day` : "None";
+
+  await client.replyMessage({
+    replyToken,
+    messages: [
+      {
+        type: "text",
+        text: `${header}\n${goalText}\n\nA summary of your session is shown when you reach the goal or send "finish".`,
+        quickReply: {
+          items: [
+            createCommandButton("🎯 10 words", "goal 10"),
+            createCommandButton("🎯 20 words", "goal 20"),
+            createCommandButton("🎯 50 words", "goal 50"),
+            createCommandButton("No goal", "goal off"),
+            Button.Next,
+          ],
+        },
+      },
+    ],
+  });
+}
+
+/**
+ * Handles the "link" command: issues a one-time code with which the user links their LINE account
+ * to a dashboard account, so that the dashboard shows their own progress and settings.
  * 
- * 3. "Understood"
- *    - Indicates that the bot has displayed a vocabulary word and the user has successfully reviewed its meaning.
- *    - This state allows the user to evaluate their understanding of the word by selecting from predefined feedback options.
- *    - After providing feedback, the state resets to "NotUnderstood" to display the next word.
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
  */
-let userState: "NotDisplayed" | "NotUnderstood" | "Understood" = "NotDisplayed";
+async function handleLinkCommand(replyToken: string, chatId: string): Promise<void> {
+  const linkCode = await createLinkCode(chatId);
+  const dashboardUrl = process.env.APP_BASE_URL ? `\n${process.env.APP_BASE_URL}/dashboard` : "";
+
+  await client.replyMessage({
+    replyToken,
+    messages: [
+      {
+        type: "text",
+        text: `🔗 Your link code: ${linkCode.code}\n\nLog in to the dashboard and enter this code within ${LINK_CODE_TTL_MINUTES} minutes to see your progress and settings there.${dashboardUrl}`,
+        quickReply: { items: [Button.Next] },
+      },
+    ],
+  });
+}
 
 /**
- * State variable to track the currently displayed vocabulary word.
+ * Formats a list of decks into a short, comma-separated list of names.
  * 
- * This variable holds the information about the current word being studied by the user.
- * It is updated whenever a new word is displayed (e.g., after pressing the "Next" button)
- * and used to respond appropriately to user interactions.
+ * @param decks - The decks to format.
+ * @returns A string such as "Movie phrases, Business English".
+ */
+function formatDeckNames(decks: Deck[]): string {
+  return decks.map((deck) => deck.name).join(", ");
+}
+
+/**
+ * Handles the "Decks" button and command: displays the deck switcher, a carousel of the decks
+ * available to the user with buttons to choose which of them to study.
  * 
- * Possible values for the `currentWord` variable:
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ */
+async function handleDecks(replyToken: string, chatId: string): Promise<void> {
+  const settings = await getUserSettings(chatId);
+  const decks = getAvailableDecks(settings);
+
+  if (decks.length === 0) {
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: 'No decks are available yet. Register a Notion database with "deck add <database URL> <name>".',
+        },
+      ],
+    });
+    return;
+  }
+
+  const messages: line.messagingApi.Message[] = [
+    {
+      type: "flex",
+      altText: `Decks: ${formatDeckNames(decks)}`,
+      contents: formatDeckCarousel(decks, getSelectedDecks(settings)),
+      quickReply: { items: [Button.Next] },
+    },
+  ];
+
+  await client.replyMessage({
+    replyToken,
+    messages: messages,
+  });
+}
+
+/**
+ * Handles the buttons of the deck switcher: studies only the selected deck ("Select Deck"),
+ * or adds it to or removes it from the decks being studied ("Toggle Deck").
+ * The study queue starts over with the new selection on the next word.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param action - The button pressed in the deck switcher.
+ * @param deckId - The database ID of the deck the button belongs to.
+ */
+async function handleDeckSelection(
+  replyToken: string,
+  chatId: string,
+  action: ButtonLabel.SelectDeck | ButtonLabel.ToggleDeck,
+  deckId: string | undefined
+): Promise<void> {
+  const settings = await getUserSettings(chatId);
+  const deck = deckId ? findDeck(settings, deckId) : undefined;
+  const selectedIds = getSelectedDecks(settings).map((selected) => selected.databaseId);
+
+  let text: string;
+  if (!deck) {
+    text = "This deck is no longer available.";
+  } else if (action === ButtonLabel.SelectDeck) {
+    settings.selectedDeckIds = [deck.databaseId];
+    await saveUserSettings(settings);
+    text = `📚 Now studying: ${deck.name}`;
+  } else if (!selectedIds.includes(deck.databaseId)) {
+    settings.selectedDeckIds = [...selectedIds, deck.databaseId];
+    await saveUserSettings(settings);
+    text = `📚 Now studying: ${formatDeckNames(getSelectedDecks(settings))}`;
+  } else if (selectedIds.length === 1) {
+    text = `"${deck.name}" is the only deck being studied. Select another deck before removing it.`;
+  } else {
+    settings.selectedDeckIds = selectedIds.filter((selectedId) => selectedId !== deck.databaseId);
+    await saveUserSettings(settings);
+    text = `📚 Now studying: ${formatDeckNames(getSelectedDecks(settings))}`;
+  }
+
+  await client.replyMessage({
+    replyToken,
+    messages: [
+      {
+        type: "text",
+        text,
+        quickReply: { items: [Button.Next, Button.Decks] },
+      },
+    ],
+  });
+}
+
+/**
+ * Handles the "deck" command: registers or removes a deck of the user's own.
  * 
- * 1. `null` (Initial state)
- *    - Indicates that no word has been displayed yet.
- *    - This is the default state when the bot starts a new session or after a reset.
+ * Supported options:
+ * - "add <database URL or ID> [name]": Registers a Notion database as a deck. The name defaults to the database title.
+ * - "remove <name>": Removes a deck registered by the user. Shared decks cannot be removed.
  * 
- * 2. `NotionPage` object
- *    - Represents the current word being displayed to the user, including its associated properties
- *      (e.g., phrase, meaning, example).
- *    - This object is updated when a new word is fetched and displayed.
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param option - The text following the command, with its original case (e.g., "add https://www.notion.so/... Phrasal verbs").
+ */
+async function handleDeckCommand(replyToken: string, chatId: string, option: string): Promise<void> {
+  const settings = await getUserSettings(chatId);
+  const [subcommand = "", ...rest] = option.split(/\s+/);
+  const argument = rest.join(" ");
+
+  let text: string;
+  if (subcommand.toLowerCase() === "add") {
+    const [target = "", ...nameParts] = rest;
+    const databaseId = parseDatabaseId(target);
+    const existingDeck = databaseId ? findDeck(settings, databaseId) : undefined;
+    if (!databaseId) {
+      text = 'Please specify a Notion database URL or ID, e.g., "deck add https://www.notion.so/... Phrasal verbs".';
+    } else if (existingDeck) {
+      text = `"${existingDeck.name}" is already available.`;
+    } else {
+      try {
+        // Make sure the database is shared with the integration and has the required columns
+        await startLoadingAnimation(client, chatId);
+        await verifyDatabaseSchema(databaseId);
+        const name = nameParts.join(" ") || (await getDatabaseTitle(databaseId)) || "Untitled deck";
+        settings.decks = [...settings.decks, { name, databaseId }];
+        await saveUserSettings(settings);
+        text = `✅ "${name}" has been added. Press "Decks" to study it.`;
+      } catch (error) {
+        console.error(`Failed to register database ${databaseId} as a deck:`, error);
+        text = `❌ The database could not be added. Make sure it is shared with the integration.\n\n${(error as Error).message}`;
+      }
+    }
+  } else if (subcommand.toLowerCase() === "remove") {
+    const deck = settings.decks.find(
+      (registered) =>
+        registered.name.toLowerCase() === argument.toLowerCase() || registered.databaseId === parseDatabaseId(argument)
+    );
+    if (deck) {
+      settings.decks = settings.decks.filter((registered) => registered.databaseId !== deck.databaseId);
+      settings.selectedDeckIds = settings.selectedDeckIds.filter((selectedId) => selectedId !== deck.databaseId);
+      await saveUserSettings(settings);
+      text = `🗑 "${deck.name}" has been removed.`;
+    } else {
+      text = `"${argument}" is not one of your decks. Shared decks cannot be removed.`;
+    }
+  } else {
+    text = 'Usage:\n- "decks": Choose the decks to study\n- "deck add <database URL> <name>": Add a deck\n- "deck remove <name>": Remove a deck';
+  }
+
+  await client.replyMessage({
+    replyToken,
+    messages: [
+      {
+        type: "text",
+        text,
+        quickReply: { items: [Button.Next, Button.Decks] },
+      },
+    ],
+  });
+}
+
+/**
+ * Handles the "study" and "pronunciation drills" commands: scopes the study session to the words matching a filter
+ * and reports how many words matched across the decks being studied.
+ * 
+ * Supported targets:
+ * - A category (e.g., "verbs") or a movie (e.g., "Inception") defined in the decks being studied.
+ * - A memorization level, optionally preceded by "only" (e.g., "only Not At All").
+ * - "all": Clears the filter and goes back to the words due for review.
  * 
- * Usage:
- * - If `currentWord` is `null`, the bot sends a default response for unsupported user messages.
- * - If `currentWord` is set, the bot uses its properties (e.g., `phrase`) to construct meaningful responses.
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ * @param target - The text following "study" (e.g., "verbs"), or `null` for pronunciation drills.
  */
-let currentWord: NotionPage | null = null;
+async function handleStudyCommand(
+  replyToken: string,
+  chatId: string,
+  session: UserSession,
+  target: string | null
+): Promise<void> {
+  const studyButtons = [Button.Next, Button.Quiz, Button.Reverse, Button.Cloze];
+  const reply = (text: string, items: line.messagingApi.QuickReplyItem[] = studyButtons) =>
+    client.replyMessage({ replyToken, messages: [{ type: "text", text, quickReply: { items } }] });
+
+  // Go back to the words due for review
+  if (target !== null && ["all", "everything", "due"].includes(target.toLowerCase())) {
+    session.filter = null;
+    await saveSession(session);
+    await reply("📚 The filter has been cleared. Words due for review will be served.");
+    return;
+  }
+
+  const settings = await getUserSettings(chatId);
+  const decks = getSelectedDecks(settings);
+  await startLoadingAnimation(client, chatId);
+
+  try {
+    // Resolve the target against the categories and movies of the decks being studied
+    let filter: StudyFilter | null = { field: "pronunciationCheck", value: true };
+    if (target !== null) {
+      const options = await Promise.all(decks.map((deck) => getFilterOptions(deck.databaseId)));
+      const allOptions = {
+        category: [...new Set(options.flatMap((option) => option.category))],
+        movie: [...new Set(options.flatMap((option) => option.movie))],
+      };
+      filter = parseStudyFilter(target, allOptions);
+      if (!filter) {
+        const header = target
+          ? `"${target}" does not match any category, movie or memorization level.`
+          : 'Send "study" followed by a category, movie or memorization level.';
+        await reply(
+          `${header}\n\n` +
+            `Categories: ${allOptions.category.join(", ") || "-"}\n` +
+            `Movies: ${allOptions.movie.join(", ") || "-"}\n` +
+            "Levels: Never Better, Good, So So, Not At All",
+          [Button.Next]
+        );
+        return;
+      }
+    }
+
+    // Count the matching words before applying the filter
+    let total = 0;
+    for (const deck of decks) {
+      total += await countFilteredPages(deck.databaseId, filter);
+    }
+    if (total === 0) {
+      await reply(`🔎 No words matched "${formatStudyFilter(filter)}". The filter was not applied.`, [Button.Next]);
+      return;
+    }
+
+    session.filter = filter;
+    await saveSession(session);
+    await reply(
+      `🔎 ${formatStudyFilter(filter)}\n${total} word${total === 1 ? "" : "s"} matched in ${formatDeckNames(decks)}.\n` +
+        'Send "study all" to go back to the words due for review.'
+    );
+  } catch (error) {
+    console.error("Failed to apply the study filter:", error);
+    await reply("❌ The filter could not be applied. Please try again later.", [Button.Next]);
+  }
+}
+
+/**
+ * Replies with the question for the current step of the add-word wizard, or with the preview of the word
+ * and the save/cancel buttons once every field has been asked.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param draft - The draft being filled in.
+ * @param categories - The categories defined in the deck, offered as quick replies in the "category" step.
+ * @param notice - (Optional) A message shown before the question (e.g., a validation error).
+ */
+async function replyDraftStep(
+  replyToken: string,
+  draft: WordDraft,
+  categories: string[],
+  notice?: string
+): Promise<void> {
+  const messages: line.messagingApi.Message[] = [];
+  if (notice) {
+    messages.push({ type: "text", text: notice });
+  }
+
+  if (draft.step === "confirm") {
+    messages.push(
+      { type: "flex", altText: `New word: ${draft.phrase}`, contents: formatDraftFlexMessage(draft) },
+      {
+        type: "text",
+        text: formatDraftPrompt(draft),
+        quickReply: { items: [createCommandButton("💾 Save", "save"), createCommandButton("✖️ Cancel", "cancel")] },
+      }
+    );
+  } else {
+    const items: line.messagingApi.QuickReplyItem[] = [];
+    if (draft.suggestions[draft.step] !== undefined) {
+      items.push(createCommandButton("📖 Dictionary", "dictionary"));
+    }
+    if (draft.step === "category") {
+      // LINE allows up to 13 quick reply items, and quick reply labels are limited to 20 characters
+      items.push(...categories.slice(0, 10).map((category) => createCommandButton(category.slice(0, 20), category)));
+    }
+    if (draft.step !== "meaning") {
+      items.push(createCommandButton("Skip", "skip"));
+    }
+    items.push(createCommandButton("✖️ Cancel", "cancel"));
+    messages.push({ type: "text", text: formatDraftPrompt(draft), quickReply: { items } });
+  }
+
+  await client.replyMessage({
+    replyToken,
+    messages: messages,
+  });
+}
+
+/**
+ * Formats a reply telling the user that a phrase already exists in a deck.
+ * 
+ * @param phrase - The phrase being added.
+ * @param deckName - The name of the deck.
+ * @param duplicates - The existing pages with the same phrase.
+ * @returns The message text, including a link to the existing page.
+ */
+function formatDuplicateMessage(phrase: string, deckName: string, duplicates: NotionPage[]): string {
+  return `"${phrase}" already exists in ${deckName}.\n${duplicates[0].url}`;
+}
+
+/**
+ * Handles the "add" command: starts the wizard that adds a new word to the first deck being studied.
+ * The phrase is checked against the existing phrases of the deck before anything is asked.
+ * Fields given up front (e.g., "add: sulk | meaning | example | Verb | URL") are not asked again.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ * @param text - The text following "add" (e.g., ": sulk").
+ */
+async function handleAddCommand(replyToken: string, chatId: string, session: UserSession, text: string): Promise<void> {
+  const fields = parseAddCommand(text);
+  const [deck] = getSelectedDecks(await getUserSettings(chatId));
+  if (!fields || !deck) {
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: deck
+            ? 'Please type the phrase to add, e.g., "add: sulk".'
+            : 'No decks are available yet. Register a Notion database with "deck add <database URL> <name>".',
+        },
+      ],
+    });
+    return;
+  }
+
+  try {
+    await startLoadingAnimation(client, chatId);
+
+    // Reject phrases that already exist in the deck
+    const duplicates = await findPagesByPhrase(deck.databaseId, fields.phrase);
+    if (duplicates.length > 0) {
+      await client.replyMessage({
+        replyToken,
+        messages: [
+          {
+            type: "text",
+            text: formatDuplicateMessage(fields.phrase, deck.name, duplicates),
+            quickReply: { items: [Button.Next] },
+          },
+        ],
+      });
+      return;
+    }
+
+    const { category: categories } = await getFilterOptions(deck.databaseId);
+
+    // Offer the dictionary's values for the fields that were not given up front.
+    // The word can still be added by hand if the dictionary cannot be reached
+    const entry = await lookUpPhrase(fields.phrase).catch(() => null);
+    const suggestions = entry ? suggestFieldValues(entry, categories) : null;
+
+    const draft: WordDraft = {
+      databaseId: deck.databaseId,
+      deckName: deck.name,
+      ...fields,
+      category: fields.category.map((name) => findOption(name, categories) ?? name), // Reuse existing categories
+      ipa: suggestions?.ipa ?? "",
+      suggestions: suggestions
+        ? findMissingValues({ ...fields, ipa: "" }, suggestions, ["meaning", "example", "category", "url"])
+        : {},
+      step: "meaning",
+    };
+    draft.step = getNextDraftStep(draft, null);
+    session.draft = draft;
+    session.edit = null; // A new word replaces any edit in progress
+    session.enrichment = null;
+    await saveSession(session);
+    await replyDraftStep(replyToken, draft, categories);
+  } catch (error) {
+    console.error(`Failed to start adding "${fields.phrase}":`, error);
+    await client.replyMessage({
+      replyToken,
+      messages: [{ type: "text", text: "❌ The word could not be added. Please try again later." }],
+    });
+  }
+}
+
+/**
+ * Handles a text message while the add-word wizard is in progress: stores the answer to the current step
+ * and asks the next one. In the last step, "save" creates the page in Notion and "cancel" discards the draft
+ * (which can also be done in any other step).
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session. Must have a draft.
+ * @param input - The text typed by the user.
+ */
+async function handleDraftInput(replyToken: string, chatId: string, session: UserSession, input: string): Promise<void> {
+  const draft = session.draft;
+  if (!draft) {
+    return;
+  }
+  const command = input.trim().toLowerCase();
+
+  // Discard the draft
+  if (command === "cancel") {
+    session.draft = null;
+    await saveSession(session);
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: `"${draft.phrase}" was not added.`,
+          quickReply: { items: [Button.Next] },
+        },
+      ],
+    });
+    return;
+  }
+
+  try {
+    await startLoadingAnimation(client, chatId);
+    const { category: categories } = await getFilterOptions(draft.databaseId);
+
+    // Ask again until the user saves or cancels the draft
+    if (draft.step === "confirm" && command !== "save") {
+      await replyDraftStep(replyToken, draft, categories, 'Please press "Save" or "Cancel".');
+      return;
+    }
+
+    if (draft.step === "confirm") {
+      // Check for duplicates again, in case the phrase was added elsewhere in the meantime
+      const duplicates = await findPagesByPhrase(draft.databaseId, draft.phrase);
+      const page = duplicates.length > 0
+        ? null
+        : await createNotionPage(draft.databaseId, {
+            phrase: draft.phrase,
+            meaning: draft.meaning,
+            example: draft.example,
+            category: draft.category,
+            url: draft.url,
+            ipa: draft.ipa,
+          });
+
+      session.draft = null;
+      await saveSession(session);
+      await client.replyMessage({
+        replyToken,
+        messages: [
+          {
+            type: "text",
+            text: page
+              ? `✅ "${draft.phrase}" has been added to ${draft.deckName}.\n${page.url}`
+              : formatDuplicateMessage(draft.phrase, draft.deckName, duplicates),
+            quickReply: { items: [Button.Next] },
+          },
+        ],
+      });
+      return;
+    }
+
+    // Store the answer and move on to the next step
+    const error = applyDraftInput(draft, input, categories);
+    if (!error) {
+      draft.step = getNextDraftStep(draft, draft.step);
+      await saveSession(session);
+    }
+    await replyDraftStep(replyToken, draft, categories, error ?? undefined);
+  } catch (error) {
+    console.error(`Failed to add "${draft.phrase}":`, error);
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: '❌ The word could not be added. Please try again, or send "cancel".',
+        },
+      ],
+    });
+  }
+}
+
+/**
+ * Writes new values of fields of the current word to Notion, reflects them in the displayed word and replies
+ * with the updated details card. The feedback buttons are kept if the word has not been rated yet.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session. Saved after the word is updated.
+ * @param word - The current word.
+ * @param values - The new values, keyed by field.
+ * @param notice - The message shown before the updated card.
+ * @throws An error if the Notion page could not be updated.
+ */
+async function saveWordFields(
+  replyToken: string,
+  chatId: string,
+  session: UserSession,
+  word: NotionPage,
+  values: Partial<NotionPageProperties>,
+  notice: string
+): Promise<void> {
+  await startLoadingAnimation(client, chatId);
+  await updatePageFields(word.id, values);
+  console.log(`Notion page "${word.properties.phrase}" updated: ${Object.keys(values).join(", ")}`);
+
+  // Reflect the change in the displayed word
+  word.properties = { ...word.properties, ...values };
+  if (values.meaning !== undefined) {
+    word.richText.meaning = toPlainRichText(values.meaning);
+  }
+  if (values.example !== undefined) {
+    word.richText.example = toPlainRichText(values.example);
+  }
+  await saveSession(session);
+
+  const wordButtons = session.state === "Understood"
+    ? [ButtonLabel.NeverBetter, ButtonLabel.Good, ButtonLabel.SoSo, ButtonLabel.NotAtAll, ...getCorrectionLabels(word)]
+    : getCorrectionLabels(word);
+  const messages: line.messagingApi.Message[] = [
+    {
+      type: "text",
+      text: notice,
+    },
+    {
+      type: "flex",
+      altText: word.properties.meaning || "Study Data: No meaning available.",
+      contents: formatFlexMessage(word),
+      quickReply: { items: [Button.Next, ...createWordButtons(word, session, wordButtons)] },
+    },
+  ];
+
+  await client.replyMessage({
+    replyToken,
+    messages: messages,
+  });
+}
+
+/**
+ * Creates quick reply buttons to choose which field of the given word to edit.
+ * Only the fields mapped to a Notion column are offered.
+ * 
+ * @param word - The word to edit.
+ * @param session - The user's current session.
+ * @returns An array of QuickReplyItems with postback actions carrying the field.
+ */
+function createEditFieldButtons(word: NotionPage, session: UserSession): line.messagingApi.QuickReplyItem[] {
+  return (Object.keys(EDITABLE_FIELD_LABELS) as EditableField[])
+    .filter((field) => isFieldMapped(field))
+    .map((field) => ({
+      type: "action",
+      action: {
+        type: "postback",
+        label: `📝 ${EDITABLE_FIELD_LABELS[field]}`,
+        data: encodePostbackData({ action: ButtonLabel.EditField, pageId: word.id, nonce: session.nonce, field }),
+        displayText: `Edit ${EDITABLE_FIELD_LABELS[field]}`,
+      },
+    }));
+}
+
+/**
+ * Replies with the preview of an edit and the save/cancel buttons.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param word - The word being edited.
+ * @param edit - The edit to preview. Must have a new value.
+ * @param notice - (Optional) A message shown before the preview.
+ */
+async function replyEditPreview(replyToken: string, word: NotionPage, edit: WordEdit, notice?: string): Promise<void> {
+  const messages: line.messagingApi.Message[] = [];
+  if (notice) {
+    messages.push({ type: "text", text: notice });
+  }
+  messages.push(
+    {
+      type: "flex",
+      altText: `Edit ${EDITABLE_FIELD_LABELS[edit.field]}: ${word.properties.phrase}`,
+      contents: formatEditFlexMessage(word, edit),
+    },
+    {
+      type: "text",
+      text: `Save this change to "${word.properties.phrase}"?`,
+      quickReply: { items: [createCommandButton("💾 Save", "save"), createCommandButton("✖️ Cancel", "cancel")] },
+    }
+  );
+
+  await client.replyMessage({
+    replyToken,
+    messages: messages,
+  });
+}
+
+/**
+ * Handles the "Edit" button: asks which field of the current word to correct.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param session - The user's current session.
+ */
+async function handleEdit(replyToken: string, session: UserSession): Promise<void> {
+  const currentWord = session.currentWord;
+  if (!currentWord) {
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: "There's something wrong. No word is displayed.",
+          quickReply: { items: [Button.Next] },
+        },
+      ],
+    });
+    return;
+  }
+
+  await client.replyMessage({
+    replyToken,
+    messages: [
+      {
+        type: "text",
+        text: `Which field of "${currentWord.properties.phrase}" do you want to edit?`,
+        quickReply: { items: [...createEditFieldButtons(currentWord, session), Button.Next] },
+      },
+    ],
+  });
+}
+
+/**
+ * Handles a field selected after pressing the "Edit" button: starts an edit of that field and asks for
+ * the new value. The pronunciation flag has only two values, so it is toggled and previewed right away.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ * @param field - The field selected by the user.
+ */
+async function handleEditField(
+  replyToken: string,
+  chatId: string,
+  session: UserSession,
+  field: EditableField | undefined
+): Promise<void> {
+  const currentWord = session.currentWord;
+  if (!currentWord || !field) {
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: "There's something wrong. No word is displayed.",
+          quickReply: { items: [Button.Next] },
+        },
+      ],
+    });
+    return;
+  }
+
+  const edit: WordEdit = { pageId: currentWord.id, field, value: null };
+  session.edit = edit;
+  session.draft = null; // An edit replaces any word being added
+  session.enrichment = null;
+  if (field === "pronunciationCheck") {
+    edit.value = !currentWord.properties.pronunciationCheck;
+    await saveSession(session);
+    await replyEditPreview(replyToken, currentWord, edit);
+    return;
+  }
+  await saveSession(session);
+
+  try {
+    const items: line.messagingApi.QuickReplyItem[] = [];
+    if (field === "category") {
+      await startLoadingAnimation(client, chatId);
+      const { category: categories } = await getFilterOptions(currentWord.databaseId);
+      // LINE allows up to 13 quick reply items, and quick reply labels are limited to 20 characters
+      items.push(...categories.slice(0, 12).map((category) => createCommandButton(category.slice(0, 20), category)));
+    }
+    items.push(createCommandButton("✖️ Cancel", "cancel"));
+
+    await client.replyMessage({
+      replyToken,
+      messages: [{ type: "text", text: formatEditPrompt(currentWord, field), quickReply: { items } }],
+    });
+  } catch (error) {
+    console.error(`Failed to start editing ${field} of ${currentWord.id}:`, error);
+    await client.replyMessage({
+      replyToken,
+      messages: [{ type: "text", text: '❌ The word could not be edited. Please try again, or send "cancel".' }],
+    });
+  }
+}
+
+/**
+ * Handles a text message while an edit is in progress: stores the new value and shows the preview.
+ * Once the preview is shown, "save" writes the change to Notion and "cancel" discards the edit
+ * (which can also be done before the new value is typed).
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session. Must have an edit.
+ * @param input - The text typed by the user.
+ */
+async function handleEditInput(replyToken: string, chatId: string, session: UserSession, input: string): Promise<void> {
+  const edit = session.edit;
+  const currentWord = session.currentWord;
+  if (!edit) {
+    return;
+  }
+  const command = input.trim().toLowerCase();
+
+  // Discard the edit, also if the word it belongs to is no longer displayed
+  if (command === "cancel" || currentWord?.id !== edit.pageId) {
+    session.edit = null;
+    await saveSession(session);
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: currentWord ? `"${currentWord.properties.phrase}" was not changed.` : "The edit was discarded.",
+          quickReply: { items: [Button.Next] },
+        },
+      ],
+    });
+    return;
+  }
+
+  try {
+    // Store the new value and ask for confirmation
+    if (edit.value === null) {
+      await startLoadingAnimation(client, chatId);
+      const { category: categories } = edit.field === "category"
+        ? await getFilterOptions(currentWord.databaseId)
+        : { category: [] };
+      const error = applyEditInput(edit, input, categories);
+      if (error) {
+        await client.replyMessage({
+          replyToken,
+          messages: [{ type: "text", text: error, quickReply: { items: [createCommandButton("✖️ Cancel", "cancel")] } }],
+        });
+        return;
+      }
+      await saveSession(session);
+      await replyEditPreview(replyToken, currentWord, edit);
+      return;
+    }
+
+    // Ask again until the user saves or cancels the edit
+    if (command !== "save") {
+      await replyEditPreview(replyToken, currentWord, edit, 'Please press "Save" or "Cancel".');
+      return;
+    }
+
+    session.edit = null;
+    await saveWordFields(
+      replyToken,
+      chatId,
+      session,
+      currentWord,
+      { [edit.field]: edit.value } as Partial<NotionPageProperties>,
+      `✅ The ${EDITABLE_FIELD_LABELS[edit.field].toLowerCase()} of "${currentWord.properties.phrase}" has been updated.`
+    );
+  } catch (error) {
+    console.error(`Failed to edit ${edit.field} of ${edit.pageId}:`, error);
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: '❌ The word could not be updated. Please try again, or send "cancel".',
+        },
+      ],
+    });
+  }
+}
+
+/**
+ * Handles the "Look Up" button: looks up the current word in the dictionary and previews the values
+ * that would fill in its empty fields, waiting for the user to save or cancel them.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ */
+async function handleLookUp(replyToken: string, chatId: string, session: UserSession): Promise<void> {
+  const currentWord = session.currentWord;
+  if (!currentWord) {
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: "There's something wrong. No word is displayed.",
+          quickReply: { items: [Button.Next] },
+        },
+      ],
+    });
+    return;
+  }
+
+  try {
+    await startLoadingAnimation(client, chatId);
+    const entry = await lookUpPhrase(currentWord.properties.phrase);
+    const { category: categories } = entry ? await getFilterOptions(currentWord.databaseId) : { category: [] };
+    const values = entry
+      ? findMissingValues(currentWord.properties, suggestFieldValues(entry, categories), getEnrichableFields())
+      : {};
+
+    if (Object.keys(values).length === 0) {
+      await client.replyMessage({
+        replyToken,
+        messages: [
+          {
+            type: "text",
+            text: entry
+              ? `The dictionary has nothing to add to "${currentWord.properties.phrase}".`
+              : `"${currentWord.properties.phrase}" was not found in the dictionary.`,
+            quickReply: { items: [Button.Next, ...createWordButtons(currentWord, session, [ButtonLabel.Edit])] },
+          },
+        ],
+      });
+      return;
+    }
+
+    session.enrichment = { pageId: currentWord.id, values };
+    session.edit = null; // The suggestions replace any edit or word being added
+    session.draft = null;
+    await saveSession(session);
+
+    const messages: line.messagingApi.Message[] = [
+      {
+        type: "flex",
+        altText: `Dictionary: ${currentWord.properties.phrase}`,
+        contents: formatEnrichmentFlexMessage(currentWord.properties.phrase, values),
+      },
+      {
+        type: "text",
+        text: `Fill in the empty fields of "${currentWord.properties.phrase}" with these values?`,
+        quickReply: { items: [createCommandButton("💾 Save", "save"), createCommandButton("✖️ Cancel", "cancel")] },
+      },
+    ];
+
+    await client.replyMessage({
+      replyToken,
+      messages: messages,
+    });
+  } catch (error) {
+    console.error(`Failed to look up ${currentWord.id}:`, error);
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: "❌ The dictionary could not be reached. Please try again later.",
+          quickReply: { items: [Button.Next] },
+        },
+      ],
+    });
+  }
+}
+
+/**
+ * Handles a text message while dictionary suggestions are waiting for confirmation:
+ * "save" writes them to Notion, and anything else discards them.
+ * 
+ * @param replyToken - The reply token of the event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session. Must have suggestions.
+ * @param input - The text typed by the user.
+ */
+async function handleEnrichmentInput(
+  replyToken: string,
+  chatId: string,
+  session: UserSession,
+  input: string
+): Promise<void> {
+  const enrichment = session.enrichment;
+  const currentWord = session.currentWord;
+  if (!enrichment) {
+    return;
+  }
+  session.enrichment = null;
+
+  // Discard the suggestions, also if the word they belong to is no longer displayed
+  if (input.trim().toLowerCase() !== "save" || currentWord?.id !== enrichment.pageId) {
+    await saveSession(session);
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: currentWord ? `"${currentWord.properties.phrase}" was not changed.` : "The suggestions were discarded.",
+          quickReply: { items: [Button.Next] },
+        },
+      ],
+    });
+    return;
+  }
+
+  try {
+    const labels = (Object.keys(enrichment.values) as EnrichableField[]).map((field) => ENRICHABLE_FIELD_LABELS[field]);
+    await saveWordFields(
+      replyToken,
+      chatId,
+      session,
+      currentWord,
+      enrichment.values,
+      `✅ ${labels.join(", ")} of "${currentWord.properties.phrase}" filled in from the dictionary.`
+    );
+  } catch (error) {
+    console.error(`Failed to save dictionary values for ${enrichment.pageId}:`, error);
+    await saveSession(session);
+    await client.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: '❌ The word could not be updated. Please press "Look Up" to try again.',
+          quickReply: { items: [Button.Next, ...createWordButtons(currentWord, session, [ButtonLabel.LookUp])] },
+        },
+      ],
+    });
+  }
+}
 
 // ============================
-// Utility Functions
+// Event Handlers
 // ============================
 
 /**
- * Checks if a given value is a valid ButtonLabel.
- * This function ensures type safety when processing user input or external data.
+ * Handles a text message typed by the user.
+ * While a word is being edited, the message provides the new value or confirms the edit.
+ * While dictionary suggestions are previewed, the message saves or discards them.
+ * While the add-word wizard is in progress, the message answers the wizard's current question.
+ * While a reverse or cloze card is waiting for an answer, the message is graded as the answer.
+ * Apart from that and typed commands (e.g., "quiz"), actions are only triggered by postback buttons,
+ * so free text is answered with a prompt showing the buttons available for the current state.
  * 
- * @param value - The input value to check.
- * @returns - True if the value is a valid ButtonLabel, false otherwise.
+ * @param event - The text message event.
+ * @param session - The user's current session.
  */
-function isValidButtonLabel(value: string): value is ButtonLabel {
-  // Use Object.values to get all possible ButtonLabel values and check inclusion
-  return Object.values(ButtonLabel).includes(value as ButtonLabel);
+async function handleTextMessage(event: line.MessageEvent, chatId: string, session: UserSession): Promise<void> {
+  const userMessage = event.message.type === "text" ? event.message.text : "";
+
+  // Treat the message as the new value of the field being edited
+  if (session.edit) {
+    await handleEditInput(event.replyToken, chatId, session, userMessage);
+    return;
+  }
+
+  // Treat the message as the answer to the dictionary suggestions
+  if (session.enrichment) {
+    await handleEnrichmentInput(event.replyToken, chatId, session, userMessage);
+    return;
+  }
+
+  // Treat the message as an answer to the add-word wizard
+  if (session.draft) {
+    await handleDraftInput(event.replyToken, chatId, session, userMessage);
+    return;
+  }
+
+  // Start adding a new word. "add: ..." is never an answer to a card, whereas "add ..." is only a command
+  // when no card is waiting for an answer
+  const trimmedMessage = userMessage.trim();
+  const isExplicitAdd = /^add\s*:/i.test(trimmedMessage);
+  const isPlainAdd = /^add(\s|$)/i.test(trimmedMessage) && session.state !== "AwaitingAnswer";
+  if (isExplicitAdd || isPlainAdd) {
+    await handleAddCommand(event.replyToken, chatId, session, trimmedMessage.slice("add".length));
+    return;
+  }
+
+  // Treat the message as the answer to a reverse or cloze card
+  if (session.state === "AwaitingAnswer" && session.prompt) {
+    await handleTypedAnswer(event.replyToken, chatId, session, userMessage);
+    return;
+  }
+
+  // Handle typed commands
+  const command = userMessage.trim().toLowerCase();
+  if (command === "quiz") {
+    await handleQuiz(event.replyToken, chatId, session);
+    return;
+  }
+  if (command === "voice" || command.startsWith("voice ")) {
+    await handleVoiceCommand(event.replyToken, chatId, command.slice("voice".length).trim());
+    return;
+  }
+  if (command === "reverse" || command === "cloze") {
+    await handleRecall(event.replyToken, chatId, session, command === "reverse" ? "Reverse" : "Cloze");
+    return;
+  }
+  if (command === "study" || command.startsWith("study ")) {
+    await handleStudyCommand(event.replyToken, chatId, session, userMessage.trim().slice("study".length).trim());
+    return;
+  }
+  if (command === "pronunciation drills" || command === "pronunciation") {
+    await handleStudyCommand(event.replyToken, chatId, session, null);
+    return;
+  }
+  if (command === "reminder" || command === "reminders" || command.startsWith("reminder ")) {
+    await handleReminderCommand(event.replyToken, chatId, command.replace(/^reminders?/, "").trim());
+    return;
+  }
+  if (command === "finish" || command === "stop" || command === "done") {
+    await handleFinish(event.replyToken, chatId, session);
+    return;
+  }
+  if (command === "goal" || command.startsWith("goal ")) {
+    await handleGoalCommand(event.replyToken, chatId, command.slice("goal".length).trim());
+    return;
+  }
+  if (command === "link") {
+    await handleLinkCommand(event.replyToken, chatId);
+    return;
+  }
+  if (command === "decks" || command === "deck") {
+    await handleDecks(event.replyToken, chatId);
+    return;
+  }
+  if (command.startsWith("deck ")) {
+    // Pass the original text, since database IDs and deck names are case-sensitive
+    await handleDeckCommand(event.replyToken, chatId, userMessage.trim().slice("deck".length).trim());
+    return;
+  }
+
+  console.warn("Unsupported message received:", userMessage);
+
+  if (!session.currentWord) {
+    // No current word, respond with a default unsupported message
+    session.state = "NotDisplayed"; // Reset state to initial
+    await saveSession(session);
+    await client.replyMessage({
+      replyToken: event.replyToken,
+      messages: [
+        {
+          type: "text",
+          text: 'The message you sent is not supported. Please press the "Next" button to fetch the next word, or choose a quiz, card direction or deck.',
+          quickReply: { items: [Button.Next, Button.Quiz, Button.Reverse, Button.Cloze, Button.Decks] },
+        },
+      ],
+    });
+  } else {
+    // A current word exists, respond with the current word's phrase
+    await client.replyMessage({
+      replyToken: event.replyToken,
+      messages: [
+        {
+          type: "text",
+          text: session.currentWord.properties.phrase,
+          quickReply: { items: [Button.Next, ...createWordButtons(session.currentWord, session, [ButtonLabel.Meaning])] },
+        },
+      ],
+    });
+  }
+}
+
+/**
+ * Handles a postback event sent by pressing a quick reply button.
+ * Buttons attached to a word that is no longer displayed are rejected, so that feedback
+ * is never attributed to a different word than the one the button was attached to.
+ * 
+ * @param event - The postback event.
+ * @param chatId - The LINE user's chat ID.
+ * @param session - The user's current session.
+ */
+async function handlePostback(event: line.PostbackEvent, chatId: string, session: UserSession): Promise<void> {
+  const payload = parsePostbackData(event.postback.data);
+  if (!payload) {
+    console.warn("Unsupported postback data received:", event.postback.data);
+    return;
+  }
+
+  // Log the user's input
+  console.log("User input received:", payload);
+
+  // Handle "Next" button press, and "Start" on the daily reminder
+  if (payload.action === ButtonLabel.Next || payload.action === ButtonLabel.Start) {
+    await handleNext(event.replyToken, chatId, session);
+    return;
+  }
+
+  // Handle "Finish" button press
+  if (payload.action === ButtonLabel.Finish) {
+    await handleFinish(event.replyToken, chatId, session);
+    return;
+  }
+
+  // Handle "Quiz" button press
+  if (payload.action === ButtonLabel.Quiz) {
+    await handleQuiz(event.replyToken, chatId, session);
+    return;
+  }
+
+  // Handle "Reverse" and "Cloze" button presses
+  if (payload.action === ButtonLabel.Reverse || payload.action === ButtonLabel.Cloze) {
+    await handleRecall(event.replyToken, chatId, session, payload.action);
+    return;
+  }
+
+  // Handle the deck switcher
+  if (payload.action === ButtonLabel.Decks) {
+    await handleDecks(event.replyToken, chatId);
+    return;
+  }
+  if (payload.action === ButtonLabel.SelectDeck || payload.action === ButtonLabel.ToggleDeck) {
+    await handleDeckSelection(event.replyToken, chatId, payload.action, payload.deckId);
+    return;
+  }
+
+  // The remaining buttons act on a specific word, so reject buttons pressed from the chat history
+  if (isStalePostback(payload, session)) {
+    console.warn("Stale button pressed:", payload);
+    await client.replyMessage({
+      replyToken: event.replyToken,
+      messages: [
+        {
+          type: "text",
+          text: 'This button belongs to a word that is no longer displayed. Please use the buttons on the latest message or press "Next".',
+          quickReply: { items: [Button.Next] },
+        },
+      ],
+    });
+    return;
+  }
+
+  // Handle "Meaning" button press
+  if (payload.action === ButtonLabel.Meaning) {
+    await handleMeaning(event.replyToken, session);
+  }
+
+  // Handle quiz answers
+  else if (payload.action === ButtonLabel.Answer) {
+    await handleAnswer(event.replyToken, chatId, session, payload.choice);
+  }
+
+  // Handle the "Edit" button and the field selected to be edited
+  else if (payload.action === ButtonLabel.Edit) {
+    await handleEdit(event.replyToken, session);
+  }
+  else if (payload.action === ButtonLabel.EditField) {
+    await handleEditField(event.replyToken, chatId, session, payload.field);
+  }
+
+  // Handle the "Look Up" button
+  else if (payload.action === ButtonLabel.LookUp) {
+    await handleLookUp(event.replyToken, chatId, session);
+  }
+
+  // Handle feedback button presses
+  else {
+    await handleFeedback(event.replyToken, chatId, session, payload.action);
+  }
+}
+
+/**
+ * Handles a single event sent by the LINE platform.
+ * This function loads the user's session and dispatches the event to the appropriate handler.
+ * 
+ * @param event - The webhook event to handle.
+ */
+async function handleEvent(event: line.WebhookEvent): Promise<void> {
+  // Only text messages and postbacks are handled
+  const isTextMessage = event.type === "message" && event.message.type === "text";
+  if (!isTextMessage && event.type !== "postback") {
+    return;
+  }
+
+  // Ensure chatId exists, since the session is keyed by it
+  const chatId = event.source.userId;
+  if (!chatId) {
+    console.error("Chat ID not found. Cannot load the session.");
+    await client.replyMessage({
+      replyToken: event.replyToken,
+      messages: [
+        {
+          type: "text",
+          text: "Unable to process your request. Chat ID not found.",
+          quickReply: { items: [Button.Next] },
+        },
+      ],
+    });
+    return; // Stop further processing
+  }
+
+  // Load the user's session (state and current word)
+  const session = await getSession(chatId);
+
+  if (event.type === "postback") {
+    await handlePostback(event, chatId, session);
+  } else if (event.type === "message") {
+    await handleTextMessage(event, chatId, session);
+  }
 }
 
 // ============================
@@ -94,265 +2183,40 @@ function isValidButtonLabel(value: string): value is ButtonLabel {
 
 /**
  * Main handler for incoming POST requests from LINE Webhook.
- * This function processes user interactions and responds with appropriate messages
- * and quick reply options based on the current state.
+ * This function verifies the request signature, skips events that have already been processed,
+ * and dispatches the remaining events to `handleEvent`.
  */
 export async function POST(req: NextRequest) {
   try {
+    // Verify that the request was sent by the LINE platform
+    const rawBody = await req.text();
+    if (!isValidSignature(rawBody, req.headers.get("x-line-signature"))) {
+      console.warn("Rejected webhook request with an invalid signature.");
+      return NextResponse.json({ status: "Unauthorized" }, { status: 401 });
+    }
+
     // Parse the incoming request body
-    const body = await req.json();
-    const events = body.events;
+    const body = JSON.parse(rawBody);
+    const events: line.WebhookEvent[] = body.events;
 
     // Process each event sent by the LINE platform
     await Promise.all(
-      events.map(async (event: line.WebhookEvent) => {
-        // Check if the event is a text message
-        if (event.type === "message" && event.message.type === "text") {
-          const userMessage = event.message.text;
-
-          // Handle unsupported messages
-          if (!isValidButtonLabel(userMessage)) {
-            console.warn("Unsupported button label received:", userMessage);
-            if (!currentWord) {
-              // No current word, respond with a default unsupported message
-              userState = "NotDisplayed"; // Reset state to initial
-              await client.replyMessage({
-                replyToken: event.replyToken,
-                messages: [
-                  {
-                    type: "text",
-                    text: 'The message you sent is not supported. Please press the "Next" button to fetch the next word.',
-                    quickReply: { items: [Button.Next] },
-                  },
-                ],
-              });
-            } else {
-              // A current word exists, respond with the current word's phrase
-              await client.replyMessage({
-                replyToken: event.replyToken,
-                messages: [
-                  {
-                    type: "text",
-                    text: currentWord.properties.phrase,
-                    quickReply: { items: [Button.Next, Button.Meaning] },
-                  },
-                ],
-              });
-            }
-            return; // Stop further processing for this event
-          }
-
-          // Log the user's input message
-          console.log("User input received:", userMessage);
-
-          // Handle "Next" button press
-          if (userMessage === ButtonLabel.Next) {
-            // Ensure chatId exists
-            const chatId = event.source.userId;
-            if (!chatId) {
-              console.error("Chat ID not found. Cannot fetch the next page.");
-              await client.replyMessage({
-                replyToken: event.replyToken,
-                messages: [
-                  {
-                    type: "text",
-                    text: "Unable to process your request. Chat ID not found.",
-                    quickReply: { items: [Button.Next] },
-                  },
-                ],
-              });
-              return; // Stop further processing
-            }
-
-            // Fetch the next page from the cache and update currentWord
-            currentWord = await getNextPage(client, chatId);
-
-            if (currentWord) {
-              userState = "NotUnderstood"; // Update state
-              await client.replyMessage({
-                replyToken: event.replyToken,
-                messages: [
-                  {
-                    type: "text",
-                    text: currentWord.properties.phrase,
-                    quickReply: { items: [Button.Next, Button.Meaning] },
-                  },
-                ],
-              });
-            } else {
-              // No more pages to fetch
-              currentWord = null; // Clear the currentWord
-              await client.replyMessage({
-                replyToken: event.replyToken,
-                messages: [
-                  {
-                    type: "text",
-                    text: "No more words available. You have completed all the words!",
-                    quickReply: { items: [Button.Next] },
-                  },
-                ],
-              });
-            }
-          }
-
-          // Handle "Meaning" button press
-          else if (userMessage === ButtonLabel.Meaning) {
-            if (userState === "NotUnderstood" && currentWord) {
-              userState = "Understood"; // Update state
-
-              // TODO: Temporarily disabled
-              // Generate audio file and check the result
-              // const host = req.headers.get("host");
-              // const isAudioGenerated = await generateAudioFileViaApi(
-              //   process.env.INTERNAL_API_KEY!,
-              //   currentWord.properties.phrase,
-              //   currentWord.id,
-              //   host!,
-              //   client,
-              //   event.source.userId!,
-              // );
-
-              // Construct the messages array dynamically based on audio generation result
-              const messages: (line.AudioMessage | line.FlexMessage)[] = [];
-
-              // TODO: Temporarily commenting out the fallback text message for cases where the audio file generation fails.
-              // Add the audio message only if the audio file was successfully generated
-              // if (isAudioGenerated) {
-              //   const audioUrl = `https://${host}/output/audio-${currentWord.id}.mp3`;
-              //   messages.push({
-              //     type: "audio",
-              //     originalContentUrl: audioUrl,
-              //     duration: 10000, // Set default duration to 10 seconds
-              //   } as line.AudioMessage);
-              // } else {
-              //   messages.push({
-              //     type: "text",
-              //     text: "Sorry, the audio file could not be generated.",
-              //   });
-              // }
-
-              // Add other messages
-              const altText = currentWord.properties.meaning || "Study Data: No meaning available.";
-              messages.push(
-                {
-                  type: "flex",
-                  altText: altText,
-                  contents: formatFlexMessage(currentWord),
-                  quickReply: {
-                    items: [
-                      Button.Next,
-                      Button.NeverBetter,
-                      Button.Good,
-                      Button.SoSo,
-                      Button.NotAtAll,
-                    ],
-                  },
-                },
-              );
-
-              // Send the reply messages
-              await client.replyMessage({
-                replyToken: event.replyToken,
-                messages: messages as any,
-              });
-            } else {
-              await client.replyMessage({
-                replyToken: event.replyToken,
-                messages: [
-                  {
-                    type: "text",
-                    text: "There's something wrong. No more words available.",
-                    quickReply: { items: [Button.Next] },
-                  },
-                ],
-              });
-            }
-          }
-
-          // Handle feedback button presses
-          else if (
-            [
-              ButtonLabel.NeverBetter,
-              ButtonLabel.Good,
-              ButtonLabel.SoSo,
-              ButtonLabel.NotAtAll,
-            ].includes(userMessage)
-          ) {
-            if (userState === "Understood" && currentWord) {
-              userState = "NotUnderstood"; // Reset state
-
-              let updateSuccessful = false; // Flag to track success or failure
-
-              try {
-                // Ensure chatId exists
-                const chatId = event.source.userId;
-                if (!chatId) {
-                  console.error("Chat ID not found. Cannot fetch the next page.");
-                  await client.replyMessage({
-                    replyToken: event.replyToken,
-                    messages: [
-                      {
-                        type: "text",
-                        text: "Unable to process your request. Chat ID not found.",
-                        quickReply: { items: [Button.Next] },
-                      },
-                    ],
-                  });
-                  return; // Stop further processing
-                }
-                await startLoadingAnimation(client, chatId);
-
-                // Update Notion page memorization status
-                await updateMemorizationStatus(currentWord.id, userMessage);
-                console.log(`Notion page "${currentWord.properties.phrase}" updated with memorization status: ${userMessage}`);
-
-                // Save learning progress to Firestore
-                await saveLearningProgress(
-                  { pageId: currentWord.id, phrase: currentWord.properties.phrase },
-                  userMessage as "Never Better" | "Good" | "So So" | "Not At All"
-                );
-
-                updateSuccessful = true; // Mark as successful
-              } catch (error) {
-                // Log error for debugging
-                console.error(`Failed to process memorization update or save progress for ${currentWord.id}:`, error);
-              }
-
-              // Reply to the user based on the update status
-              const replyMessages: line.TextMessage[] = updateSuccessful
-                ? [
-                    {
-                      type: "text",
-                      text: `✅ The button "${getIconAndLabel(userMessage)}" was pressed!`,
-                      quickReply: { items: [Button.Next] },
-                    },
-                  ]
-                : [
-                    {
-                      type: "text",
-                      text: `❌ The button "${getIconAndLabel(userMessage)}" was pressed, but the update could not be completed. Please check it in Notion.`,
-                      quickReply: { items: [Button.Next] },
-                    },
-                  ];
-
-              await client.replyMessage({
-                replyToken: event.replyToken,
-                messages: replyMessages,
-              });
-            } else {
-              await client.replyMessage({
-                replyToken: event.replyToken,
-                messages: [
-                  {
-                    type: "text",
-                    text: "There's something wrong. No more words available.",
-                    quickReply: { items: [Button.Next] },
-                  },
-                ],
-              });
-            }
-          }
+      events.map(async (event) => {
+        // Claim the event before handling it, and acknowledge redelivered events that have already been claimed
+        // without processing them again
+        if (!(await claimEvent(event.webhookEventId))) {
+          console.log(`Skipping already processed webhook event: ${event.webhookEventId}`);
+          return;
+        }
+
+        try {
+          await handleEvent(event);
+        } catch (error) {
+          // Let the redelivery of the event be processed again
+          await releaseEvent(event.webhookEventId);
+          throw error;
         }
+        await completeEvent(event.webhookEventId);
       })
     );
 
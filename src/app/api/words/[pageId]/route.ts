@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "../../../utils/authUtils";
+import { updatePageFields } from "../../../utils/notionUtils";
+import { getUserDecks, getUserPage, isJsonObject, validateWordValues } from "../../../utils/wordBrowserUtils";
+
+/**
+ * API Endpoint: Retrieve a word
+ *
+ * Request headers:
+ * - `Cookie` or `Authorization` (required): The session cookie, or "Bearer <Firebase ID token>".
+ *
+ * @param request - The HTTP GET request.
+ * @param context - The route parameters, containing the `pageId` of the word.
+ * @returns A JSON response with the `word`, or a 404 error response if it is not a word of the decks of the user.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ pageId: string }> }
+) {
+  try {
+    // Authentication
+    const auth = await authorizeRequest(request);
+    if ("error" in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const word = await getUserPage(await getUserDecks(auth.user.uid), (await params).pageId);
+    if (!word) {
+      return NextResponse.json({ error: "Word not found." }, { status: 404 });
+    }
+    return NextResponse.json({ word });
+  } catch (error) {
+    console.error("Error retrieving word:", error);
+    return NextResponse.json({ error: "Failed to retrieve word." }, { status: 500 });
+  }
+}
+
+/**
+ * API Endpoint: Edit a word
+ *
+ * Request headers:
+ * - `Cookie` or `Authorization` (required): The session cookie, or "Bearer <Firebase ID token>".
+ *
+ * Request body (every field is optional, and only the given fields are changed):
+ * - `phrase`, `ipa`, `meaning`, `example`, `url`: Strings.
+ * - `category`, `movie`: Arrays of option names.
+ * - `pronunciationCheck`: A boolean.
+ *
+ * @param request - The HTTP PATCH request containing the JSON payload described above.
+ * @param context - The route parameters, containing the `pageId` of the word.
+ * @returns A JSON response with the updated `word`, or an error message.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ pageId: string }> }
+) {
+  try {
+    // Authentication
+    const auth = await authorizeRequest(request);
+    if ("error" in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const body: unknown = await request.json().catch(() => null);
+    if (!isJsonObject(body)) {
+      return NextResponse.json({ error: "The request body must be a JSON object." }, { status: 400 });
+    }
+
+    const result = validateWordValues(body);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const { pageId } = await params;
+    const decks = await getUserDecks(auth.user.uid);
+    if (!(await getUserPage(decks, pageId))) {
+      return NextResponse.json({ error: "Word not found." }, { status: 404 });
+    }
+
+    await updatePageFields(pageId, result.values);
+    return NextResponse.json({ word: await getUserPage(decks, pageId) });
+  } catch (error) {
+    console.error("Error editing word:", error);
+    return NextResponse.json({ error: "Failed to edit word." }, { status: 500 });
+  }
+}
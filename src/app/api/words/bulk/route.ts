@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "../../../utils/authUtils";
+import { resetMemorizationStatus, updatePageFields } from "../../../utils/notionUtils";
+import { getUserDecks, getUserPage, isJsonObject, validateBulkAction } from "../../../utils/wordBrowserUtils";
+import type { BulkWordResult } from "../../../types/wordBrowserTypes";
+
+/**
+ * API Endpoint: Change several words at once
+ *
+ * Request headers:
+ * - `Cookie` or `Authorization` (required): The session cookie, or "Bearer <Firebase ID token>".
+ *
+ * Request body:
+ * - `action` (required): "reset" to clear the memorization status and review schedule, or "tag" to add a category.
+ * - `pageIds` (required): The IDs of the pages of the words (see `MAX_BULK_WORDS`).
+ * - `category` (required for "tag"): The category to add.
+ *
+ * Words are updated one at a time, and a failure does not stop the others from being updated.
+ *
+ * @param request - The HTTP POST request containing the JSON payload described above.
+ * @returns A JSON response with the `updated` and `failed` page IDs, or an error message.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Authentication
+    const auth = await authorizeRequest(request);
+    if ("error" in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const body: unknown = await request.json().catch(() => null);
+    if (!isJsonObject(body)) {
+      return NextResponse.json({ error: "The request body must be a JSON object." }, { status: 400 });
+    }
+
+    const validated = validateBulkAction(body);
+    if ("error" in validated) {
+      return NextResponse.json({ error: validated.error }, { status: 400 });
+    }
+    const { action, pageIds } = validated;
+
+    const decks = await getUserDecks(auth.user.uid);
+    const result: BulkWordResult = { updated: [], failed: [] };
+    for (const pageId of pageIds) {
+      try {
+        const word = await getUserPage(decks, pageId);
+        if (!word) {
+          result.failed.push(pageId);
+          continue;
+        }
+
+        if (action.type === "reset") {
+          await resetMemorizationStatus(pageId);
+        } else if (!word.properties.category.includes(action.category)) {
+          await updatePageFields(pageId, { category: [...word.properties.category, action.category] });
+        }
+        result.updated.push(pageId);
+      } catch (error) {
+        console.error(`Failed to apply "${action.type}" to page ${pageId}:`, error);
+        result.failed.push(pageId);
+      }
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error changing words:", error);
+    return NextResponse.json({ error: "Failed to change words." }, { status: 500 });
+  }
+}
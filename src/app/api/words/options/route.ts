@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "../../../utils/authUtils";
+import { getFilterOptions } from "../../../utils/notionUtils";
+import { findUserDeck, getUserDecks } from "../../../utils/wordBrowserUtils";
+
+/**
+ * API Endpoint: List the decks and filter options of the word browser
+ *
+ * Request headers:
+ * - `Cookie` or `Authorization` (required): The session cookie, or "Bearer <Firebase ID token>".
+ *
+ * Query parameters:
+ * - `deckId` (optional): The database ID of the deck whose options are listed. Defaults to the first deck of the user.
+ *
+ * @param request - The HTTP GET request.
+ * @returns A JSON response with the `decks` of the user (see `getUserDecks`), the selected `deckId`, and the `category`, `movie`
+ *          and `memorized` options of the deck, or an error message.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication
+    const auth = await authorizeRequest(request);
+    if ("error" in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const decks = await getUserDecks(auth.user.uid);
+    const deck = findUserDeck(decks, request.nextUrl.searchParams.get("deckId"));
+    if (!deck) {
+      return NextResponse.json({ error: "Deck not found." }, { status: 404 });
+    }
+
+    const { category, movie } = await getFilterOptions(deck.databaseId);
+    return NextResponse.json({
+      decks,
+      deckId: deck.databaseId,
+      category,
+      movie,
+      memorized: ["Never Better", "Good", "So So", "Not At All"],
+    });
+  } catch (error) {
+    console.error("Error listing word browser options:", error);
+    return NextResponse.json({ error: "Failed to list options." }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "../../utils/authUtils";
+import { searchDatabasePages } from "../../utils/notionUtils";
+import { findUserDeck, getUserDecks, parseWordQuery } from "../../utils/wordBrowserUtils";
+
+/**
+ * The number of words returned per request. More words are fetched with the returned cursor.
+ */
+const PAGE_SIZE = 50;
+
+/**
+ * API Endpoint: Search the words of a deck
+ *
+ * This API is called by the word browser of the dashboard. It returns the words of a deck of the user
+ * (see `getUserDecks`) matching the search, regardless of their review date.
+ *
+ * Request headers:
+ * - `Cookie` or `Authorization` (required): The session cookie, or "Bearer <Firebase ID token>".
+ *
+ * Query parameters:
+ * - `deckId` (optional): The database ID of the deck. Defaults to the first deck of the user.
+ * - The search, sort order and cursor described in `parseWordQuery`.
+ *
+ * @param request - The HTTP GET request.
+ * @returns A JSON response with the matching `words` and the `nextCursor`, or an error message.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Authentication
+    const auth = await authorizeRequest(request);
+    if ("error" in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const deck = findUserDeck(await getUserDecks(auth.user.uid), params.get("deckId"));
+    if (!deck) {
+      return NextResponse.json({ error: "Deck not found." }, { status: 404 });
+    }
+
+    const result = parseWordQuery(params);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const response = await searchDatabasePages(deck.databaseId, result.query, PAGE_SIZE);
+    return NextResponse.json({ words: response.results, nextCursor: response.next_cursor });
+  } catch (error) {
+    console.error("Error searching words:", error);
+    return NextResponse.json({ error: "Failed to search words." }, { status: 500 });
+  }
+}
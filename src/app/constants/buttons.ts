@@ -1,5 +1,6 @@
-import type { QuickReplyItem } from "@line/bot-sdk";
+import type { messagingApi } from "@line/bot-sdk";
 import { getIconAndLabel } from "../utils/generalUtils";
+import { encodePostbackData } from "../utils/postbackUtils";
 
 // Define an enum for button labels used in the LINE Bot's quick reply actions
 // Each enum value represents the text displayed on a button
@@ -21,68 +22,109 @@ export enum ButtonLabel {
 
   // Represents the "Not At All" button to mark the word as not memorized at all
   NotAtAll = "Not At All",
+
+  // Represents the "Quiz" button used to ask a multiple-choice question about the next word
+  Quiz = "Quiz",
+
+  // Represents a choice selected in answer to a quiz question
+  Answer = "Answer",
+
+  // Represents the "Reverse" button used to show the meaning of the next word and ask for the phrase
+  Reverse = "Reverse",
+
+  // Represents the "Cloze" button used to show the example of the next word with the phrase blanked out
+  Cloze = "Cloze",
+
+  // Represents the "Decks" button used to display the deck switcher
+  Decks = "Decks",
+
+  // Represents a deck selected in the deck switcher to be studied on its own
+  SelectDeck = "Select Deck",
+
+  // Represents a deck added to or removed from the decks being studied in the deck switcher
+  ToggleDeck = "Toggle Deck",
+
+  // Represents the "Edit" button used to correct a field of the current word
+  Edit = "Edit",
+
+  // Represents a field selected to be corrected after pressing the "Edit" button
+  EditField = "Edit Field",
+
+  // Represents the "Look Up" button used to fill in the empty fields of the current word from the dictionary
+  LookUp = "Look Up",
+
+  // Represents the "Start" button on the daily reminder, used to fetch the first word of the day
+  Start = "Start",
+
+  // Represents the "Finish" button used to end the study session and show its summary
+  Finish = "Finish",
 }
 
-// Define a collection of quick reply buttons for LINE Bot
-// Each button is represented as a QuickReplyItem object and tied to a specific action
-export const Button: Record<string, QuickReplyItem> = {
-  // The "Next" button allows the user to request the next word in the sequence
-  Next: {
+/**
+ * Creates a quick reply button that sends a postback event when pressed.
+ * The button label is shown in the chat as the user's message (`displayText`), while the structured
+ * payload is delivered to the webhook, so that the action is never inferred from free text.
+ * 
+ * @param label - The ButtonLabel of the button.
+ * @param target - (Optional) The word the button is attached to and the session nonce at the time the button was sent.
+ * @returns A QuickReplyItem with a postback action.
+ */
+export function createButton(
+  label: ButtonLabel,
+  target?: { pageId: string; nonce: string }
+): messagingApi.QuickReplyItem {
+  return {
     type: "action",
     action: {
-      type: "message",
-      label: getIconAndLabel(ButtonLabel.Next),
-      text: ButtonLabel.Next
+      type: "postback",
+      label: getIconAndLabel(label),
+      data: encodePostbackData({ action: label, ...target }),
+      displayText: label,
     },
-  },
+  };
+}
 
-  // The "Meaning" button displays the meaning of the current word
-  Meaning: {
+/**
+ * Creates a quick reply button that sends a typed command (e.g., "voice uk") when pressed.
+ * Commands are handled as text messages, so these buttons are used for settings rather than for
+ * actions on a specific word.
+ * 
+ * @param label - The text displayed on the button (max 20 characters).
+ * @param command - The command sent as the user's message.
+ * @returns A QuickReplyItem with a message action.
+ */
+export function createCommandButton(label: string, command: string): messagingApi.QuickReplyItem {
+  return {
     type: "action",
     action: {
       type: "message",
-      label: getIconAndLabel(ButtonLabel.Meaning),
-      text: ButtonLabel.Meaning
+      label,
+      text: command,
     },
-  },
+  };
+}
 
-  // The "Never Better" button marks the word as fully memorized by the user
-  NeverBetter: {
-    type: "action",
-    action: {
-      type: "message",
-      label: getIconAndLabel(ButtonLabel.NeverBetter),
-      text: ButtonLabel.NeverBetter
-    },
-  },
+// Define a collection of quick reply buttons for LINE Bot that are not attached to a specific word
+// Buttons that act on a word (e.g., "Meaning" and the feedback buttons) are created with `createButton`
+export const Button = {
+  // The "Next" button allows the user to request the next word in the sequence
+  Next: createButton(ButtonLabel.Next),
 
-  // The "Good" button marks the word as moderately memorized
-  Good: {
-    type: "action",
-    action: {
-      type: "message",
-      label: getIconAndLabel(ButtonLabel.Good),
-      text: ButtonLabel.Good
-    },
-  },
+  // The "Quiz" button asks a multiple-choice question about the next word
+  Quiz: createButton(ButtonLabel.Quiz),
 
-  // The "So So" button marks the word as partially memorized
-  SoSo: {
-    type: "action",
-    action: {
-      type: "message",
-      label: getIconAndLabel(ButtonLabel.SoSo),
-      text: ButtonLabel.SoSo
-    },
-  },
+  // The "Reverse" button shows the meaning of the next word and asks the user to type the phrase
+  Reverse: createButton(ButtonLabel.Reverse),
 
-  // The "Not At All" button marks the word as not memorized at all
-  NotAtAll: {
-    type: "action",
-    action: {
-      type: "message",
-      label: getIconAndLabel(ButtonLabel.NotAtAll),
-      text: ButtonLabel.NotAtAll
-    },
-  },
-};
\ No newline at end of file
+  // The "Cloze" button shows the example of the next word with the phrase blanked out
+  Cloze: createButton(ButtonLabel.Cloze),
+
+  // The "Decks" button displays the deck switcher
+  Decks: createButton(ButtonLabel.Decks),
+
+  // The "Start" button on the daily reminder starts studying the words due today
+  Start: createButton(ButtonLabel.Start),
+
+  // The "Finish" button ends the study session and shows its summary
+  Finish: createButton(ButtonLabel.Finish),
+};
@@ -0,0 +1,24 @@
+// Import necessary functions from the Firebase Admin SDK (server-side only)
+import { initializeApp, getApps, getApp, cert, applicationDefault } from "firebase-admin/app"; // Admin app initialization
+import { getFirestore } from "firebase-admin/firestore"; // Firestore with administrative privileges
+
+// Credentials of the service account used by the server
+// The JSON key of the service account is read from FIREBASE_SERVICE_ACCOUNT_KEY if it is set.
+// Otherwise, Application Default Credentials are used (e.g., the key file named by GOOGLE_APPLICATION_CREDENTIALS).
+const credential = process.env.FIREBASE_SERVICE_ACCOUNT_KEY
+  ? cert(JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY))
+  : applicationDefault();
+
+// Initialize the Firebase Admin app
+// Use the Singleton pattern to ensure that the app is initialized only once.
+// The Admin SDK bypasses the Firestore security rules, which deny every client access (see firestore.rules),
+// so the data of the bot and the dashboard can only be read and written by the server.
+const adminApp = !getApps().length
+  ? initializeApp({ credential, projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID })
+  : getApp();
+
+// Initialize Firestore for server-side database operations
+const adminFirestore = getFirestore(adminApp);
+
+// Export Firebase Admin instances for use by server-side code
+export { adminApp, adminFirestore };
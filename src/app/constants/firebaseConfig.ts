@@ -1,10 +1,11 @@
 // Import necessary functions from Firebase SDKs
 import { initializeApp, getApps, getApp } from "firebase/app"; // Firebase App initialization
-import { getFirestore } from "firebase/firestore"; // Firestore for database operations
 import { getAnalytics } from "firebase/analytics"; // Firebase Analytics for app analytics
+import { getStorage } from "firebase/storage"; // Cloud Storage for file storage
 
 // Firebase configuration object
 // These values are sourced from environment variables for security and flexibility.
+// The configuration is public, so Firestore is only accessed by the server through the Admin SDK (see firebaseAdminConfig.ts).
 // Ensure the values are defined in a .env file or environment configuration.
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY, // API Key for Firebase services
@@ -21,13 +22,13 @@ const firebaseConfig = {
 // If an app instance already exists, retrieve it using `getApp()`.
 const app = !getApps().length ? initializeApp(firebaseConfig) : getApp();
 
-// Initialize Firestore for database operations
-// Firestore is used to store and retrieve application data.
-const firestore = getFirestore(app);
+// Initialize Cloud Storage for file storage
+// Cloud Storage is used to store generated files such as pronunciation audio.
+const storage = getStorage(app);
 
 // Initialize Firebase Analytics (only in browser environments)
 // Analytics is optional and only available in client-side code.
 const analytics = typeof window !== "undefined" ? getAnalytics(app) : null;
 
 // Export Firebase instances for use throughout the application
-export { app, firestore, analytics };
\ No newline at end of file
+export { app, storage, analytics };
\ No newline at end of file
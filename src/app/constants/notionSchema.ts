@@ -0,0 +1,80 @@
+import type { NotionField, NotionFieldDefinition } from "../types/notionSchemaTypes";
+
+/**
+ * Definitions of the logical fields of a Notion page.
+ *
+ * The default mappings describe the original English Notion template. Databases with different column names
+ * or types can override them with a schema configuration (see `loadNotionSchema`).
+ */
+export const NOTION_FIELD_DEFINITIONS: Record<NotionField, NotionFieldDefinition> = {
+  phrase: {
+    defaultMapping: { name: "Phrase", type: "title" },
+    supportedTypes: ["title", "rich_text"],
+    required: true,
+  },
+  meaning: {
+    defaultMapping: { name: "Meaning", type: "rich_text" },
+    supportedTypes: ["rich_text", "title"],
+    required: true,
+  },
+  example: {
+    defaultMapping: { name: "Example", type: "rich_text" },
+    supportedTypes: ["rich_text", "title"],
+    required: false,
+  },
+  category: {
+    defaultMapping: { name: "Category", type: "multi_select" },
+    supportedTypes: ["multi_select", "select"],
+    required: false,
+  },
+  movie: {
+    defaultMapping: { name: "Movie", type: "multi_select" },
+    supportedTypes: ["multi_select", "select"],
+    required: false,
+  },
+  url: {
+    defaultMapping: { name: "URL", type: "url" },
+    supportedTypes: ["url", "rich_text"],
+    required: false,
+  },
+  pronunciationCheck: {
+    defaultMapping: { name: "PronunciationCheck", type: "checkbox" },
+    supportedTypes: ["checkbox"],
+    required: false,
+  },
+  ipa: {
+    defaultMapping: null, // Not part of the original template, so only read and written once mapped
+    supportedTypes: ["rich_text"],
+    required: false,
+  },
+  created: {
+    defaultMapping: { name: "Created", type: "created_time" },
+    supportedTypes: ["created_time", "date"],
+    required: false,
+  },
+  memorized: {
+    defaultMapping: { name: "Memorized", type: "select" },
+    supportedTypes: ["select", "status"],
+    required: true,
+  },
+  lastStudied: {
+    defaultMapping: { name: "Last Studied", type: "date" },
+    supportedTypes: ["date"],
+    required: true,
+  },
+  nextReview: {
+    defaultMapping: { name: "Next Review", type: "date" },
+    supportedTypes: ["date"],
+    required: true,
+  },
+  ease: {
+    defaultMapping: { name: "Ease", type: "number" },
+    supportedTypes: ["number"],
+    required: true,
+  },
+  interval: {
+    defaultMapping: { name: "Interval", type: "number" },
+    supportedTypes: ["number"],
+    required: true,
+  },
+};
@@ -1,14 +1,243 @@
 "use client";
 
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ProgressHeatmap } from "@/components/dashboard/progress-heatmap";
+import { MemorizationChart } from "@/components/dashboard/memorization-chart";
+import { HardestWords } from "@/components/dashboard/hardest-words";
+import { DueForecast } from "@/components/dashboard/due-forecast";
+import { LinkAccount } from "@/components/dashboard/link-account";
+import { SettingsSummary } from "@/components/dashboard/settings-summary";
 import { logoutUser } from "../utils/firebaseUtils";
+import {
+  getAccount,
+  getProgress,
+  linkLineAccount,
+  unlinkLineAccount,
+  getHistoryExportUrl,
+} from "../utils/dashboardApiUtils";
+import { buildHeatmap, fillDailyProgress, findHardestWords, forecastDueReviews } from "../utils/analyticsUtils";
+import { getCurrentStreak } from "../utils/streakUtils";
+import { addDays, getLocalDate } from "../utils/timeUtils";
+import type { DailyProgressRecord, DueForecastDay, HardWord, HeatmapCell, Learner } from "../types/analyticsTypes";
+import type { AccountLink } from "../types/accountTypes";
+import type { UserSettings } from "../types/userTypes";
+
+// The periods shown on the dashboard
+const HEATMAP_WEEKS = 26;
+const CHART_DAYS = 30;
+const FORECAST_DAYS = 14;
+const HARDEST_WORD_COUNT = 10;
+
+type Account = { link: AccountLink | null; settings: UserSettings | null };
+
+type Analytics = {
+  studiedToday: number;
+  streak: { current: number; longest: number; freezes: number };
+  heatmap: HeatmapCell[][];
+  chartDays: DailyProgressRecord[];
+  hardestWords: HardWord[];
+  forecast: DueForecastDay[];
+};
+
+/**
+ * Loads the progress of the learner linked to the signed-in user and computes everything shown on the dashboard.
+ *
+ * @param learner - The learner to show.
+ * @returns A promise that resolves to the analytics of the learner, based on their local date.
+ */
+async function loadAnalytics(learner: Learner): Promise<Analytics> {
+  const today = getLocalDate(learner.timeZone);
+  const { history, schedules, streak } = await getProgress(addDays(today, -HEATMAP_WEEKS * 7), today);
+
+  return {
+    studiedToday: history.find((record) => record.date === today)?.totalStudied ?? 0,
+    streak: { current: getCurrentStreak(streak, today), longest: streak.longest, freezes: streak.freezes },
+    heatmap: buildHeatmap(history, today, HEATMAP_WEEKS),
+    chartDays: fillDailyProgress(history, addDays(today, -(CHART_DAYS - 1)), today),
+    hardestWords: findHardestWords(history, HARDEST_WORD_COUNT),
+    forecast: forecastDueReviews(schedules, today, FORECAST_DAYS),
+  };
+}
 
 export default function DashboardPage() {
+  const [account, setAccount] = useState<Account | null>(null);
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  // Load the LINE account linked to the signed-in user
+  const loadAccount = () => {
+    setIsLoading(true);
+    getAccount()
+      .then((loaded) => {
+        setAccount(loaded);
+        if (!loaded.link) {
+          setAnalytics(null);
+          setIsLoading(false);
+        }
+      })
+      .catch(() => {
+        setError("Failed to load your account.");
+        setIsLoading(false);
+      });
+  };
+
+  useEffect(loadAccount, []);
+
+  // Load the analytics of the linked learner, based on their local date
+  useEffect(() => {
+    if (!account?.link || !account.settings) {
+      return;
+    }
+
+    const learner: Learner = { userId: account.link.lineUserId, timeZone: account.settings.timeZone };
+    let isCancelled = false;
+    setIsLoading(true);
+    setError("");
+    loadAnalytics(learner)
+      .then((loaded) => !isCancelled && setAnalytics(loaded))
+      .catch(() => !isCancelled && setError("Failed to load the progress data."))
+      .finally(() => !isCancelled && setIsLoading(false));
+    return () => {
+      isCancelled = true;
+    };
+  }, [account]);
+
+  const handleLink = async (code: string) => {
+    await linkLineAccount(code);
+    loadAccount();
+  };
+
+  const handleUnlink = async () => {
+    if (!confirm("Unlink your LINE account? Its progress will no longer be shown here.")) {
+      return;
+    }
+    try {
+      await unlinkLineAccount();
+      loadAccount();
+    } catch (e) {
+      alert(`Failed to unlink the account. ${(e as Error).message}`);
+    }
+  };
+
   return (
-    <div className="p-6">
-      <h1 className="text-2xl font-bold">Dashboard</h1>
-      <p className="mt-2 text-gray-600">Welcome to your dashboard! This section is under construction.</p>
-      <Button onClick={logoutUser}>Logout</Button>
+    <div className="flex flex-col gap-6 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold">Dashboard</h1>
+        <div className="flex items-center gap-3">
+          {account?.link && (
+            <>
+              <Button variant="ghost" onClick={handleUnlink}>Unlink LINE</Button>
+              <Button variant="outline" asChild>
+                <a href={getHistoryExportUrl("csv")} download>Export CSV</a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={getHistoryExportUrl("json")} download>Export JSON</a>
+              </Button>
+            </>
+          )}
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/words">Words</Link>
+          </Button>
+          <Button onClick={logoutUser}>Logout</Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="animate-spin" />
+          Loading progress...
+        </div>
+      ) : account && !account.link ? (
+        <LinkAccount onLink={handleLink} />
+      ) : !analytics ? (
+        !error && <p className="text-muted-foreground">No progress has been recorded yet. Rate a word in the LINE chat to get started.</p>
+      ) : (
+        <>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <Card>
+              <CardHeader>
+                <CardDescription>Current streak</CardDescription>
+                <CardTitle className="text-3xl">🔥 {analytics.streak.current} days</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-muted-foreground">
+                Longest: {analytics.streak.longest} days · Freezes left: {analytics.streak.freezes}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardDescription>Studied today</CardDescription>
+                <CardTitle className="text-3xl">{analytics.studiedToday} words</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardDescription>Due today</CardDescription>
+                <CardTitle className="text-3xl">{analytics.forecast[0]?.count ?? 0} words</CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Study activity</CardTitle>
+              <CardDescription>Words rated per day over the last {HEATMAP_WEEKS} weeks</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ProgressHeatmap columns={analytics.heatmap} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Memorization levels</CardTitle>
+              <CardDescription>Ratings per day over the last {CHART_DAYS} days</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MemorizationChart days={analytics.chartDays} />
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Hardest words</CardTitle>
+                <CardDescription>Words most often rated &quot;Not At All&quot;</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <HardestWords words={analytics.hardestWords} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Upcoming reviews</CardTitle>
+                <CardDescription>Words due over the next {FORECAST_DAYS} days, with overdue words counted today</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DueForecast days={analytics.forecast} />
+              </CardContent>
+            </Card>
+          </div>
+
+          {account?.settings && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Settings</CardTitle>
+                <CardDescription>Configured from the LINE chat with the &quot;goal&quot;, &quot;reminder&quot; and &quot;voice&quot; commands</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SettingsSummary settings={account.settings} />
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,288 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { WordDetail } from "@/components/dashboard/word-detail";
+import {
+  getWordOptions,
+  searchWords,
+  updateWord,
+  updateWords,
+  getVocabularyExportUrl,
+} from "../../utils/dashboardApiUtils";
+import type { NotionPage } from "../../types/notionTypes";
+import type { Deck } from "../../types/deckTypes";
+import type { BulkWordAction, EditableWordValues, WordQuery } from "../../types/wordBrowserTypes";
+
+// Shared classes of the drop-down lists, matching the `Input` component
+const SELECT_CLASS_NAME = "h-9 rounded-md border border-input bg-background px-3 text-sm";
+
+type WordOptions = { decks: Deck[]; category: string[]; movie: string[]; memorized: string[] };
+
+// The search shown when the page is opened
+const INITIAL_QUERY: WordQuery = {
+  search: "",
+  category: null,
+  movie: null,
+  memorized: null,
+  studiedFrom: null,
+  studiedTo: null,
+  sort: "phrase",
+  direction: "ascending",
+  cursor: null,
+};
+
+export default function WordsPage() {
+  const [deckId, setDeckId] = useState<string | null>(null);
+  const [options, setOptions] = useState<WordOptions>({ decks: [], category: [], movie: [], memorized: [] });
+  const [query, setQuery] = useState<WordQuery>(INITIAL_QUERY);
+  const [words, setWords] = useState<NotionPage[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [openWord, setOpenWord] = useState<NotionPage | null>(null);
+  const [tag, setTag] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState("");
+
+  // Load the decks and the filter options of the selected deck
+  useEffect(() => {
+    getWordOptions(deckId)
+      .then(({ deckId: resolvedDeckId, ...loaded }) => {
+        setOptions(loaded);
+        setDeckId(resolvedDeckId);
+      })
+      .catch((e: Error) => setError(e.message));
+  }, [deckId]);
+
+  // Search the words again whenever the deck or the search changes
+  const loadWords = useCallback(
+    async (cursor: string | null) => {
+      if (!deckId) {
+        return;
+      }
+      setIsLoading(true);
+      setError("");
+      try {
+        const result = await searchWords(deckId, { ...query, cursor });
+        setWords((current) => (cursor ? [...current, ...result.words] : result.words));
+        setNextCursor(result.nextCursor);
+      } catch (e) {
+        setError((e as Error).message);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [deckId, query]
+  );
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+    loadWords(null);
+  }, [loadWords]);
+
+  // Update a single criterion of the search
+  const updateQuery = <K extends keyof WordQuery>(key: K, value: WordQuery[K]) => {
+    setQuery((current) => ({ ...current, [key]: value }));
+  };
+
+  const toggleSelection = (pageId: string) => {
+    setSelectedIds((current) => {
+      const selected = new Set(current);
+      if (!selected.delete(pageId)) {
+        selected.add(pageId);
+      }
+      return selected;
+    });
+  };
+
+  const handleSave = async (values: EditableWordValues) => {
+    const updated = await updateWord(openWord!.id, values);
+    setOpenWord(updated);
+    setWords((current) => current.map((word) => (word.id === updated.id ? updated : word)));
+  };
+
+  const handleBulkUpdate = async (action: BulkWordAction) => {
+    const description = action.type === "reset"
+      ? `Reset the progress of ${selectedIds.size} words? They will be due for review again.`
+      : `Add the category "${action.category}" to ${selectedIds.size} words?`;
+    if (!confirm(description)) {
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      const result = await updateWords([...selectedIds], action);
+      if (result.failed.length > 0) {
+        alert(`${result.updated.length} words were updated, but ${result.failed.length} could not be updated.`);
+      }
+      setTag("");
+      await loadWords(null);
+      setSelectedIds(new Set());
+    } catch (e) {
+      alert(`Failed to update the words. ${(e as Error).message}`);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold">Words</h1>
+        <div className="flex items-center gap-3">
+          {deckId && (
+            <Button variant="outline" asChild>
+              <a href={getVocabularyExportUrl(deckId, query)} download>Export to Anki</a>
+            </Button>
+          )}
+          <Button variant="outline" asChild>
+            <Link href="/dashboard">Back to dashboard</Link>
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select className={SELECT_CLASS_NAME} value={deckId ?? ""} onChange={(e) => setDeckId(e.target.value)}>
+          {options.decks.map((deck) => (
+            <option key={deck.databaseId} value={deck.databaseId}>{deck.name}</option>
+          ))}
+        </select>
+        <Input
+          className="w-48"
+          placeholder="Search phrases"
+          defaultValue={query.search}
+          onKeyDown={(e) => e.key === "Enter" && updateQuery("search", e.currentTarget.value)}
+          onBlur={(e) => updateQuery("search", e.currentTarget.value)}
+        />
+        {(["category", "movie", "memorized"] as const).map((field) => (
+          <select
+            key={field}
+            className={SELECT_CLASS_NAME}
+            value={query[field] ?? ""}
+            onChange={(e) => updateQuery(field, e.target.value || null)}
+          >
+            <option value="">Any {field}</option>
+            {options[field].map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        ))}
+        <label className="flex items-center gap-1 text-sm text-muted-foreground">
+          Studied from
+          <Input
+            type="date"
+            className="w-40"
+            value={query.studiedFrom ?? ""}
+            onChange={(e) => updateQuery("studiedFrom", e.target.value || null)}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-sm text-muted-foreground">
+          to
+          <Input
+            type="date"
+            className="w-40"
+            value={query.studiedTo ?? ""}
+            onChange={(e) => updateQuery("studiedTo", e.target.value || null)}
+          />
+        </label>
+        <select
+          className={SELECT_CLASS_NAME}
+          value={`${query.sort}:${query.direction}`}
+          onChange={(e) => {
+            const [sort, direction] = e.target.value.split(":") as [WordQuery["sort"], WordQuery["direction"]];
+            setQuery((current) => ({ ...current, sort, direction }));
+          }}
+        >
+          <option value="phrase:ascending">Phrase (A-Z)</option>
+          <option value="phrase:descending">Phrase (Z-A)</option>
+          <option value="lastStudied:descending">Recently studied</option>
+          <option value="lastStudied:ascending">Least recently studied</option>
+          <option value="nextReview:ascending">Next review</option>
+          <option value="memorized:ascending">Memorized</option>
+        </select>
+      </div>
+
+      {selectedIds.size > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border p-3 text-sm">
+          <span>{selectedIds.size} selected</span>
+          <Button size="sm" variant="destructive" disabled={isUpdating} onClick={() => handleBulkUpdate({ type: "reset" })}>
+            Reset progress
+          </Button>
+          <Input className="h-8 w-40" placeholder="Category" value={tag} onChange={(e) => setTag(e.target.value)} />
+          <Button
+            size="sm"
+            disabled={isUpdating || !tag.trim()}
+            onClick={() => handleBulkUpdate({ type: "tag", category: tag.trim() })}
+          >
+            Add category
+          </Button>
+          {isUpdating && <Loader2 className="animate-spin" />}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_28rem]">
+        <Card>
+          <CardContent className="overflow-x-auto p-0">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="p-3">
+                    <input
+                      type="checkbox"
+                      checked={words.length > 0 && selectedIds.size === words.length}
+                      onChange={(e) => setSelectedIds(new Set(e.target.checked ? words.map((word) => word.id) : []))}
+                    />
+                  </th>
+                  <th className="p-3 font-medium">Phrase</th>
+                  <th className="p-3 font-medium">Category</th>
+                  <th className="p-3 font-medium">Memorized</th>
+                  <th className="p-3 font-medium">Last Studied</th>
+                  <th className="p-3 font-medium">Next Review</th>
+                </tr>
+              </thead>
+              <tbody>
+                {words.map((word) => (
+                  <tr
+                    key={word.id}
+                    className="cursor-pointer border-t hover:bg-muted/50"
+                    onClick={() => setOpenWord(word)}
+                  >
+                    <td className="p-3" onClick={(e) => e.stopPropagation()}>
+                      <input type="checkbox" checked={selectedIds.has(word.id)} onChange={() => toggleSelection(word.id)} />
+                    </td>
+                    <td className="p-3 font-medium">{word.properties.phrase}</td>
+                    <td className="p-3">{word.properties.category.join(", ")}</td>
+                    <td className="p-3">{word.properties.memorized || "-"}</td>
+                    <td className="p-3">{word.properties.lastStudied.slice(0, 10) || "-"}</td>
+                    <td className="p-3">{word.properties.nextReview || "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {!isLoading && words.length === 0 && (
+              <p className="p-6 text-center text-muted-foreground">No words match the search.</p>
+            )}
+            <div className="flex justify-center p-3">
+              {isLoading ? (
+                <Loader2 className="animate-spin text-muted-foreground" />
+              ) : nextCursor && (
+                <Button variant="outline" onClick={() => loadWords(nextCursor)}>Load more</Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {openWord && (
+          <WordDetail key={openWord.id} word={openWord} onSave={handleSave} onClose={() => setOpenWord(null)} />
+        )}
+      </div>
+    </div>
+  );
+}
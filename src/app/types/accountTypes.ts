@@ -0,0 +1,58 @@
+/**
+ * Represents a one-time code issued by the bot, with which a LINE user links their account to a dashboard account.
+ */
+export interface LinkCode {
+  /**
+   * The code the user enters on the dashboard.
+   *
+   * - Example: "K7QH2MZP"
+   */
+  code: string;
+
+  /**
+   * The LINE user ID the code was issued to.
+   *
+   * - Example: "U4af4980629..."
+   */
+  lineUserId: string;
+
+  /**
+   * The time after which the code can no longer be used.
+   *
+   * - Format: ISO 8601 date string (e.g., "2024-11-27T01:36:00.000Z").
+   */
+  expiresAt: string;
+}
+
+/**
+ * Represents the link between a dashboard (Firebase) account and the LINE account whose progress it shows.
+ *
+ * Links are keyed by the Firebase user ID. A LINE account is linked to at most one dashboard account at a time.
+ */
+export interface AccountLink {
+  /**
+   * The Firebase Authentication user ID of the dashboard account.
+   *
+   * - Example: "kXq3n2...".
+   */
+  uid: string;
+
+  /**
+   * The email address of the dashboard account at the time it was linked.
+   */
+  email: string;
+
+  /**
+   * The linked LINE user ID.
+   *
+   * - Example: "U4af4980629..."
+   */
+  lineUserId: string;
+
+  /**
+   * The time the accounts were linked.
+   *
+   * - Format: ISO 8601 date string (e.g., "2024-11-27T01:26:00.000Z").
+   */
+  linkedAt: string;
+}
@@ -0,0 +1,144 @@
+import type { DailyProgress } from "./progressTypes";
+import type { CardDirection } from "./cardTypes";
+
+/**
+ * Represents a learner shown on the dashboard: the LINE user linked to the signed-in dashboard account.
+ */
+export interface Learner {
+  /**
+   * The LINE user ID of the learner.
+   *
+   * - Example: "U4af4980629..."
+   */
+  userId: string;
+
+  /**
+   * The IANA time zone of the learner, in which their progress is recorded.
+   *
+   * - Example: "Asia/Tokyo"
+   */
+  timeZone: string;
+}
+
+/**
+ * Represents a word rated on a given day, as recorded by `saveLearningProgress`.
+ */
+export interface StudiedWord {
+  /**
+   * The ID of the Notion page of the word.
+   */
+  pageId: string;
+
+  /**
+   * The phrase of the word at the time it was rated.
+   */
+  phrase: string;
+
+  /**
+   * The memorization level recorded for the word.
+   */
+  memorized: keyof DailyProgress["memorized"];
+
+  /**
+   * The direction in which the word was asked.
+   *
+   * - Missing in progress recorded before card directions were introduced, when every word was asked as "Recognition".
+   */
+  direction?: CardDirection;
+
+  /**
+   * The name of the deck the word was drawn from, or `null` if it is unknown.
+   *
+   * - Missing in progress recorded before decks were introduced.
+   */
+  deckName?: string | null;
+
+  /**
+   * The time the word was rated.
+   *
+   * - Format: ISO 8601 date string (e.g., "2024-11-27T01:26:00.000Z").
+   */
+  updatedAt: string;
+}
+
+/**
+ * Represents the progress document of a learner on a single day.
+ */
+export interface DailyProgressRecord extends DailyProgress {
+  /**
+   * The date of the progress in the learner's time zone.
+   *
+   * - Format: "YYYY-MM-DD"
+   */
+  date: string;
+
+  /**
+   * The words rated on the day.
+   */
+  studiedWords: StudiedWord[];
+}
+
+/**
+ * Represents a day in the calendar heatmap of the dashboard.
+ */
+export interface HeatmapCell {
+  /**
+   * The date of the cell.
+   *
+   * - Format: "YYYY-MM-DD"
+   */
+  date: string;
+
+  /**
+   * The number of ratings recorded on the day.
+   */
+  count: number;
+
+  /**
+   * The shade of the cell, from 0 (nothing studied) to 4 (the busiest days).
+   */
+  level: 0 | 1 | 2 | 3 | 4;
+}
+
+/**
+ * Represents a word that the learner struggles with.
+ */
+export interface HardWord {
+  /**
+   * The ID of the Notion page of the word.
+   */
+  pageId: string;
+
+  /**
+   * The latest phrase of the word.
+   */
+  phrase: string;
+
+  /**
+   * The number of times the word was rated "Not At All".
+   */
+  notAtAll: number;
+
+  /**
+   * The number of times the word was rated in total.
+   */
+  reviews: number;
+}
+
+/**
+ * Represents the number of reviews due on an upcoming day.
+ */
+export interface DueForecastDay {
+  /**
+   * The date on which the reviews are due.
+   *
+   * - Format: "YYYY-MM-DD"
+   * - Overdue reviews are counted on the first day of the forecast.
+   */
+  date: string;
+
+  /**
+   * The number of words due for review on the day.
+   */
+  count: number;
+}
@@ -0,0 +1,49 @@
+/**
+ * Represents the result of grading an answer typed by the user.
+ */
+export interface AnswerGrade {
+  /**
+   * The memorization level the answer maps to.
+   *
+   * - "Never Better": The answer matches exactly (ignoring case and punctuation).
+   * - "Good": The answer differs only in inflection (e.g., "sulk" for "sulking").
+   * - "So So": The answer is a near-miss within the typo tolerance.
+   * - "Not At All": The answer is wrong.
+   */
+  rating: "Never Better" | "Good" | "So So" | "Not At All";
+
+  /**
+   * The expected answer the typed answer was graded against.
+   *
+   * - Example: "sulking"
+   */
+  expected: string;
+
+  /**
+   * The edit distance between the normalized answer and the normalized expected answer.
+   *
+   * - Example: 1
+   */
+  distance: number;
+}
+
+/**
+ * Represents a segment of a character-level diff between a typed answer and the expected answer.
+ */
+export interface DiffSegment {
+  /**
+   * The kind of difference.
+   *
+   * - "equal": The text appears in both the answer and the expected answer.
+   * - "insert": The text is missing from the answer.
+   * - "delete": The text appears in the answer but not in the expected answer.
+   */
+  type: "equal" | "insert" | "delete";
+
+  /**
+   * The text of the segment.
+   *
+   * - Example: "ing"
+   */
+  text: string;
+}
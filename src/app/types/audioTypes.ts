@@ -0,0 +1,42 @@
+/**
+ * Represents a synthesized pronunciation audio file.
+ *
+ * Audio files are content-addressed: the key is derived from the provider, the text and the voice,
+ * so that each phrase is synthesized only once and reused afterwards.
+ */
+export interface AudioFile {
+  /**
+   * The content-addressed key of the audio file.
+   *
+   * - Example: "3f1c...e9.mp3" (SHA-256 of the provider, the text and the voice)
+   */
+  key: string;
+
+  /**
+   * The public URL from which the LINE platform can download the audio file.
+   *
+   * - Must be an HTTPS URL for use in an audio message.
+   */
+  url: string;
+
+  /**
+   * The length of the audio in milliseconds, computed from the MP3 frames.
+   *
+   * - Example: 1224
+   */
+  durationMs: number;
+
+  /**
+   * The text or SSML markup that was synthesized.
+   *
+   * - Example: "sulk"
+   */
+  text: string;
+
+  /**
+   * The creation date of the audio file.
+   *
+   * - Format: ISO 8601 date string (e.g., "2024-11-27T01:26:00.000Z").
+   */
+  createdAt: string;
+}
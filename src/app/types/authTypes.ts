@@ -0,0 +1,22 @@
+/**
+ * Represents a dashboard user whose Firebase ID token has been verified.
+ */
+export interface AuthenticatedUser {
+  /**
+   * The Firebase Authentication user ID.
+   *
+   * - Example: "kXq3n2...".
+   */
+  uid: string;
+
+  /**
+   * The email address the user logs in with, or an empty string if the account has none.
+   */
+  email: string;
+
+  /**
+   * Whether Firebase has verified that the user owns the email address (the `email_verified` claim).
+   * Unverified addresses can be registered by anyone, so they must not be trusted for access control.
+   */
+  emailVerified: boolean;
+}
@@ -0,0 +1,39 @@
+/**
+ * Represents the direction in which a vocabulary card is asked.
+ *
+ * 1. "Recognition"
+ *    - The phrase is shown and the user recalls its meaning (self-rated, or graded by a quiz).
+ *
+ * 2. "Reverse"
+ *    - The meaning is shown and the user types the phrase.
+ *
+ * 3. "Cloze"
+ *    - The example sentence is shown with the phrase blanked out and the user types the missing phrase.
+ */
+export type CardDirection = "Recognition" | "Reverse" | "Cloze";
+
+/**
+ * Represents a prompt asking the user to type a phrase.
+ */
+export interface CardPrompt {
+  /**
+   * The direction of the card.
+   *
+   * - Always "Reverse" or "Cloze", since recognition cards are not answered by typing.
+   */
+  direction: Exclude<CardDirection, "Recognition">;
+
+  /**
+   * The text displayed to the user (the meaning, or the example sentence with a blank).
+   *
+   * - Example: "He's _____ in his room because I wouldn't let him have any more chocolate."
+   */
+  text: string;
+
+  /**
+   * The answer expected from the user.
+   *
+   * - For cloze cards, this is the form of the phrase that appears in the example (e.g., "sulking").
+   */
+  answer: string;
+}
@@ -0,0 +1,22 @@
+/**
+ * Represents a deck: a Notion database of words that can be studied.
+ *
+ * Decks are either shared by every user (configured with environment variables)
+ * or registered by a single user from the chat.
+ */
+export interface Deck {
+  /**
+   * The display name of the deck.
+   *
+   * - Example: "Movie phrases", "Business English"
+   */
+  name: string;
+
+  /**
+   * The ID of the Notion database holding the words of the deck.
+   *
+   * - Format: UUID with hyphens (e.g., "14bc2a7d-deb3-8075-b11a-c057a3e6f685").
+   * - Also serves as the unique identifier of the deck.
+   */
+  databaseId: string;
+}
@@ -0,0 +1,98 @@
+import type { NotionPageProperties } from "./notionTypes";
+
+/**
+ * Represents the dictionary information about a phrase, as returned by a dictionary provider.
+ */
+export interface DictionaryEntry {
+  /**
+   * The phrase that was looked up.
+   *
+   * - Example: "sulk"
+   */
+  phrase: string;
+
+  /**
+   * The pronunciation of the phrase in the International Phonetic Alphabet.
+   *
+   * - Example: "/sʌlk/"
+   * - An empty string indicates that the dictionary has no pronunciation for the phrase.
+   */
+  ipa: string;
+
+  /**
+   * The parts of speech of the phrase, in the order given by the dictionary.
+   *
+   * - Example: ["verb", "noun"]
+   */
+  partsOfSpeech: string[];
+
+  /**
+   * The definitions of the phrase, most common first.
+   *
+   * - Example: ["To be silent and refuse to smile or be pleasant because you are angry."]
+   */
+  definitions: string[];
+
+  /**
+   * Example sentences using the phrase.
+   *
+   * - Example: ["He's sulking in his room because I wouldn't let him have any more chocolate."]
+   */
+  examples: string[];
+
+  /**
+   * The URL of the dictionary page for the phrase.
+   *
+   * - Example: "https://en.wiktionary.org/wiki/sulk"
+   * - An empty string indicates that the dictionary has no page to link to.
+   */
+  sourceUrl: string;
+}
+
+/**
+ * A dictionary that looks up phrases.
+ *
+ * Providers are interchangeable so that an online dictionary can be used in production
+ * and a fixture-backed dictionary in tests and local development.
+ */
+export interface DictionaryProvider {
+  /**
+   * The name of the provider.
+   *
+   * - Example: "free-dictionary"
+   */
+  name: string;
+
+  /**
+   * Looks up a phrase.
+   *
+   * @param phrase - The phrase to look up.
+   * @returns A promise that resolves to the entry, or `null` if the dictionary has no entry for the phrase.
+   */
+  lookUp(phrase: string): Promise<DictionaryEntry | null>;
+}
+
+/**
+ * The fields of a Notion page that can be filled in from a dictionary entry.
+ */
+export type EnrichableField = Extract<keyof NotionPageProperties, "meaning" | "example" | "category" | "url" | "ipa">;
+
+/**
+ * Represents the values suggested by the dictionary for the empty fields of the current word,
+ * waiting for the user's confirmation before they are written to Notion.
+ */
+export interface WordEnrichment {
+  /**
+   * The ID of the Notion page to fill in.
+   *
+   * - Example: "14bc2a7d-deb3-8075-b11a-c057a3e6f685"
+   */
+  pageId: string;
+
+  /**
+   * The suggested values, keyed by field. Only fields that are currently empty are included.
+   *
+   * - Example: `{ meaning: "To be silent ...", ipa: "/sʌlk/" }`
+   */
+  values: Partial<Pick<NotionPageProperties, EnrichableField>>;
+}
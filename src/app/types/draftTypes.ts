@@ -0,0 +1,70 @@
+/**
+ * A step of the wizard that adds a new word, named after the field asked in that step.
+ *
+ * - "confirm": All fields have been asked and the preview is waiting for the user to save or cancel.
+ */
+export type WordDraftStep = "meaning" | "example" | "category" | "url" | "confirm";
+
+/**
+ * Represents a word being added from the chat, before it is saved to Notion.
+ *
+ * A draft is kept in the user's session while the wizard asks for the remaining fields one by one.
+ */
+export interface WordDraft {
+  /**
+   * The ID of the Notion database (deck) the word will be added to.
+   */
+  databaseId: string;
+
+  /**
+   * The name of the deck the word will be added to.
+   *
+   * - Example: "Movie phrases"
+   */
+  deckName: string;
+
+  /**
+   * The phrase or word being added.
+   *
+   * - Example: "sulk"
+   */
+  phrase: string;
+
+  /**
+   * The definition or explanation of the phrase.
+   */
+  meaning: string;
+
+  /**
+   * An example sentence using the phrase. An empty string indicates that the step was skipped.
+   */
+  example: string;
+
+  /**
+   * The categories of the phrase (e.g., ["Verb"]). An empty array indicates that the step was skipped.
+   */
+  category: string[];
+
+  /**
+   * A reference URL for the phrase. An empty string indicates that the step was skipped.
+   */
+  url: string;
+
+  /**
+   * The pronunciation of the phrase in IPA, taken from the dictionary. An empty string indicates that none was found.
+   */
+  ipa: string;
+
+  /**
+   * The values suggested by the dictionary for the fields asked by the wizard.
+   *
+   * - Example: `{ meaning: "To be silent ...", category: ["Verb"] }`
+   * - Fields without a suggestion are omitted. Offered to the user in the step asking for the field.
+   */
+  suggestions: Partial<Pick<WordDraft, "meaning" | "example" | "category" | "url">>;
+
+  /**
+   * The step the wizard is currently waiting for.
+   */
+  step: WordDraftStep;
+}
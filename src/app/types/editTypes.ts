@@ -0,0 +1,33 @@
+import type { NotionPageProperties } from "./notionTypes";
+
+/**
+ * The fields of a word that can be corrected from the chat.
+ */
+export type EditableField = Extract<keyof NotionPageProperties, "meaning" | "example" | "category" | "pronunciationCheck">;
+
+/**
+ * Represents a correction to a single field of an existing word, before it is written to Notion.
+ *
+ * An edit is kept in the user's session while the bot asks for the new value and shows a confirmation preview.
+ */
+export interface WordEdit {
+  /**
+   * The ID of the Notion page being edited.
+   */
+  pageId: string;
+
+  /**
+   * The field being edited.
+   *
+   * - Example: "meaning"
+   */
+  field: EditableField;
+
+  /**
+   * The new value of the field.
+   *
+   * - `null` until the user has typed the new value.
+   * - A string for "meaning" and "example", an array of names for "category", and a boolean for "pronunciationCheck".
+   */
+  value: string | string[] | boolean | null;
+}
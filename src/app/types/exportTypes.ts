@@ -0,0 +1,51 @@
+import type { CardDirection } from "./cardTypes";
+import type { DailyProgress } from "./progressTypes";
+
+/**
+ * The formats in which the review history can be exported.
+ */
+export type HistoryExportFormat = "csv" | "json";
+
+/**
+ * Represents a single rating in the exported review history.
+ */
+export interface ReviewHistoryEntry {
+  /**
+   * The date of the rating in the learner's time zone.
+   *
+   * - Format: "YYYY-MM-DD"
+   */
+  date: string;
+
+  /**
+   * The phrase of the word at the time it was rated.
+   */
+  phrase: string;
+
+  /**
+   * The memorization level the word was rated with.
+   */
+  rating: keyof DailyProgress["memorized"];
+
+  /**
+   * The direction in which the word was asked.
+   */
+  direction: CardDirection;
+
+  /**
+   * The name of the deck the word was drawn from, or an empty string if it is unknown.
+   */
+  deck: string;
+
+  /**
+   * The time of the rating.
+   *
+   * - Format: ISO 8601 date string (e.g., "2024-11-27T01:26:00.000Z").
+   */
+  reviewedAt: string;
+
+  /**
+   * The ID of the Notion page of the word.
+   */
+  pageId: string;
+}
@@ -0,0 +1,30 @@
+/**
+ * Represents a filter that scopes a study session to a subset of words.
+ *
+ * - "category": Words in the given category (e.g., "Verb").
+ * - "movie": Words associated with the given movie (e.g., "Inception").
+ * - "memorized": Words whose memorization status is the given level (e.g., "Not At All").
+ * - "pronunciationCheck": Words whose pronunciation requires special attention.
+ */
+export type StudyFilter =
+  | { field: "category" | "movie" | "memorized"; value: string }
+  | { field: "pronunciationCheck"; value: true };
+
+/**
+ * The option names that can be used to filter the words of a deck, read from the database schema.
+ */
+export interface StudyFilterOptions {
+  /**
+   * The categories defined in the database.
+   *
+   * - Example: ["Noun", "Verb", "Phrasal Verb"]
+   */
+  category: string[];
+
+  /**
+   * The movies defined in the database.
+   *
+   * - Example: ["Inception", "The Matrix"]
+   */
+  movie: string[];
+}
@@ -0,0 +1,76 @@
+import type { NotionPageProperties } from "./notionTypes";
+
+/**
+ * A logical field of a Notion page (e.g., "phrase", "meaning").
+ *
+ * Each field corresponds to a key of `NotionPageProperties` and is mapped to a database column by the schema.
+ */
+export type NotionField = keyof NotionPageProperties;
+
+/**
+ * The Notion property types that can be mapped to a logical field.
+ */
+export type NotionPropertyType =
+  | "title"
+  | "rich_text"
+  | "number"
+  | "select"
+  | "multi_select"
+  | "status"
+  | "date"
+  | "checkbox"
+  | "url"
+  | "created_time";
+
+/**
+ * Maps a logical field to a column of the Notion database.
+ */
+export interface NotionPropertyMapping {
+  /**
+   * The name of the column in the Notion database.
+   *
+   * - Example: "Phrase", "意味"
+   */
+  name: string;
+
+  /**
+   * The type of the column in the Notion database.
+   *
+   * - Example: "title", "rich_text"
+   * - Must be one of the types supported by the field.
+   */
+  type: NotionPropertyType;
+}
+
+/**
+ * Describes how a logical field can be mapped.
+ */
+export interface NotionFieldDefinition {
+  /**
+   * The column used when the schema configuration does not override the field.
+   *
+   * - `null` indicates that the field is unmapped unless the configuration maps it. Only allowed for optional fields
+   *   that were added after the original template, so that existing databases keep matching the schema.
+   */
+  defaultMapping: NotionPropertyMapping | null;
+
+  /**
+   * The column types from which the value of the field can be read.
+   */
+  supportedTypes: NotionPropertyType[];
+
+  /**
+   * Whether the field must exist in the database.
+   *
+   * - Optional fields can be mapped to `null`, in which case they are left empty when reading pages
+   *   and skipped when updating pages.
+   */
+  required: boolean;
+}
+
+/**
+ * The mapping of every logical field to a column of the Notion database.
+ *
+ * - `null` indicates that the database has no column for an optional field.
+ */
+export type NotionSchema = Record<NotionField, NotionPropertyMapping | null>;
@@ -53,15 +53,16 @@ export interface NotionPageProperties {
   created: string;
 
   /**
-   * An example sentence using the phrase or word.
+   * One or more example sentences using the phrase or word, in plain text.
    *
    * - Example: "He's sulking in his room because I wouldn't let him have any more chocolate."
    * - Provides contextual usage to better understand the phrase or word.
+   * - Multiple sentences are separated by line breaks.
    */
   example: string;
 
   /**
-   * The definition or explanation of the phrase or word.
+   * The definition or explanation of the phrase or word, in plain text.
    *
    * - Example: "To be silent and refuse to smile or be pleasant because you are angry."
    */
@@ -75,6 +76,14 @@ export interface NotionPageProperties {
    */
   memorized: string;
 
+  /**
+   * The pronunciation of the phrase or word in the International Phonetic Alphabet.
+   *
+   * - Example: "/sʌlk/"
+   * - An empty string indicates that no pronunciation is recorded.
+   */
+  ipa: string;
+
   /**
    * The phrase or word being studied.
    *
@@ -82,6 +91,30 @@ export interface NotionPageProperties {
    * - This is the main title or focus of the Notion page.
    */
   phrase: string;
+
+  /**
+   * The date on which the phrase or word is next due for review.
+   *
+   * - Format: ISO 8601 date string (e.g., "2024-11-30").
+   * - Computed by the spaced-repetition scheduler. An empty string indicates that the item has never been scheduled.
+   */
+  nextReview: string;
+
+  /**
+   * The ease factor used by the spaced-repetition scheduler.
+   *
+   * - Example: 2.5
+   * - Higher values make the review interval grow faster. `null` indicates that the item has never been scheduled.
+   */
+  ease: number | null;
+
+  /**
+   * The current review interval in days.
+   *
+   * - Example: 6
+   * - The number of days between the last review and the next review. `null` indicates that the item has never been scheduled.
+   */
+  interval: number | null;
 }
 
 /**
@@ -110,6 +143,14 @@ export interface NotionPage {
    */
   url: string;
 
+  /**
+   * The ID of the Notion database (deck) the page belongs to.
+   *
+   * - Example: "14bc2a7d-deb3-8075-b11a-c057a3e6f685"
+   * - Used to attribute study progress to the deck the word was drawn from.
+   */
+  databaseId: string;
+
   /**
    * The structured properties of the Notion page.
    *
@@ -119,6 +160,63 @@ export interface NotionPage {
    *   specific data related to the page (e.g., title, tags, or custom fields).
    */
   properties: NotionPageProperties;
+
+  /**
+   * The rich text of the fields whose formatting is displayed to the user.
+   *
+   * - The plain text of these fields is also available in `properties`.
+   * - Formatting such as bold text and links is preserved so that it can be rendered in Flex Messages.
+   */
+  richText: {
+    meaning: RichTextSegment[];
+    example: RichTextSegment[];
+  };
+}
+
+/**
+ * Represents a run of text with uniform formatting, extracted from a Notion rich text property.
+ *
+ * A rich text value is an array of segments whose texts, concatenated in order, form the plain text of the value.
+ */
+export interface RichTextSegment {
+  /**
+   * The text of the segment. May contain line breaks.
+   *
+   * - Example: "refuse to smile"
+   */
+  text: string;
+
+  /**
+   * Whether the text is bold.
+   */
+  bold: boolean;
+
+  /**
+   * Whether the text is italic.
+   */
+  italic: boolean;
+
+  /**
+   * Whether the text is struck through.
+   */
+  strikethrough: boolean;
+
+  /**
+   * Whether the text is underlined.
+   */
+  underline: boolean;
+
+  /**
+   * Whether the text is formatted as inline code.
+   */
+  code: boolean;
+
+  /**
+   * The URL the text links to, or `null` if the text is not a link.
+   *
+   * - Example: "https://dictionary.cambridge.org/us/dictionary/english/sulk"
+   */
+  link: string | null;
 }
 
 /**
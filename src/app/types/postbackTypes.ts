@@ -0,0 +1,52 @@
+import type { ButtonLabel } from "../constants/buttons";
+import type { EditableField } from "./editTypes";
+
+/**
+ * Represents the structured payload carried by a postback quick reply button.
+ *
+ * The payload is serialized into the `data` field of the postback action and delivered back
+ * to the webhook in `event.postback.data` when the user presses the button.
+ */
+export interface PostbackPayload {
+  /**
+   * The action requested by the button.
+   *
+   * - Example: "Good"
+   */
+  action: ButtonLabel;
+
+  /**
+   * The ID of the Notion page the button was attached to.
+   *
+   * - Omitted for buttons that do not act on a specific word (e.g., "Next").
+   */
+  pageId?: string;
+
+  /**
+   * The session nonce at the time the button was sent.
+   *
+   * - Used to detect stale buttons pressed from the chat history after another word has been displayed.
+   */
+  nonce?: string;
+
+  /**
+   * The index of the choice selected in answer to a quiz question.
+   *
+   * - Only present for the "Answer" action.
+   */
+  choice?: number;
+
+  /**
+   * The database ID of the deck selected in the deck switcher.
+   *
+   * - Only present for the "Select Deck" and "Toggle Deck" actions.
+   */
+  deckId?: string;
+
+  /**
+   * The field of the word selected to be edited.
+   *
+   * - Only present for the "Edit Field" action.
+   */
+  field?: EditableField;
+}
@@ -0,0 +1,42 @@
+/**
+ * Represents the number of words a user studied on a single day in their time zone, as recorded by `saveLearningProgress`.
+ */
+export interface DailyProgress {
+  /**
+   * The number of ratings recorded on the day.
+   *
+   * - Example: 20
+   * - A word rated twice on the same day counts twice.
+   */
+  totalStudied: number;
+
+  /**
+   * The number of ratings recorded on the day, per memorization level.
+   *
+   * - Example: { "Never Better": 5, "Good": 8, "So So": 4, "Not At All": 3 }
+   */
+  memorized: Record<"Never Better" | "Good" | "So So" | "Not At All", number>;
+}
+
+/**
+ * Represents the words reviewed in the current study session, shown in the summary at the end of the session.
+ *
+ * A study session starts with the first rating after the previous summary and ends when the user finishes,
+ * runs out of words, or reaches the daily goal.
+ */
+export interface StudySessionStats {
+  /**
+   * The time of the first rating of the session.
+   *
+   * - Format: ISO 8601 date string (e.g., "2024-11-27T01:26:00.000Z").
+   */
+  startedAt: string;
+
+  /**
+   * The number of ratings recorded in the session, per memorization level.
+   *
+   * - Example: { "Never Better": 2, "Good": 3, "So So": 1, "Not At All": 0 }
+   * - The number of words reviewed is the sum of the counts.
+   */
+  memorized: Record<"Never Better" | "Good" | "So So" | "Not At All", number>;
+}
@@ -0,0 +1,45 @@
+/**
+ * Represents the study queue of a user: the order in which words are served and the pagination state
+ * of the decks being studied.
+ *
+ * The queue is persisted between webhook invocations, so that a user advances through their decks
+ * without repeating or skipping words when the server restarts or requests reach different instances.
+ */
+export interface StudyQueue {
+  /**
+   * The LINE user ID that owns the queue.
+   *
+   * - Example: "U4af4980629..."
+   */
+  userId: string;
+
+  /**
+   * The decks, study filter and date the queue was built for, serialized for comparison.
+   *
+   * - A queue whose scope differs from the current one is discarded and built again.
+   */
+  scope: string;
+
+  /**
+   * The IDs of the Notion pages of the current batch, in the order in which they are served.
+   */
+  pageIds: string[];
+
+  /**
+   * The cursor for the next batch of each database, keyed by database ID.
+   *
+   * - `null` once every page of the database has been fetched.
+   * - Databases that have not been fetched yet have no entry.
+   */
+  cursors: Record<string, string | null>;
+
+  /**
+   * The index in `pageIds` of the next page to serve.
+   */
+  currentIndex: number;
+
+  /**
+   * Whether every page in the databases has been served.
+   */
+  exhausted: boolean;
+}
@@ -0,0 +1,25 @@
+/**
+ * Represents a multiple-choice quiz question asking for the meaning of a phrase.
+ */
+export interface QuizQuestion {
+  /**
+   * The ID of the Notion page whose phrase is being asked.
+   *
+   * - Example: "14bc2a7d-deb3-8075-b11a-c057a3e6f685"
+   */
+  pageId: string;
+
+  /**
+   * The candidate meanings displayed to the user, in display order.
+   *
+   * - Contains the correct meaning and the distractors drawn from other pages.
+   */
+  choices: string[];
+
+  /**
+   * The index of the correct meaning within `choices`.
+   *
+   * - Example: 2
+   */
+  correctIndex: number;
+}
@@ -0,0 +1,46 @@
+/**
+ * Represents a user's preferences for the daily reminder pushed to the chat.
+ */
+export interface ReminderSettings {
+  /**
+   * Whether the daily reminder is sent.
+   *
+   * - `false` until the user turns reminders on, or when the user has muted them.
+   */
+  enabled: boolean;
+
+  /**
+   * The local time from which the reminder may be sent.
+   *
+   * - Format: "HH:MM" in the user's time zone (e.g., "08:00").
+   * - The reminder is sent on the first scheduled run at or after this time, once a day.
+   */
+  time: string;
+
+  /**
+   * The local hours during which no reminder is sent, or `null` if there are none.
+   *
+   * - Format: "HH:MM" in the user's time zone. The range may wrap around midnight (e.g., `{ start: "22:00", end: "07:00" }`).
+   * - A reminder due during quiet hours is postponed until they end, unless they end on the next day.
+   */
+  quietHours: { start: string; end: string } | null;
+}
+
+/**
+ * Records the reminders sent to a user, so that at most one reminder is sent per day.
+ */
+export interface ReminderLog {
+  /**
+   * The LINE user ID the reminders were sent to.
+   *
+   * - Example: "U4af4980629..."
+   */
+  userId: string;
+
+  /**
+   * The local date on which the last reminder was sent.
+   *
+   * - Format: "YYYY-MM-DD" in the user's time zone.
+   */
+  lastSentDate: string;
+}
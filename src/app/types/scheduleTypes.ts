@@ -0,0 +1,29 @@
+/**
+ * Represents the review schedule of a phrase or word, as computed by the spaced-repetition scheduler.
+ *
+ * The schedule is persisted to the "Next Review", "Ease" and "Interval" properties of the Notion page
+ * and mirrored to Firestore.
+ */
+export interface ReviewSchedule {
+  /**
+   * The date on which the item is next due for review.
+   *
+   * - Format: ISO 8601 date string (e.g., "2024-11-30").
+   */
+  nextReview: string;
+
+  /**
+   * The ease factor after the latest review.
+   *
+   * - Example: 2.36
+   * - Never falls below the minimum ease factor (1.3).
+   */
+  ease: number;
+
+  /**
+   * The number of days until the next review.
+   *
+   * - Example: 6
+   */
+  interval: number;
+}
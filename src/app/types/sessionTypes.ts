@@ -0,0 +1,151 @@
+import type { NotionPage } from "./notionTypes";
+import type { QuizQuestion } from "./quizTypes";
+import type { CardDirection, CardPrompt } from "./cardTypes";
+import type { StudyFilter } from "./filterTypes";
+import type { WordDraft } from "./draftTypes";
+import type { WordEdit } from "./editTypes";
+import type { WordEnrichment } from "./dictionaryTypes";
+import type { StudySessionStats } from "./progressTypes";
+
+/**
+ * Represents the current status of the bot's interaction with a user.
+ * The state transitions as the user interacts with the bot.
+ *
+ * 1. "NotDisplayed" (Initial state)
+ *    - Indicates that the bot has not yet displayed any vocabulary word to the user.
+ *    - This is the default state when the bot starts an interaction or resets after completing a cycle.
+ *
+ * 2. "NotUnderstood"
+ *    - Indicates that the bot has displayed a vocabulary word to the user, but the user has not yet requested its meaning.
+ *    - In this state, the user can either proceed to the next word without viewing the meaning
+ *      or request the meaning of the current word.
+ *
+ * 3. "Understood"
+ *    - Indicates that the bot has displayed a vocabulary word and the user has successfully reviewed its meaning.
+ *    - This state allows the user to evaluate their understanding of the word by selecting from predefined feedback options.
+ *    - After providing feedback, the state resets to "NotUnderstood" to display the next word.
+ *
+ * 4. "QuizAsked"
+ *    - Indicates that the bot has asked a multiple-choice quiz question about a vocabulary word.
+ *    - In this state, the user answers by selecting one of the candidate meanings.
+ *    - After the answer is graded, the state resets to "NotUnderstood", as it does after feedback.
+ *
+ * 5. "AwaitingAnswer"
+ *    - Indicates that the bot has shown a reverse or cloze card and is waiting for the user to type the phrase.
+ *    - In this state, the user's next text message is graded as the answer, or the user can reveal the meaning.
+ *    - After the answer is graded, the state resets to "NotUnderstood", as it does after feedback.
+ */
+export type SessionState = "NotDisplayed" | "NotUnderstood" | "Understood" | "QuizAsked" | "AwaitingAnswer";
+
+/**
+ * Represents the persisted study session of a single LINE user.
+ *
+ * A session is keyed by the LINE user ID (`event.source.userId`) so that concurrent users
+ * never overwrite each other's state, and it is stored outside of the process so that
+ * it survives serverless cold starts.
+ */
+export interface UserSession {
+  /**
+   * The LINE user ID that owns this session.
+   *
+   * - Example: "U4af4980629..."
+   */
+  userId: string;
+
+  /**
+   * The current state of the interaction (see `SessionState`).
+   */
+  state: SessionState;
+
+  /**
+   * The vocabulary word currently displayed to the user.
+   *
+   * - `null` indicates that no word has been displayed yet, or that the session has been reset.
+   * - The bot uses its properties (e.g., `phrase`) to respond to the "Meaning" and feedback buttons.
+   */
+  currentWord: NotionPage | null;
+
+  /**
+   * A random value that is renewed whenever a new word is displayed.
+   *
+   * - Embedded in the postback data of the buttons attached to the current word,
+   *   so that buttons pressed from the chat history can be detected as stale.
+   */
+  nonce: string;
+
+  /**
+   * The quiz question currently asked to the user.
+   *
+   * - `null` unless the session is in the "QuizAsked" state.
+   */
+  quiz: QuizQuestion | null;
+
+  /**
+   * The direction in which the current word is asked.
+   *
+   * - Example: "Recognition", "Reverse", "Cloze"
+   * - Recorded with the learning progress, so that recognition and recall are measured independently.
+   */
+  direction: CardDirection;
+
+  /**
+   * The reverse or cloze prompt currently waiting for a typed answer.
+   *
+   * - `null` unless the session is in the "AwaitingAnswer" state.
+   */
+  prompt: CardPrompt | null;
+
+  /**
+   * The filter that scopes the words served in this session.
+   *
+   * - Example: { field: "category", value: "Verb" }
+   * - `null` indicates that all words due for review are served.
+   */
+  filter: StudyFilter | null;
+
+  /**
+   * The word being added from the chat.
+   *
+   * - `null` unless the add-word wizard is in progress.
+   * - While a draft exists, text messages answer the wizard's questions regardless of the study state.
+   */
+  draft: WordDraft | null;
+
+  /**
+   * The correction being made to the current word.
+   *
+   * - `null` unless an edit is in progress.
+   * - While an edit exists, text messages provide the new value or confirm the edit regardless of the study state.
+   */
+  edit: WordEdit | null;
+
+  /**
+   * The values suggested by the dictionary for the empty fields of the current word.
+   *
+   * - `null` unless the suggestions are waiting for the user's confirmation.
+   * - While suggestions exist, "save" or "cancel" is expected as the next text message.
+   */
+  enrichment: WordEnrichment | null;
+
+  /**
+   * The words reviewed since the last session summary.
+   *
+   * - `null` until the first rating of a new study session.
+   * - Reset whenever the session summary is shown.
+   */
+  stats: StudySessionStats | null;
+
+  /**
+   * The creation date of this session.
+   *
+   * - Format: ISO 8601 date string (e.g., "2024-11-27T01:26:00.000Z").
+   */
+  createdAt: string;
+
+  /**
+   * The date this session was last saved.
+   *
+   * - Format: ISO 8601 date string (e.g., "2024-11-27T01:26:00.000Z").
+   */
+  updatedAt: string;
+}
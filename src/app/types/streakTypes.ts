@@ -0,0 +1,38 @@
+/**
+ * Represents the run of consecutive days on which a user has studied.
+ */
+export interface Streak {
+  /**
+   * The LINE user ID that owns the streak.
+   *
+   * - Example: "U4af4980629..."
+   */
+  userId: string;
+
+  /**
+   * The number of consecutive days studied, up to `lastStudyDate`.
+   *
+   * - The streak is broken if a full day passes without studying and no freeze is left to cover it (see `getCurrentStreak`).
+   */
+  current: number;
+
+  /**
+   * The number of streak freezes the user can spend.
+   *
+   * - Each freeze covers one day without studying, so that the streak is not broken.
+   * - Freezes are earned by keeping the streak up (see `recordStudyDay`), up to a maximum.
+   */
+  freezes: number;
+
+  /**
+   * The longest streak the user has ever reached.
+   */
+  longest: number;
+
+  /**
+   * The local date on which the user last studied, or an empty string if the user has never studied.
+   *
+   * - Format: "YYYY-MM-DD" in the user's time zone.
+   */
+  lastStudyDate: string;
+}
@@ -0,0 +1,56 @@
+/**
+ * Represents the voice options used to synthesize speech.
+ */
+export interface VoiceOptions {
+  /**
+   * The English accent of the voice.
+   *
+   * - "US": American English (en-US)
+   * - "UK": British English (en-GB)
+   * - "AU": Australian English (en-AU)
+   */
+  accent: "US" | "UK" | "AU";
+
+  /**
+   * The gender of the voice.
+   *
+   * - Example: "Female", "Male", "Neutral"
+   */
+  gender: "Female" | "Male" | "Neutral";
+
+  /**
+   * The speaking rate, where 1.0 is the normal speed.
+   *
+   * - Range: 0.25 to 4.0. Values below 1.0 are used for slow playback (e.g., 0.75).
+   */
+  speakingRate: number;
+}
+
+/**
+ * Represents the input to synthesize: either plain text or SSML markup.
+ */
+export type SpeechInput = { text: string } | { ssml: string };
+
+/**
+ * A text-to-speech engine that synthesizes speech into MP3 audio.
+ *
+ * Providers are interchangeable so that Google Cloud Text-to-Speech can be used in production
+ * and an offline engine in tests and local development.
+ */
+export interface TtsProvider {
+  /**
+   * The name of the provider, included in the cache key of the synthesized audio.
+   *
+   * - Example: "google"
+   */
+  name: string;
+
+  /**
+   * Synthesizes the input into MP3 audio.
+   *
+   * @param input - The text or SSML to synthesize.
+   * @param voice - The voice options.
+   * @returns A promise that resolves to the MP3 data.
+   */
+  synthesize(input: SpeechInput, voice: VoiceOptions): Promise<Buffer>;
+}
@@ -0,0 +1,76 @@
+import type { VoiceOptions } from "./ttsTypes";
+import type { Deck } from "./deckTypes";
+import type { ReminderSettings } from "./reminderTypes";
+
+/**
+ * Represents the persisted preferences of a single LINE user.
+ *
+ * Settings are keyed by the LINE user ID and, unlike the session, are only changed
+ * when the user explicitly configures them from the chat.
+ */
+export interface UserSettings {
+  /**
+   * The LINE user ID that owns these settings.
+   *
+   * - Example: "U4af4980629..."
+   */
+  userId: string;
+
+  /**
+   * The voice used to read phrases and example sentences aloud.
+   *
+   * - Example: { accent: "UK", gender: "Female", speakingRate: 0.75 }
+   */
+  voice: VoiceOptions;
+
+  /**
+   * The decks registered by this user, in addition to the decks shared by every user.
+   *
+   * - Example: [{ name: "Phrasal verbs", databaseId: "14bc2a7d-..." }]
+   */
+  decks: Deck[];
+
+  /**
+   * The database IDs of the decks the user is currently studying.
+   *
+   * - Words are drawn from all of these decks at once.
+   * - An empty array indicates that the default deck (the first shared deck) is studied.
+   */
+  selectedDeckIds: string[];
+
+  /**
+   * The number of words the user aims to review each day.
+   *
+   * - Example: 20
+   * - 0 indicates that the user has no daily goal.
+   */
+  dailyGoal: number;
+
+  /**
+   * The IANA time zone of the user, used to decide the local date and time of day.
+   *
+   * - Example: "Asia/Tokyo"
+   */
+  timeZone: string;
+
+  /**
+   * The preferences for the daily reminder.
+   *
+   * - Example: { enabled: true, time: "08:00", quietHours: { start: "22:00", end: "07:00" } }
+   */
+  reminder: ReminderSettings;
+
+  /**
+   * The creation date of these settings.
+   *
+   * - Format: ISO 8601 date string (e.g., "2024-11-27T01:26:00.000Z").
+   */
+  createdAt: string;
+
+  /**
+   * The date these settings were last saved.
+   *
+   * - Format: ISO 8601 date string (e.g., "2024-11-27T01:26:00.000Z").
+   */
+  updatedAt: string;
+}
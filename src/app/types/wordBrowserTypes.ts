@@ -0,0 +1,101 @@
+import type { NotionPageProperties } from "./notionTypes";
+
+/**
+ * The fields by which the words can be sorted in the word browser.
+ */
+export type WordSortField = "phrase" | "lastStudied" | "nextReview" | "memorized";
+
+/**
+ * Represents a search of the words of a deck in the word browser.
+ */
+export interface WordQuery {
+  /**
+   * Text that the phrase must contain (case-insensitive), or an empty string to match every word.
+   *
+   * - Example: "make"
+   */
+  search: string;
+
+  /**
+   * The category the words must have, or `null` for any category.
+   *
+   * - Example: "Verb"
+   */
+  category: string | null;
+
+  /**
+   * The movie the words must appear in, or `null` for any movie.
+   *
+   * - Example: "Toy Story"
+   */
+  movie: string | null;
+
+  /**
+   * The memorization level the words must have, or `null` for any level.
+   *
+   * - Example: "Not At All"
+   */
+  memorized: string | null;
+
+  /**
+   * The earliest last studied date, or `null` for no lower bound.
+   *
+   * - Format: "YYYY-MM-DD"
+   */
+  studiedFrom: string | null;
+
+  /**
+   * The latest last studied date, or `null` for no upper bound.
+   *
+   * - Format: "YYYY-MM-DD"
+   */
+  studiedTo: string | null;
+
+  /**
+   * The field by which the words are sorted.
+   */
+  sort: WordSortField;
+
+  /**
+   * The direction in which the words are sorted.
+   */
+  direction: "ascending" | "descending";
+
+  /**
+   * The cursor returned with the previous batch of results, or `null` to fetch the first batch.
+   */
+  cursor: string | null;
+}
+
+/**
+ * The fields of a word that can be changed from the word editor.
+ */
+export type EditableWordValues = Partial<
+  Pick<
+    NotionPageProperties,
+    "phrase" | "ipa" | "meaning" | "example" | "category" | "movie" | "pronunciationCheck" | "url"
+  >
+>;
+
+/**
+ * Represents a change applied to several words at once from the word browser.
+ *
+ * - "reset": Clears the memorization level, the last studied date and the review schedule, so the words are due again.
+ * - "tag": Adds a category to the words, keeping their existing categories.
+ */
+export type BulkWordAction = { type: "reset" } | { type: "tag"; category: string };
+
+/**
+ * Represents the outcome of a bulk change.
+ */
+export interface BulkWordResult {
+  /**
+   * The IDs of the pages that were updated.
+   */
+  updated: string[];
+
+  /**
+   * The IDs of the pages that could not be updated (e.g., deleted pages or pages outside the decks of the user).
+   */
+  failed: string[];
+}
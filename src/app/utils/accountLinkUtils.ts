@@ -0,0 +1,146 @@
+import { randomInt } from "crypto";
+import { createStore } from "./storeUtils";
+import type { AuthenticatedUser } from "../types/authTypes";
+import type { AccountLink, LinkCode } from "../types/accountTypes";
+
+/**
+ * The number of minutes a link code can be used after it is issued.
+ */
+export const LINK_CODE_TTL_MINUTES = 10;
+
+/**
+ * The length of link codes, and the characters they are made of.
+ * Characters that are easily confused (0/O, 1/I) are left out, since the code is typed by hand.
+ */
+const LINK_CODE_LENGTH = 8;
+const LINK_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/**
+ * Store for persisting link codes, keyed by the code.
+ */
+const linkCodeStore = createStore<LinkCode>("linkCodes");
+
+/**
+ * Store for persisting account links, keyed by Firebase user ID.
+ */
+const accountLinkStore = createStore<AccountLink>("accountLinks");
+
+/**
+ * Store for persisting the same account links keyed by LINE user ID,
+ * so that the dashboard account linked to a LINE account can be found without scanning every link.
+ */
+const lineAccountLinkStore = createStore<AccountLink>("lineAccountLinks");
+
+/**
+ * Issues a one-time code with which a LINE user links their account on the dashboard.
+ *
+ * @param lineUserId - The LINE user ID requesting the code.
+ * @param now - The current time. Defaults to the current time.
+ * @returns A promise that resolves to the issued `LinkCode`.
+ * @throws An error if the link code store cannot be written.
+ */
+export async function createLinkCode(lineUserId: string, now: Date = new Date()): Promise<LinkCode> {
+  try {
+    let code: string;
+    let existing: LinkCode | null;
+    // Draw again in the unlikely case that the code is already in use
+    do {
+      code = Array.from({ length: LINK_CODE_LENGTH }, () => LINK_CODE_ALPHABET[randomInt(LINK_CODE_ALPHABET.length)]).join("");
+      existing = await linkCodeStore.get(code);
+    } while (existing && new Date(existing.expiresAt) > now);
+
+    const linkCode: LinkCode = {
+      code,
+      lineUserId,
+      expiresAt: new Date(now.getTime() + LINK_CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+    };
+    await linkCodeStore.set(code, linkCode);
+    return linkCode;
+  } catch (error) {
+    console.error(`Failed to create link code for user ${lineUserId}:`, error);
+    throw new Error("Failed to create link code.");
+  }
+}
+
+/**
+ * Loads the LINE account linked to a dashboard account.
+ *
+ * @param uid - The Firebase user ID of the dashboard account.
+ * @returns A promise that resolves to the `AccountLink`, or `null` if no LINE account is linked.
+ * @throws An error if the account link store cannot be read.
+ */
+export async function getAccountLink(uid: string): Promise<AccountLink | null> {
+  try {
+    return await accountLinkStore.get(uid);
+  } catch (error) {
+    console.error(`Failed to load account link for user ${uid}:`, error);
+    throw new Error("Failed to load account link.");
+  }
+}
+
+/**
+ * Links a dashboard account to the LINE account a code was issued to, and invalidates the code.
+ * A LINE account is linked to one dashboard account at a time, so any previous link of the LINE account is removed.
+ *
+ * @param code - The code entered by the user. Spaces, hyphens and letter case are ignored.
+ * @param user - The signed-in dashboard user.
+ * @param now - The current time. Defaults to the current time.
+ * @returns A promise that resolves to the new `AccountLink`, or an error message if the code is invalid or has expired.
+ * @throws An error if the stores cannot be read or written.
+ */
+export async function redeemLinkCode(
+  code: string,
+  user: AuthenticatedUser,
+  now: Date = new Date()
+): Promise<{ link: AccountLink } | { error: string }> {
+  const normalizedCode = code.replace(/[\s-]/g, "").toUpperCase();
+  if (normalizedCode.length !== LINK_CODE_LENGTH) {
+    return { error: `Please enter the ${LINK_CODE_LENGTH}-character code sent by the bot.` };
+  }
+
+  try {
+    // Remove the code before using it, so that it cannot be redeemed twice by concurrent requests
+    const linkCode = await linkCodeStore.take(normalizedCode);
+    if (!linkCode || new Date(linkCode.expiresAt) <= now) {
+      return { error: 'The code is invalid or has expired. Send "link" to the bot to get a new code.' };
+    }
+
+    // Remove the previous link of the LINE account, and the previous LINE account of the user
+    const previousLink = await lineAccountLinkStore.get(linkCode.lineUserId);
+    if (previousLink && previousLink.uid !== user.uid) {
+      await accountLinkStore.delete(previousLink.uid);
+    }
+    const currentLink = await accountLinkStore.get(user.uid);
+    if (currentLink && currentLink.lineUserId !== linkCode.lineUserId) {
+      await lineAccountLinkStore.delete(currentLink.lineUserId);
+    }
+
+    const link: AccountLink = { uid: user.uid, email: user.email, lineUserId: linkCode.lineUserId, linkedAt: now.toISOString() };
+    await accountLinkStore.set(user.uid, link);
+    await lineAccountLinkStore.set(link.lineUserId, link);
+    return { link };
+  } catch (error) {
+    console.error(`Failed to link account for user ${user.uid}:`, error);
+    throw new Error("Failed to link account.");
+  }
+}
+
+/**
+ * Removes the link between a dashboard account and its LINE account. Does nothing if no account is linked.
+ *
+ * @param uid - The Firebase user ID of the dashboard account.
+ * @throws An error if the account link store cannot be written.
+ */
+export async function unlinkAccount(uid: string): Promise<void> {
+  try {
+    const link = await accountLinkStore.get(uid);
+    if (!link) {
+      return;
+    }
+    await accountLinkStore.delete(uid);
+    await lineAccountLinkStore.delete(link.lineUserId);
+  } catch (error) {
+    console.error(`Failed to unlink account for user ${uid}:`, error);
+    throw new Error("Failed to unlink account.");
+  }
+}
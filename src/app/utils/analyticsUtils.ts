@@ -0,0 +1,104 @@
+import { addDays, daysBetween } from "./timeUtils";
+import type { ReviewSchedule } from "../types/scheduleTypes";
+import type { DailyProgressRecord, DueForecastDay, HardWord, HeatmapCell } from "../types/analyticsTypes";
+
+/**
+ * Lists the progress of every day in a range, filling in the days on which nothing was studied.
+ *
+ * @param records - The progress documents of the learner, in any order.
+ * @param from - The first date of the range in "YYYY-MM-DD" format.
+ * @param to - The last date of the range in "YYYY-MM-DD" format.
+ * @returns One record per day from `from` to `to`, in chronological order.
+ */
+export function fillDailyProgress(records: DailyProgressRecord[], from: string, to: string): DailyProgressRecord[] {
+  const recordsByDate = new Map(records.map((record) => [record.date, record]));
+  const days: DailyProgressRecord[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    days.push(
+      recordsByDate.get(date) ?? {
+        date,
+        totalStudied: 0,
+        memorized: { "Never Better": 0, "Good": 0, "So So": 0, "Not At All": 0 },
+        studiedWords: [],
+      }
+    );
+  }
+  return days;
+}
+
+/**
+ * Arranges the daily study counts into a calendar heatmap, one column per week from Sunday to Saturday.
+ * Cells are shaded relative to the busiest day, so that the heatmap stays readable for any study volume.
+ *
+ * @param records - The progress documents of the learner, in any order.
+ * @param today - The learner's local date in "YYYY-MM-DD" format, shown in the last column.
+ * @param weeks - The number of weeks to show.
+ * @returns The columns of the heatmap, oldest first. Days after today are omitted from the last column.
+ */
+export function buildHeatmap(records: DailyProgressRecord[], today: string, weeks: number): HeatmapCell[][] {
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const from = addDays(today, -weekday - (weeks - 1) * 7); // The Sunday of the first week
+  const days = fillDailyProgress(records, from, today);
+  const max = Math.max(1, ...days.map((day) => day.totalStudied));
+
+  const columns: HeatmapCell[][] = [];
+  days.forEach((day, index) => {
+    if (index % 7 === 0) {
+      columns.push([]);
+    }
+    const level = Math.ceil((day.totalStudied / max) * 4) as HeatmapCell["level"];
+    columns[columns.length - 1].push({ date: day.date, count: day.totalStudied, level });
+  });
+  return columns;
+}
+
+/**
+ * Finds the words most often rated "Not At All".
+ *
+ * @param records - The progress documents of the learner.
+ * @param limit - The maximum number of words to return.
+ * @returns The hardest words, sorted by the number of "Not At All" ratings, then by the share of them.
+ */
+export function findHardestWords(records: DailyProgressRecord[], limit: number): HardWord[] {
+  const words = new Map<string, HardWord>();
+  // Visit the records in chronological order, so that the latest phrase of each word is kept
+  for (const record of [...records].sort((a, b) => a.date.localeCompare(b.date))) {
+    for (const studied of record.studiedWords) {
+      const word = words.get(studied.pageId) ?? { pageId: studied.pageId, phrase: studied.phrase, notAtAll: 0, reviews: 0 };
+      word.phrase = studied.phrase;
+      word.reviews++;
+      if (studied.memorized === "Not At All") {
+        word.notAtAll++;
+      }
+      words.set(studied.pageId, word);
+    }
+  }
+
+  return [...words.values()]
+    .filter((word) => word.notAtAll > 0)
+    .sort((a, b) => b.notAtAll - a.notAtAll || b.notAtAll / b.reviews - a.notAtAll / a.reviews)
+    .slice(0, limit);
+}
+
+/**
+ * Counts the reviews due on each of the upcoming days.
+ *
+ * @param schedules - The review schedules of the words.
+ * @param today - The learner's local date in "YYYY-MM-DD" format.
+ * @param days - The number of days to forecast, including today.
+ * @returns One entry per day from today, in chronological order. Overdue reviews are counted today.
+ */
+export function forecastDueReviews(
+  schedules: Pick<ReviewSchedule, "nextReview">[],
+  today: string,
+  days: number
+): DueForecastDay[] {
+  const forecast = Array.from({ length: days }, (_, index) => ({ date: addDays(today, index), count: 0 }));
+  for (const { nextReview } of schedules) {
+    const index = Math.max(daysBetween(today, nextReview), 0);
+    if (index < days) {
+      forecast[index].count++;
+    }
+  }
+  return forecast;
+}
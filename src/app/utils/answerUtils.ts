@@ -0,0 +1,259 @@
+import type { messagingApi } from "@line/bot-sdk";
+import type { AnswerGrade, DiffSegment } from "../types/answerTypes";
+
+/**
+ * Suffixes removed by `stemWord`, longest first.
+ */
+const SUFFIXES = ["ing", "ied", "ies", "ed", "es", "s"];
+
+/**
+ * Normalizes an answer for comparison.
+ * Converts to lower case, unifies apostrophes, removes punctuation and collapses whitespace.
+ *
+ * @param text - The text to normalize.
+ * @returns The normalized text (e.g., "Sulk!" becomes "sulk").
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’`]/g, "'") // Unify curly quotes and backticks into apostrophes
+    .replace(/[^\p{L}\p{N}\s']/gu, " ") // Remove punctuation
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Reduces a single word to a crude stem by removing common inflectional suffixes,
+ * so that forms such as "sulks", "sulked" and "sulking" compare equal to "sulk".
+ *
+ * @param word - A normalized word.
+ * @returns The stem of the word.
+ */
+export function stemWord(word: string): string {
+  let stem = word;
+  for (const suffix of SUFFIXES) {
+    // Keep short words and words ending in "ss" (e.g., "dress") intact
+    if (stem.length - suffix.length < 3 || !stem.endsWith(suffix) || (suffix === "s" && stem.endsWith("ss"))) {
+      continue;
+    }
+    stem = suffix === "ied" || suffix === "ies" ? `${stem.slice(0, -3)}y` : stem.slice(0, -suffix.length);
+
+    // Collapse a doubled final consonant ("stopped" -> "stop"), except for letters often doubled in base forms ("called")
+    if (/([^aeiouslz])\1$/.test(stem)) {
+      stem = stem.slice(0, -1);
+    }
+    break;
+  }
+
+  // Ignore a final "e", so that "bake", "baked" and "baking" share a stem
+  return stem.replace(/e$/, "");
+}
+
+/**
+ * Converts a text into the sequence of stems of its words.
+ *
+ * @param text - The text to convert.
+ * @returns An array of stems.
+ */
+function toStems(text: string): string[] {
+  const normalized = normalizeAnswer(text);
+  return normalized ? normalized.split(" ").map(stemWord) : [];
+}
+
+/**
+ * Checks whether a typed answer matches the expected phrase.
+ * The comparison tolerates differences in case, punctuation and inflection.
+ *
+ * @param answer - The answer typed by the user.
+ * @param expected - The expected phrase.
+ * @returns True if the answer matches the expected phrase, otherwise false.
+ */
+export function isAnswerCorrect(answer: string, expected: string): boolean {
+  const answerStems = toStems(answer);
+  const expectedStems = toStems(expected);
+  return (
+    answerStems.length > 0 &&
+    answerStems.length === expectedStems.length &&
+    answerStems.every((stem, index) => stem === expectedStems[index])
+  );
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings.
+ *
+ * @param a - The first string.
+ * @param b - The second string.
+ * @returns The minimum number of single-character insertions, deletions and substitutions turning `a` into `b`.
+ */
+export function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1, // Deletion
+        current[j - 1] + 1, // Insertion
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1) // Substitution
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Returns the number of typos tolerated for an expected answer of the given length.
+ *
+ * @param length - The length of the normalized expected answer.
+ * @returns 1 for short answers, 2 for answers up to 10 characters, and 3 for longer answers.
+ */
+function getTypoTolerance(length: number): number {
+  if (length <= 5) return 1;
+  if (length <= 10) return 2;
+  return 3;
+}
+
+/**
+ * Grades a typed answer against an expected answer and maps the result onto the four memorization levels.
+ *
+ * @param answer - The answer typed by the user.
+ * @param expected - The expected answer.
+ * @returns The `AnswerGrade` of the answer.
+ */
+export function gradeAnswer(answer: string, expected: string): AnswerGrade {
+  const normalizedAnswer = normalizeAnswer(answer);
+  const normalizedExpected = normalizeAnswer(expected);
+  const distance = getEditDistance(normalizedAnswer, normalizedExpected);
+
+  let rating: AnswerGrade["rating"];
+  if (distance === 0) {
+    rating = "Never Better";
+  } else if (isAnswerCorrect(answer, expected)) {
+    rating = "Good";
+  } else if (normalizedAnswer && distance <= getTypoTolerance(normalizedExpected.length)) {
+    rating = "So So";
+  } else {
+    rating = "Not At All";
+  }
+
+  return { rating, expected, distance };
+}
+
+/**
+ * Grades a typed answer against several acceptable answers and returns the best grade.
+ *
+ * @param answer - The answer typed by the user.
+ * @param expectedAnswers - The acceptable answers (e.g., the form shown in a cloze card and the phrase itself).
+ * @returns The best `AnswerGrade`, preferring higher ratings and then smaller edit distances.
+ */
+export function gradeBestAnswer(answer: string, expectedAnswers: string[]): AnswerGrade {
+  const ratingOrder: AnswerGrade["rating"][] = ["Never Better", "Good", "So So", "Not At All"];
+  return expectedAnswers
+    .map((expected) => gradeAnswer(answer, expected))
+    .reduce((best, grade) => {
+      const rankDifference = ratingOrder.indexOf(grade.rating) - ratingOrder.indexOf(best.rating);
+      return rankDifference < 0 || (rankDifference === 0 && grade.distance < best.distance) ? grade : best;
+    });
+}
+
+/**
+ * Computes a character-level diff between a typed answer and the expected answer.
+ * The diff is based on the longest common subsequence of the two strings (compared case-insensitively).
+ *
+ * @param answer - The answer typed by the user.
+ * @param expected - The expected answer.
+ * @returns An array of `DiffSegment` objects, with adjacent segments of the same type merged.
+ */
+export function diffCharacters(answer: string, expected: string): DiffSegment[] {
+  const a = answer.trim();
+  const b = expected.trim();
+  const equals = (i: number, j: number) => a[i].toLowerCase() === b[j].toLowerCase();
+
+  // lengths[i][j] holds the LCS length of a[i:] and b[j:]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = equals(i, j)
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  // Walk the table to build the segments
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equals(i, j)) {
+      push("equal", b[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("delete", a[i++]);
+    } else {
+      push("insert", b[j++]);
+    }
+  }
+  if (i < a.length) push("delete", a.slice(i));
+  if (j < b.length) push("insert", b.slice(j));
+
+  return segments;
+}
+
+/**
+ * Converts a graded answer into a Flex Message Bubble for LINE Bot, showing a character-level diff.
+ * Missing characters are underlined in green and extra characters are struck through in red.
+ *
+ * @param answer - The answer typed by the user.
+ * @param grade - The grade of the answer.
+ * @returns A FlexBubble object representing the answer and its diff against the expected answer.
+ */
+export function formatAnswerFlexMessage(answer: string, grade: AnswerGrade): messagingApi.FlexBubble {
+  const segments = diffCharacters(answer, grade.expected);
+
+  // Helper function to create a row in the Flex Message body
+  const createRow = (label: string, contents: messagingApi.FlexSpan[]): messagingApi.FlexBox => ({
+    type: "box",
+    layout: "vertical",
+    paddingTop: "sm",
+    contents: [
+      { type: "text", text: label, size: "sm", color: "#c7d5e0" },
+      { type: "text", contents, size: "md", wrap: true },
+    ],
+  });
+
+  return {
+    type: "bubble",
+    styles: {
+      body: { backgroundColor: "#2b3a42" },
+    },
+    body: {
+      type: "box",
+      layout: "vertical",
+      contents: [
+        createRow("You wrote:", [{ type: "span", text: answer.trim() || "-", color: "#ffffff" }]),
+        { type: "separator", margin: "sm" },
+        createRow(
+          "Correction:",
+          segments.map((segment): messagingApi.FlexSpan => {
+            if (segment.type === "insert") {
+              return { type: "span", text: segment.text, color: "#00AA00", weight: "bold", decoration: "underline" };
+            }
+            if (segment.type === "delete") {
+              return { type: "span", text: segment.text, color: "#FF0000", decoration: "line-through" };
+            }
+            return { type: "span", text: segment.text, color: "#ffffff" };
+          })
+        ),
+      ],
+    },
+  };
+}
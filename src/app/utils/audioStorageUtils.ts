@@ -0,0 +1,132 @@
+import fs from "fs/promises";
+import path from "path";
+import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
+import { storage } from "../constants/firebaseConfig";
+
+/**
+ * A storage for generated audio files.
+ *
+ * Implementations are interchangeable so that audio files can be kept in object storage in production,
+ * on the local filesystem during development, and in memory in tests.
+ */
+export interface AudioStorage {
+  /**
+   * Saves an audio file under the given key, replacing any existing file.
+   *
+   * @param key - The key of the file (e.g., "3f1c...e9.mp3").
+   * @param data - The audio data.
+   * @returns A promise that resolves to the public URL of the saved file.
+   */
+  save(key: string, data: Buffer): Promise<string>;
+
+  /**
+   * Loads the audio file stored under the given key.
+   *
+   * @param key - The key of the file.
+   * @returns A promise that resolves to the audio data, or `null` if no file is stored under the key.
+   */
+  load(key: string): Promise<Buffer | null>;
+}
+
+/**
+ * Creates a storage that keeps audio files on the local filesystem.
+ * Files are served by the `/api/audio/[key]` route, so the base URL must be a public HTTPS URL
+ * of this app (e.g., a tunnel to the development server) for LINE to download them.
+ *
+ * @param directory - The directory in which files are stored.
+ * @param baseUrl - The public base URL of this app (e.g., "https://example.ngrok.app").
+ * @returns An `AudioStorage` backed by the local filesystem.
+ * @throws An error if the base URL is missing or is not an HTTPS URL, since LINE rejects replies with other audio URLs.
+ */
+export function createLocalAudioStorage(directory: string, baseUrl: string | undefined): AudioStorage {
+  if (!baseUrl || !/^https:\/\/[^/]+/.test(baseUrl)) {
+    throw new Error(
+      `APP_BASE_URL must be set to the public HTTPS URL of this app to use the "local" audio storage backend (got "${baseUrl ?? ""}").`
+    );
+  }
+  const audioBaseUrl = `${baseUrl.replace(/\/+$/, "")}/api/audio`;
+
+  return {
+    async save(key, data) {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(path.join(directory, path.basename(key)), data);
+      return `${audioBaseUrl}/${encodeURIComponent(key)}`;
+    },
+    async load(key) {
+      try {
+        return await fs.readFile(path.join(directory, path.basename(key)));
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * Creates a storage that keeps audio files in process memory, standing in for object storage in tests.
+ *
+ * @returns An `AudioStorage` backed by a `Map`.
+ */
+export function createInMemoryAudioStorage(): AudioStorage {
+  const files = new Map<string, Buffer>();
+
+  return {
+    async save(key, data) {
+      files.set(key, Buffer.from(data));
+      return `memory://audio/${encodeURIComponent(key)}`;
+    },
+    async load(key) {
+      const data = files.get(key);
+      return data ? Buffer.from(data) : null;
+    },
+  };
+}
+
+/**
+ * Creates a storage that keeps audio files in Cloud Storage for Firebase.
+ *
+ * @param prefix - The folder in the storage bucket in which files are stored (e.g., "audio").
+ * @returns An `AudioStorage` backed by Cloud Storage.
+ */
+export function createFirebaseAudioStorage(prefix: string): AudioStorage {
+  return {
+    async save(key, data) {
+      const fileRef = ref(storage, `${prefix}/${key}`);
+      await uploadBytes(fileRef, data, { contentType: "audio/mpeg" });
+      return getDownloadURL(fileRef);
+    },
+    async load(key) {
+      try {
+        const response = await fetch(await getDownloadURL(ref(storage, `${prefix}/${key}`)));
+        return response.ok ? Buffer.from(await response.arrayBuffer()) : null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * Creates an audio storage using the backend selected by the `AUDIO_STORAGE_BACKEND` environment variable.
+ *
+ * - "local": Files are kept in the directory named by `AUDIO_LOCAL_DIR` (default: ".audio-cache")
+ *   and served from `APP_BASE_URL`, which must be an HTTPS URL.
+ * - "memory": Files are kept in process memory (see `createInMemoryAudioStorage`).
+ * - "firebase" (default): Files are kept in Cloud Storage for Firebase.
+ *
+ * @returns An `AudioStorage` for the configured backend.
+ * @throws An error if the "local" backend is selected and `APP_BASE_URL` is not an HTTPS URL.
+ */
+export function createAudioStorage(): AudioStorage {
+  switch (process.env.AUDIO_STORAGE_BACKEND) {
+    case "local":
+      return createLocalAudioStorage(
+        path.resolve(process.cwd(), process.env.AUDIO_LOCAL_DIR || ".audio-cache"),
+        process.env.APP_BASE_URL
+      );
+    case "memory":
+      return createInMemoryAudioStorage();
+    default:
+      return createFirebaseAudioStorage("audio");
+  }
+}
@@ -0,0 +1,253 @@
+import type { NextRequest } from "next/server";
+import type { AuthenticatedUser } from "../types/authTypes";
+
+/**
+ * The name of the cookie holding the dashboard session (see `createSessionToken`).
+ */
+export const SESSION_COOKIE_NAME = "session";
+
+/**
+ * The lifetime of a dashboard session in seconds (5 days).
+ */
+export const SESSION_MAX_AGE = 5 * 24 * 60 * 60;
+
+/**
+ * The public keys used by Firebase Authentication to sign ID tokens, as a JSON Web Key Set.
+ */
+const ID_TOKEN_KEYS_URL = "https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com";
+
+/**
+ * The allowed difference between the clocks of Firebase and this server, in seconds.
+ */
+const CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * The public keys fetched from `ID_TOKEN_KEYS_URL`, keyed by key ID, until the time they may be cached.
+ * The keys are rotated every few hours, so they are fetched again once the cache expires.
+ */
+let idTokenKeys: { keys: Map<string, CryptoKey>; expiresAt: number } | null = null;
+
+// Helper functions to convert between strings, bytes and Base64URL, which work in both the Node.js and Edge runtimes
+function encodeBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function decodeBase64Url(text: string): Uint8Array | null {
+  try {
+    const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null; // Not Base64URL
+  }
+}
+
+function decodeJsonPart(text: string): Record<string, unknown> | null {
+  const bytes = decodeBase64Url(text);
+  if (!bytes) {
+    return null;
+  }
+  try {
+    const value: unknown = JSON.parse(new TextDecoder().decode(bytes));
+    return typeof value === "object" && value !== null ? (value as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the public key with which Firebase Authentication signed an ID token.
+ *
+ * @param keyId - The key ID (`kid`) in the header of the token.
+ * @returns A promise that resolves to the key, or `undefined` if no current key has the ID.
+ * @throws An error if the keys cannot be fetched.
+ */
+async function getIdTokenKey(keyId: string): Promise<CryptoKey | undefined> {
+  if (!idTokenKeys || idTokenKeys.expiresAt <= Date.now()) {
+    const response = await fetch(ID_TOKEN_KEYS_URL);
+    if (!response.ok) {
+      console.error(`Failed to fetch ID token keys: ${response.status} ${await response.text()}`);
+      throw new Error("Failed to fetch ID token keys.");
+    }
+
+    const { keys } = (await response.json()) as { keys: (JsonWebKey & { kid: string })[] };
+    const maxAge = Number(response.headers.get("cache-control")?.match(/max-age=(\d+)/)?.[1] ?? 3600);
+    const importedKeys = new Map<string, CryptoKey>();
+    for (const key of keys) {
+      importedKeys.set(
+        key.kid,
+        await crypto.subtle.importKey("jwk", key, { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, false, ["verify"])
+      );
+    }
+    idTokenKeys = { keys: importedKeys, expiresAt: Date.now() + maxAge * 1000 };
+  }
+  return idTokenKeys.keys.get(keyId);
+}
+
+/**
+ * Verifies a Firebase ID token: its signature, and that it was issued for this Firebase project and has not expired.
+ * Whether the email address of the user has been verified is read from the `email_verified` claim.
+ *
+ * @param idToken - The ID token issued to the signed-in user (see `getIdToken`).
+ * @returns A promise that resolves to the user the token was issued to, or `null` if the token is malformed or invalid.
+ * @throws An error if the public keys of Firebase Authentication cannot be fetched.
+ */
+export async function verifyIdToken(idToken: string): Promise<AuthenticatedUser | null> {
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  const [header, payload, signature] = idToken.split(".");
+  if (!projectId || !header || !payload || !signature) {
+    return null;
+  }
+
+  const headerJson = decodeJsonPart(header);
+  const claims = decodeJsonPart(payload);
+  if (headerJson?.alg !== "RS256" || typeof headerJson.kid !== "string" || !claims) {
+    return null;
+  }
+
+  const signatureBytes = decodeBase64Url(signature);
+  const key = signatureBytes && await getIdTokenKey(headerJson.kid);
+  const isValidSignature = !!signatureBytes && !!key && await crypto.subtle.verify(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    signatureBytes,
+    new TextEncoder().encode(`${header}.${payload}`)
+  );
+
+  const now = Math.floor(Date.now() / 1000);
+  const isValidClaims = claims.aud === projectId
+    && claims.iss === `https://securetoken.google.com/${projectId}`
+    && typeof claims.sub === "string" && claims.sub !== ""
+    && typeof claims.exp === "number" && claims.exp > now - CLOCK_SKEW_SECONDS
+    && typeof claims.iat === "number" && claims.iat <= now + CLOCK_SKEW_SECONDS;
+
+  return isValidSignature && isValidClaims
+    ? {
+        uid: claims.sub as string,
+        email: typeof claims.email === "string" ? claims.email : "",
+        emailVerified: claims.email_verified === true,
+      }
+    : null;
+}
+
+/**
+ * Imports the secret used to sign session cookies, configured with the `SESSION_SECRET` environment variable.
+ *
+ * @returns A promise that resolves to the HMAC key, or `null` if no secret is configured.
+ */
+async function getSessionKey(): Promise<CryptoKey | null> {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    console.error("SESSION_SECRET is not set. Dashboard sessions cannot be created or verified.");
+    return null;
+  }
+  return crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ]);
+}
+
+/**
+ * Creates the value of a session cookie for a user whose ID token has been verified.
+ * The value is the user and its expiry time, signed with `SESSION_SECRET`, so that it can be verified
+ * on every request without calling Firebase.
+ *
+ * @param user - The signed-in user.
+ * @param now - The current time. Defaults to the current time.
+ * @returns A promise that resolves to the signed session token.
+ * @throws An error if `SESSION_SECRET` is not set.
+ */
+export async function createSessionToken(user: AuthenticatedUser, now: Date = new Date()): Promise<string> {
+  const key = await getSessionKey();
+  if (!key) {
+    throw new Error("Failed to create a session.");
+  }
+
+  const payload = encodeBase64Url(
+    new TextEncoder().encode(JSON.stringify({ ...user, exp: Math.floor(now.getTime() / 1000) + SESSION_MAX_AGE }))
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload));
+  return `${payload}.${encodeBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies the value of a session cookie.
+ *
+ * @param token - The session token (see `createSessionToken`).
+ * @returns A promise that resolves to the user of the session, or `null` if the token is malformed, forged or has expired.
+ */
+export async function verifySessionToken(token: string): Promise<AuthenticatedUser | null> {
+  const [payload, signature] = token.split(".");
+  const signatureBytes = signature ? decodeBase64Url(signature) : null;
+  const key = await getSessionKey();
+  if (!payload || !signatureBytes || !key) {
+    return null;
+  }
+
+  const isValidSignature = await crypto.subtle.verify("HMAC", key, signatureBytes, new TextEncoder().encode(payload));
+  const session = decodeJsonPart(payload);
+  if (!isValidSignature || !session || typeof session.exp !== "number" || session.exp <= Date.now() / 1000) {
+    return null;
+  }
+  return { uid: String(session.uid), email: String(session.email), emailVerified: session.emailVerified === true };
+}
+
+/**
+ * Checks if a user may use the dashboard.
+ * Only the users listed in the `DASHBOARD_ALLOWED_EMAILS` environment variable (a comma-separated list of
+ * email addresses) are allowed, and only once they have verified their address.
+ * If the variable is not set, nobody is allowed, since anyone can sign up to the Firebase project with its public API key.
+ *
+ * @param user - The signed-in user.
+ * @returns True if the user is allowed, otherwise false.
+ */
+export function isAllowedUser(user: AuthenticatedUser): boolean {
+  const allowedEmails = (process.env.DASHBOARD_ALLOWED_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (allowedEmails.length === 0) {
+    console.error("DASHBOARD_ALLOWED_EMAILS is not set. Nobody is allowed to use the dashboard.");
+    return false;
+  }
+  return user.emailVerified && allowedEmails.includes(user.email.toLowerCase());
+}
+
+/**
+ * Authenticates a request sent by the dashboard, which carries either the session cookie
+ * or the user's Firebase ID token as a bearer token.
+ *
+ * @param req - The incoming NextRequest object.
+ * @returns A promise that resolves to the signed-in user, or `null` if the request is not authenticated.
+ * @throws An error if the ID token cannot be verified.
+ */
+export async function authenticateRequest(req: NextRequest): Promise<AuthenticatedUser | null> {
+  const sessionToken = req.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const sessionUser = sessionToken ? await verifySessionToken(sessionToken) : null;
+  if (sessionUser) {
+    return sessionUser;
+  }
+
+  const idToken = req.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+  return idToken ? verifyIdToken(idToken) : null;
+}
+
+/**
+ * Authenticates a request and checks if the user may use the dashboard.
+ *
+ * @param req - The incoming NextRequest object.
+ * @returns A promise that resolves to the signed-in user, or the HTTP status and message of the error:
+ *          401 if the request is not authenticated, or 403 if the user is not allowed.
+ * @throws An error if the ID token cannot be verified.
+ */
+export async function authorizeRequest(
+  req: NextRequest
+): Promise<{ user: AuthenticatedUser } | { status: 401 | 403; error: string }> {
+  const user = await authenticateRequest(req);
+  if (!user) {
+    return { status: 401, error: "Authentication required." };
+  }
+  if (!isAllowedUser(user)) {
+    return { status: 403, error: "You do not have access to the dashboard." };
+  }
+  return { user };
+}
@@ -1,42 +1,57 @@
-import fs from "fs";
-import path from "path";
 import * as line from "@line/bot-sdk";
-import { getFormattedDatabasePages } from "./notionUtils";
-import type { NotionApiResponse, NotionPage } from "../types/notionTypes";
+import { getFormattedDatabasePages, getNotionPage } from "./notionUtils";
+import { createStore } from "./storeUtils";
+import type { NotionPage } from "../types/notionTypes";
+import type { StudyFilter } from "../types/filterTypes";
+import type { StudyQueue } from "../types/queueTypes";
 
 /**
- * Cache for storing Notion pages and pagination state.
+ * Store for persisting study queues, keyed by LINE chat ID, so that each user advances through their decks independently.
  */
-export const cache = {
-  data: [] as NotionPage[], // Cached pages
-  nextCursor: null as string | null, // Cursor for the next page
-  currentIndex: 0, // Index for the current page being served
-
-  /**
-   * Resets the cache to its initial state.
-   * This clears all cached data, resets the cursor, and the current index.
-   */
-  reset(): void {
-    console.log("Cache is being reset.");
-
-    // Clear the audio files in the output directory
-    clearOutputDirectory();
-
-    this.data = [];
-    this.nextCursor = null;
-    this.currentIndex = 0;
-  },
-
-  /**
-   * Checks whether there are more pages to fetch or serve.
-   * This is useful for determining whether the user has finished all available pages.
-   * 
-   * @returns A boolean indicating if there are more pages available.
-   */
-  hasMore(): boolean {
-    return this.currentIndex < this.data.length || this.nextCursor !== null;
-  },
-};
+const queueStore = createStore<StudyQueue>("studyQueues");
+
+/**
+ * Loads the study queue of the given chat, creating an empty one if none exists yet
+ * or if the existing one was built for different decks, a different study filter or another day.
+ *
+ * @param chatId - The LINE user's chat ID.
+ * @param databaseIds - The databases of the decks being studied.
+ * @param filter - The filter scoping the study session, or `null` to serve due words.
+ * @param today - The current date in the user's time zone, in "YYYY-MM-DD" format.
+ * @returns A promise that resolves to the `StudyQueue` of the chat.
+ */
+async function getQueue(chatId: string, databaseIds: string[], filter: StudyFilter | null, today: string): Promise<StudyQueue> {
+  const scope = JSON.stringify({ databaseIds, filter, today });
+  const queue = await queueStore.get(chatId);
+  return queue && queue.scope === scope
+    ? queue
+    : { userId: chatId, scope, pageIds: [], cursors: {}, currentIndex: 0, exhausted: false };
+}
+
+/**
+ * Compares two ISO 8601 dates in ascending order, placing empty dates last (as Notion does).
+ *
+ * @param a - The first date, or an empty string.
+ * @param b - The second date, or an empty string.
+ * @returns A negative number if `a` comes first, a positive number if `b` comes first, or 0 if they are equal.
+ */
+function compareDates(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a) return 1;
+  if (!b) return -1;
+  return a < b ? -1 : 1;
+}
+
+/**
+ * Resets the study queue of the given chat to its initial state.
+ * The next call to `getNextPage` starts over from the first page of each database.
+ *
+ * @param chatId - The LINE user's chat ID.
+ */
+export async function resetQueue(chatId: string): Promise<void> {
+  console.log(`Study queue for chat ID ${chatId} is being reset.`);
+  await queueStore.delete(chatId);
+}
 
 /**
  * Starts a loading animation in the LINE chat.
@@ -59,145 +74,109 @@ export async function startLoadingAnimation(
 }
 
 /**
- * Sends a POST request to the audio generation API to generate an audio file.
- *
- * @param apiKey - Internal API key for authentication.
- * @param text - The text to be converted into audio.
- * @param pageId - The ID of the Notion page associated with the text.
- * @param host - The host of the API server (e.g., "localhost:3000").
- * @param client - Initialized LINE Messaging API client instance
- * @param chatId - The LINE user's chat ID for displaying the loading animation.
- * @returns A promise that resolves to a boolean indicating success or failure.
- */
-export async function generateAudioFileViaApi(
-  apiKey: string,
-  text: string,
-  pageId: string,
-  host: string,
-  client: line.messagingApi.MessagingApiClient,
-  chatId: string,
-): Promise<boolean> {
-  const apiUrl = `https://${host}/api/generate-audio-file`; // Build the full API URL dynamically
-  try {
-    // Validate the API key
-    if (!apiKey) {
-      throw new Error("API key is required for internal server-to-server authentication.");
-    }
-
-    // Display loading animation while fetching data
-    await startLoadingAnimation(client, chatId);
-
-    // Send a POST request to the audio generation API
-    const response = await fetch(apiUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "internal-api-key": apiKey, // Pass the internal API key
-      },
-      body: JSON.stringify({ text, pageId }), // Include text and page ID
-    });
-
-    // Check the response status
-    if (!response.ok) {
-      console.error(`Failed to generate audio for text: "${text}". Status: ${response.status}`);
-      return false;
-    }
-
-    console.log(`Audio file successfully generated for text: "${text}"`);
-    return true;
-  } catch (error) {
-    console.error(`Error generating audio for text: "${text}"`, error);
-    return false;
-  }
-}
-
-/**
- * Deletes all audio files in the public/output directory.
- */
-function clearOutputDirectory(): void {
-  const outputDir = path.resolve(process.cwd(), "public/output");
-
-  try {
-    // Check if the directory exists
-    if (fs.existsSync(outputDir)) {
-      // Read all files in the directory
-      const files = fs.readdirSync(outputDir);
-
-      // Delete each file
-      files.forEach((file) => {
-        const filePath = path.join(outputDir, file);
-        fs.unlinkSync(filePath); // Synchronous file deletion
-        console.log(`Deleted file: ${filePath}`);
-      });
-    } else {
-      console.warn(`Output directory does not exist: ${outputDir}`);
-    }
-  } catch (error) {
-    console.error("Error clearing output directory:", error);
-  }
-}
-
-/**
- * Fetches the next page from the cached data or the Notion API.
- * If all cached pages have been served, it fetches the next set of pages using pagination.
+ * Fetches the next page from the chat's study queue or the Notion API.
+ * The queue keeps the IDs of the pages of the current batch and is persisted, so that the order survives restarts;
+ * each page is retrieved again when it is served, so that it reflects any edits made in the meantime.
+ * If all pages of the batch have been served, it fetches the next set of pages from each of the given databases
+ * using pagination, and merges them so that the most overdue pages across all decks come first.
+ * Once every page in the databases has been served, it returns `null` once and starts over on the following call.
  * Displays a loading animation in the LINE chat while fetching data from the Notion API.
  *
  * @param client - Initialized LINE Messaging API client instance
- * @param chatId - The LINE user's chat ID for displaying the loading animation.
+ * @param chatId - The LINE user's chat ID, used to select the study queue and display the loading animation.
+ * @param databaseIds - The databases of the decks being studied. Changing them starts a new queue.
+ * @param filter - The filter scoping the study session, or `null` to serve due words. Changing it starts a new queue.
+ * @param today - The current date in the user's time zone, in "YYYY-MM-DD" format, which decides the due words.
+ *                A new day starts a new queue.
  * @returns A `Promise` that resolves to the next `NotionPage`, or `null` if no more pages are available.
  */
 export async function getNextPage(
   client: line.messagingApi.MessagingApiClient,
   chatId: string,
+  databaseIds: string[],
+  filter: StudyFilter | null,
+  today: string,
 ): Promise<NotionPage | null> {
   try {
-    // If the cache is empty or all pages have been served
-    if (cache.currentIndex >= cache.data.length) {
-      console.log("Cache exhausted. Fetching new data from Notion API...");
-
-      // Save nextCursor before resetting the cache
-      const nextCursor = cache.nextCursor;
-      console.log("nextCursor:", nextCursor);
-
-      // Reset cache to clear old data and delete old audio files
-      cache.reset();
+    let queue = await getQueue(chatId, databaseIds, filter, today);
+    // Start over if the user has already completed all the pages
+    if (queue.exhausted) {
+      await resetQueue(chatId);
+      queue = await getQueue(chatId, databaseIds, filter, today);
+    }
 
-      // Display loading animation while fetching data
-      await startLoadingAnimation(client, chatId);
+    // Pages fetched by this call, which do not need to be retrieved again
+    const fetchedPages = new Map<string, NotionPage>();
+
+    while (true) {
+      // If all pages of the batch have been served, fetch batches until one has results
+      // (a batch can be empty while a database still has more pages)
+      if (queue.currentIndex >= queue.pageIds.length) {
+        // Databases that have not been fetched yet or have more pages
+        const pendingDatabaseIds = databaseIds.filter((databaseId) => queue.cursors[databaseId] !== null);
+
+        // All pages have been served and there is nothing left to fetch
+        if (pendingDatabaseIds.length === 0) {
+          console.log(`Study queue exhausted for chat ID: ${chatId}`);
+          queue.exhausted = true;
+          await queueStore.set(chatId, queue);
+          return null;
+        }
+
+        console.log("Study queue exhausted. Fetching new data from Notion API...");
+        console.log("cursors:", queue.cursors);
+
+        // Display loading animation while fetching data
+        await startLoadingAnimation(client, chatId);
+
+        // Fetch the next batch of data from each database
+        const responses = await Promise.all(
+          pendingDatabaseIds.map((databaseId) =>
+            getFormattedDatabasePages(databaseId, today, queue.cursors[databaseId] ?? undefined, filter)
+          )
+        );
+
+        console.log("API responses received:", responses.map((response, index) => ({
+          databaseId: pendingDatabaseIds[index],
+          nextCursor: response.next_cursor,
+          resultsCount: response.results.length,
+        })));
+
+        // Update the queue with the new batch, most overdue first
+        const pages = responses
+          .flatMap((response) => response.results)
+          .sort((a, b) =>
+            compareDates(a.properties.nextReview, b.properties.nextReview) ||
+            compareDates(a.properties.lastStudied, b.properties.lastStudied)
+          );
+        pages.forEach((page) => fetchedPages.set(page.id, page));
+        queue.pageIds = pages.map((page) => page.id);
+        responses.forEach((response, index) => {
+          queue.cursors[pendingDatabaseIds[index]] = response.next_cursor; // Update the next cursor
+        });
+        queue.currentIndex = 0; // Reset index for the new batch
+        continue;
+      }
 
-      // Fetch the next batch of data from the Notion API
-      const response: NotionApiResponse = await getFormattedDatabasePages(
-        nextCursor ?? undefined // Handle null by passing undefined
-      );
+      // Serve the next page of the batch, skipping pages that have been deleted since it was fetched
+      const pageId = queue.pageIds[queue.currentIndex];
+      queue.currentIndex += 1; // Increment the index for the next call
+      const nextPage = fetchedPages.get(pageId) ?? (await getNotionPage(pageId));
+      if (!nextPage) {
+        continue;
+      }
 
-      console.log("API response received:", {
-        nextCursor: response.next_cursor,
-        resultsCount: response.results.length,
+      console.log("Serving next page:", {
+        chatId,
+        currentIndex: queue.currentIndex - 1,
+        phrase: nextPage.properties.phrase,
+        pageId: nextPage.id,
       });
-
-      // Update the cache with the new data
-      cache.data = response.results; // Load the new batch of data
-      cache.nextCursor = response.next_cursor; // Update the next cursor
-      cache.currentIndex = 0; // Reset index for the new batch
-
-      // If no results are fetched, return null
-      if (cache.data.length === 0) {
-        return null;
-      }
+      await queueStore.set(chatId, queue);
+      return nextPage;
     }
-
-    // Serve the next page from the cache
-    const nextPage = cache.data[cache.currentIndex];
-    console.log("Serving next page:", {
-      currentIndex: cache.currentIndex,
-      phrase: nextPage.properties.phrase,
-      pageId: nextPage.id,
-    });
-
-    cache.currentIndex += 1; // Increment the index for the next call
-    return nextPage;
   } catch (error) {
     console.error("Error fetching the next page:", error);
     throw new Error("Failed to fetch the next page.");
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,101 @@
+import { normalizeAnswer, stemWord } from "./answerUtils";
+import { splitExampleSentences } from "./richTextUtils";
+import type { NotionPage } from "../types/notionTypes";
+import type { CardDirection, CardPrompt } from "../types/cardTypes";
+
+/**
+ * The placeholder that replaces the phrase in a cloze sentence.
+ */
+const BLANK = "_____";
+
+/**
+ * Creates a reverse card prompt, which shows the meaning and asks for the phrase.
+ *
+ * @param page - The page to create the prompt from.
+ * @returns A `CardPrompt`, or `null` if the page has no meaning.
+ */
+export function createReversePrompt(page: NotionPage): CardPrompt | null {
+  const { meaning, phrase } = page.properties;
+  if (!meaning || !phrase) {
+    return null;
+  }
+  return { direction: "Reverse", text: meaning, answer: phrase };
+}
+
+/**
+ * Locates a phrase in a text regardless of case and inflection (e.g., "sulk" matches "sulking").
+ *
+ * @param text - The text to search (e.g., an example sentence).
+ * @param phrase - The phrase to locate.
+ * @returns The start and end offsets of the first occurrence, or `null` if the phrase cannot be found.
+ */
+export function findPhrase(text: string, phrase: string): { start: number; end: number } | null {
+  const phraseStems = normalizeAnswer(phrase).split(" ").filter(Boolean).map(stemWord);
+  if (!text || phraseStems.length === 0) {
+    return null;
+  }
+
+  // Split the text into words, keeping their positions
+  const words = Array.from(text.matchAll(/[\p{L}\p{N}']+/gu)).map((match) => ({
+    stem: stemWord(normalizeAnswer(match[0])),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+  // Find the first run of consecutive words whose stems match the phrase
+  for (let i = 0; i + phraseStems.length <= words.length; i++) {
+    const run = words.slice(i, i + phraseStems.length);
+    if (run.every((word, index) => word.stem === phraseStems[index])) {
+      return { start: run[0].start, end: run[run.length - 1].end };
+    }
+  }
+  return null;
+}
+
+/**
+ * Creates a cloze card prompt, which shows an example sentence with the phrase blanked out.
+ * If the page has several example sentences, the first one containing the phrase is used.
+ *
+ * @param page - The page to create the prompt from.
+ * @returns A `CardPrompt`, or `null` if the phrase cannot be found in any example sentence.
+ */
+export function createClozePrompt(page: NotionPage): CardPrompt | null {
+  const { example, phrase } = page.properties;
+  for (const sentence of splitExampleSentences(example)) {
+    const match = findPhrase(sentence, phrase);
+    if (match) {
+      return {
+        direction: "Cloze",
+        text: `${sentence.slice(0, match.start)}${BLANK}${sentence.slice(match.end)}`,
+        answer: sentence.slice(match.start, match.end),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Creates a prompt for the given card direction.
+ *
+ * @param page - The page to create the prompt from.
+ * @param direction - The direction of the card ("Reverse" or "Cloze").
+ * @returns A `CardPrompt`, or `null` if the page lacks the fields required by the direction.
+ */
+export function createCardPrompt(
+  page: NotionPage,
+  direction: Exclude<CardDirection, "Recognition">
+): CardPrompt | null {
+  return direction === "Reverse" ? createReversePrompt(page) : createClozePrompt(page);
+}
+
+/**
+ * Formats a card prompt into a message asking the user to type the phrase.
+ *
+ * @param prompt - The prompt to format.
+ * @returns The message text.
+ */
+export function formatCardPrompt(prompt: CardPrompt): string {
+  return prompt.direction === "Reverse"
+    ? `🔁 Which phrase means:\n\n${prompt.text}\n\nType your answer.`
+    : `🧩 Fill in the blank:\n\n${prompt.text}\n\nType the missing phrase.`;
+}
@@ -0,0 +1,159 @@
+import { getIdToken } from "./firebaseUtils";
+import type { NotionPage } from "../types/notionTypes";
+import type { Deck } from "../types/deckTypes";
+import type { BulkWordAction, BulkWordResult, EditableWordValues, WordQuery } from "../types/wordBrowserTypes";
+import type { AccountLink } from "../types/accountTypes";
+import type { UserSettings } from "../types/userTypes";
+import type { DailyProgressRecord } from "../types/analyticsTypes";
+import type { Streak } from "../types/streakTypes";
+import type { ReviewSchedule } from "../types/scheduleTypes";
+import type { HistoryExportFormat } from "../types/exportTypes";
+
+/**
+ * Sends a request to a dashboard API route on behalf of the signed-in user.
+ *
+ * @param path - The path of the API route (e.g., "/api/words").
+ * @param init - (Optional) The method and JSON body of the request.
+ * @returns A promise that resolves to the parsed JSON response.
+ * @throws An error with the message returned by the API if the request fails.
+ */
+async function requestDashboardApi<T>(path: string, init?: { method: string; body: unknown }): Promise<T> {
+  const idToken = await getIdToken();
+  const response = await fetch(path, {
+    method: init?.method ?? "GET",
+    headers: {
+      ...(idToken && { Authorization: `Bearer ${idToken}` }),
+      ...(init && { "Content-Type": "application/json" }),
+    },
+    body: init ? JSON.stringify(init.body) : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error ?? `Request to ${path} failed with status ${response.status}.`);
+  }
+  return data as T;
+}
+
+// Helper function to encode a search of the word browser as the query parameters read by `parseWordQuery`
+function toWordQueryParams(deckId: string, query: WordQuery): URLSearchParams {
+  const params = new URLSearchParams({ deckId, q: query.search, sort: query.sort, direction: query.direction });
+  for (const key of ["category", "movie", "memorized", "studiedFrom", "studiedTo", "cursor"] as const) {
+    if (query[key]) {
+      params.set(key, query[key]);
+    }
+  }
+  return params;
+}
+
+/**
+ * Loads the decks of the user and the options for filtering the words of a deck.
+ *
+ * @param deckId - The database ID of the deck, or `null` for the first deck.
+ * @returns A promise that resolves to the decks, the selected deck ID and the filter options.
+ */
+export function getWordOptions(deckId: string | null) {
+  return requestDashboardApi<{ decks: Deck[]; deckId: string; category: string[]; movie: string[]; memorized: string[] }>(
+    `/api/words/options${deckId ? `?deckId=${encodeURIComponent(deckId)}` : ""}`
+  );
+}
+
+/**
+ * Searches the words of a deck.
+ *
+ * @param deckId - The database ID of the deck.
+ * @param query - The search, sort order and cursor.
+ * @returns A promise that resolves to the matching words and the cursor of the next batch.
+ */
+export function searchWords(deckId: string, query: WordQuery) {
+  return requestDashboardApi<{ words: NotionPage[]; nextCursor: string | null }>(`/api/words?${toWordQueryParams(deckId, query)}`);
+}
+
+/**
+ * Saves new values of the fields of a word.
+ *
+ * @param pageId - The ID of the Notion page of the word.
+ * @param values - The values of the fields to change.
+ * @returns A promise that resolves to the updated word.
+ */
+export async function updateWord(pageId: string, values: EditableWordValues): Promise<NotionPage> {
+  const { word } = await requestDashboardApi<{ word: NotionPage }>(`/api/words/${pageId}`, { method: "PATCH", body: values });
+  return word;
+}
+
+/**
+ * Applies a bulk change to several words.
+ *
+ * @param pageIds - The IDs of the Notion pages of the words.
+ * @param action - The change to apply.
+ * @returns A promise that resolves to the IDs of the updated and failed pages.
+ */
+export function updateWords(pageIds: string[], action: BulkWordAction): Promise<BulkWordResult> {
+  const body = action.type === "tag" ? { action: "tag", category: action.category, pageIds } : { action: "reset", pageIds };
+  return requestDashboardApi<BulkWordResult>("/api/words/bulk", { method: "POST", body });
+}
+
+/**
+ * Loads the LINE account linked to the signed-in user and the settings the user configured from the chat.
+ *
+ * @returns A promise that resolves to the account link and settings, both `null` if no LINE account is linked.
+ */
+export function getAccount() {
+  return requestDashboardApi<{ link: AccountLink | null; settings: UserSettings | null }>("/api/account");
+}
+
+/**
+ * Links the signed-in user to the LINE account that requested a link code from the bot.
+ *
+ * @param code - The link code sent by the bot.
+ * @returns A promise that resolves to the new account link.
+ */
+export async function linkLineAccount(code: string): Promise<AccountLink> {
+  const { link } = await requestDashboardApi<{ link: AccountLink }>("/api/account/link", { method: "POST", body: { code } });
+  return link;
+}
+
+/**
+ * Unlinks the LINE account of the signed-in user.
+ */
+export async function unlinkLineAccount(): Promise<void> {
+  await requestDashboardApi("/api/account/link", { method: "DELETE", body: {} });
+}
+
+/**
+ * Loads the study progress of the LINE account linked to the signed-in user.
+ *
+ * @param from - The first date in the user's time zone, in "YYYY-MM-DD" format.
+ * @param to - The last date in the user's time zone, in "YYYY-MM-DD" format.
+ * @returns A promise that resolves to the daily progress, the streak and the review schedules of the words.
+ */
+export function getProgress(from: string, to: string) {
+  return requestDashboardApi<{
+    history: DailyProgressRecord[];
+    streak: Streak;
+    schedules: (ReviewSchedule & { pageId: string; phrase: string })[];
+  }>(`/api/account/progress?${new URLSearchParams({ from, to })}`);
+}
+
+/**
+ * Returns the URL from which the review history of the signed-in user is downloaded.
+ * The download is authenticated by the session cookie, so the URL can be used as a plain link.
+ *
+ * @param format - The format of the file.
+ * @returns The URL of the export API.
+ */
+export function getHistoryExportUrl(format: HistoryExportFormat): string {
+  return `/api/export/history?format=${format}`;
+}
+
+/**
+ * Returns the URL from which the words matching a search of the word browser are downloaded for Anki.
+ * The download is authenticated by the session cookie, so the URL can be used as a plain link.
+ *
+ * @param deckId - The database ID of the deck.
+ * @param query - The search and sort order. The cursor is ignored, so that every matching word is exported.
+ * @returns The URL of the export API.
+ */
+export function getVocabularyExportUrl(deckId: string, query: WordQuery): string {
+  return `/api/export/vocabulary?${toWordQueryParams(deckId, { ...query, cursor: null })}`;
+}
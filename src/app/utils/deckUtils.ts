@@ -0,0 +1,173 @@
+import type { messagingApi } from "@line/bot-sdk";
+import { ButtonLabel } from "../constants/buttons";
+import { encodePostbackData } from "./postbackUtils";
+import type { Deck } from "../types/deckTypes";
+import type { UserSettings } from "../types/userTypes";
+
+/**
+ * The maximum number of bubbles in a Flex carousel.
+ */
+const MAX_CAROUSEL_BUBBLES = 12;
+
+/**
+ * Extracts a Notion database ID from a database URL or a raw ID.
+ *
+ * @param input - A Notion database URL (e.g., "https://www.notion.so/workspace/14bc2a7ddeb38075b11ac057a3e6f685?v=...")
+ *                or an ID with or without hyphens.
+ * @returns The database ID as a UUID with hyphens, or `null` if the input does not contain an ID.
+ */
+export function parseDatabaseId(input: string): string | null {
+  // Ignore the query string, which contains the ID of the database view
+  const match = input.split("?")[0].match(/([0-9a-f]{8})-?([0-9a-f]{4})-?([0-9a-f]{4})-?([0-9a-f]{4})-?([0-9a-f]{12})(?![0-9a-f])/i);
+  return match ? match.slice(1).join("-").toLowerCase() : null;
+}
+
+/**
+ * Returns the decks shared by every user.
+ *
+ * The decks are read from the `NOTION_DECKS` environment variable, a JSON array such as
+ * `[{ "name": "Movie phrases", "databaseId": "..." }]`. If it is not set, the database named by
+ * `NOTION_DATABASE_ID` is shared as a single deck named "Default".
+ *
+ * @returns The shared decks, in the configured order.
+ * @throws An error if `NOTION_DECKS` is not a valid JSON array of decks.
+ */
+export function getSharedDecks(): Deck[] {
+  if (!process.env.NOTION_DECKS) {
+    const databaseId = process.env.NOTION_DATABASE_ID && parseDatabaseId(process.env.NOTION_DATABASE_ID);
+    return databaseId ? [{ name: "Default", databaseId }] : [];
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(process.env.NOTION_DECKS);
+  } catch (error) {
+    throw new Error(`NOTION_DECKS environment variable is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(config)) {
+    throw new Error("NOTION_DECKS environment variable must be a JSON array of decks.");
+  }
+
+  return config.map((deck, index) => {
+    const databaseId = typeof deck?.databaseId === "string" ? parseDatabaseId(deck.databaseId) : null;
+    if (typeof deck?.name !== "string" || !deck.name.trim() || !databaseId) {
+      throw new Error(`Deck #${index + 1} in NOTION_DECKS must have a "name" and a valid "databaseId".`);
+    }
+    return { name: deck.name.trim(), databaseId };
+  });
+}
+
+/**
+ * Returns every deck available to a user: the shared decks followed by the decks registered by the user.
+ *
+ * @param settings - The user's settings.
+ * @returns The available decks, without duplicate databases.
+ */
+export function getAvailableDecks(settings: UserSettings): Deck[] {
+  const decks = [...getSharedDecks()];
+  for (const deck of settings.decks) {
+    if (!decks.some((existing) => existing.databaseId === deck.databaseId)) {
+      decks.push(deck);
+    }
+  }
+  return decks;
+}
+
+/**
+ * Returns the decks a user is currently studying.
+ * Falls back to the first available deck if the user has not selected any deck, or if the selected decks
+ * are no longer available.
+ *
+ * @param settings - The user's settings.
+ * @returns The selected decks, or an empty array if no deck is available at all.
+ */
+export function getSelectedDecks(settings: UserSettings): Deck[] {
+  const decks = getAvailableDecks(settings);
+  const selected = decks.filter((deck) => settings.selectedDeckIds.includes(deck.databaseId));
+  return selected.length > 0 ? selected : decks.slice(0, 1);
+}
+
+/**
+ * Finds an available deck by its database ID.
+ *
+ * @param settings - The user's settings.
+ * @param databaseId - The database ID of the deck.
+ * @returns The deck, or `undefined` if it is not available to the user.
+ */
+export function findDeck(settings: UserSettings, databaseId: string): Deck | undefined {
+  return getAvailableDecks(settings).find((deck) => deck.databaseId === databaseId);
+}
+
+/**
+ * Converts the available decks into a Flex carousel, with one bubble per deck.
+ * Each bubble has a button to study only that deck and a button to add it to or remove it from the selection,
+ * so that several decks can be studied at once.
+ *
+ * @param decks - The decks to display (at most 12 are shown).
+ * @param selectedDecks - The decks currently being studied.
+ * @returns A FlexCarousel object representing the decks.
+ */
+export function formatDeckCarousel(decks: Deck[], selectedDecks: Deck[]): messagingApi.FlexCarousel {
+  const bubbles: messagingApi.FlexBubble[] = decks.slice(0, MAX_CAROUSEL_BUBBLES).map((deck) => {
+    const isSelected = selectedDecks.some((selected) => selected.databaseId === deck.databaseId);
+    return {
+      type: "bubble",
+      size: "kilo",
+      styles: {
+        body: { backgroundColor: "#2b3a42" },
+        footer: { backgroundColor: "#2b3a42" },
+      },
+      body: {
+        type: "box",
+        layout: "vertical",
+        contents: [
+          {
+            type: "text",
+            text: deck.name,
+            weight: "bold",
+            size: "lg",
+            color: "#ffffff",
+            wrap: true,
+          },
+          {
+            type: "text",
+            text: isSelected ? "✅ Studying" : "Not selected",
+            size: "sm",
+            color: isSelected ? "#00AA00" : "#c7d5e0",
+            margin: "md",
+          },
+        ],
+      },
+      footer: {
+        type: "box",
+        layout: "vertical",
+        spacing: "sm",
+        contents: [
+          {
+            type: "button",
+            style: "primary",
+            color: "#2196F3",
+            action: {
+              type: "postback",
+              label: "Study only this",
+              data: encodePostbackData({ action: ButtonLabel.SelectDeck, deckId: deck.databaseId }),
+              displayText: `Study ${deck.name}`.slice(0, 300), // LINE limits displayText to 300 characters
+            },
+          },
+          {
+            type: "button",
+            style: "secondary",
+            action: {
+              type: "postback",
+              label: isSelected ? "Remove from study" : "Add to study",
+              data: encodePostbackData({ action: ButtonLabel.ToggleDeck, deckId: deck.databaseId }),
+              displayText: `${isSelected ? "Remove" : "Add"} ${deck.name}`.slice(0, 300),
+            },
+          },
+        ],
+      },
+    };
+  });
+
+  return { type: "carousel", contents: bubbles };
+}
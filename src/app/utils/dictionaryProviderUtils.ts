@@ -0,0 +1,143 @@
+import fs from "fs";
+import path from "path";
+import type { DictionaryEntry, DictionaryProvider } from "../types/dictionaryTypes";
+
+/**
+ * The endpoint of the Free Dictionary API, followed by the URL-encoded phrase.
+ */
+const FREE_DICTIONARY_API_URL = "https://api.dictionaryapi.dev/api/v2/entries/en/";
+
+/**
+ * An entry returned by the Free Dictionary API. Only the fields used by this app are declared.
+ */
+interface FreeDictionaryEntry {
+  phonetic?: string;
+  phonetics?: { text?: string }[];
+  meanings?: {
+    partOfSpeech?: string;
+    definitions?: { definition?: string; example?: string }[];
+  }[];
+  sourceUrls?: string[];
+}
+
+/**
+ * Normalizes a phrase for use as a lookup key.
+ *
+ * @param phrase - The phrase to normalize.
+ * @returns The phrase in lower case, with surrounding and repeated whitespace removed.
+ */
+function normalizePhrase(phrase: string): string {
+  return phrase.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Removes duplicate and empty strings, keeping the first occurrence of each.
+ *
+ * @param values - The strings to deduplicate.
+ * @returns The unique, non-empty strings in their original order.
+ */
+function unique(values: (string | undefined)[]): string[] {
+  return [...new Set(values.map((value) => value?.trim() ?? "").filter(Boolean))];
+}
+
+/**
+ * Creates a provider that looks up phrases with the Free Dictionary API (https://dictionaryapi.dev/).
+ * The API requires no credentials.
+ *
+ * @returns A `DictionaryProvider` backed by the Free Dictionary API.
+ */
+export function createFreeDictionaryProvider(): DictionaryProvider {
+  return {
+    name: "free-dictionary",
+    async lookUp(phrase) {
+      const response = await fetch(`${FREE_DICTIONARY_API_URL}${encodeURIComponent(normalizePhrase(phrase))}`);
+
+      // The API responds with 404 when it has no definitions for the phrase
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Free Dictionary API responded with status ${response.status}.`);
+      }
+
+      const entries = (await response.json()) as FreeDictionaryEntry[];
+      if (!Array.isArray(entries) || entries.length === 0) {
+        return null;
+      }
+
+      const meanings = entries.flatMap((entry) => entry.meanings ?? []);
+      const definitions = meanings.flatMap((meaning) => meaning.definitions ?? []);
+      return {
+        phrase,
+        ipa: unique(entries.flatMap((entry) => [entry.phonetic, ...(entry.phonetics ?? []).map((p) => p.text)]))[0] ?? "",
+        partsOfSpeech: unique(meanings.map((meaning) => meaning.partOfSpeech)),
+        definitions: unique(definitions.map((definition) => definition.definition)),
+        examples: unique(definitions.map((definition) => definition.example)),
+        sourceUrl: unique(entries.flatMap((entry) => entry.sourceUrls ?? []))[0] ?? "",
+      };
+    },
+  };
+}
+
+/**
+ * Creates a provider that looks up phrases in a fixed set of entries, standing in for an online
+ * dictionary in tests and local development. Phrases are matched case-insensitively.
+ *
+ * @param entries - The entries of the dictionary.
+ * @returns A `DictionaryProvider` that works without network access.
+ */
+export function createFixtureDictionaryProvider(entries: DictionaryEntry[]): DictionaryProvider {
+  const entriesByPhrase = new Map(entries.map((entry) => [normalizePhrase(entry.phrase), entry]));
+
+  return {
+    name: "fixture",
+    async lookUp(phrase) {
+      return entriesByPhrase.get(normalizePhrase(phrase)) ?? null;
+    },
+  };
+}
+
+/**
+ * Reads the entries of the fixture dictionary from the file named by `DICTIONARY_FIXTURE_FILE`
+ * (default: "fixtures/dictionary.json"), relative to the working directory.
+ *
+ * @returns The entries of the fixture dictionary.
+ * @throws An error if the file cannot be read or is not a JSON array of entries.
+ */
+function readFixtureEntries(): DictionaryEntry[] {
+  const filePath = path.resolve(process.cwd(), process.env.DICTIONARY_FIXTURE_FILE || "fixtures/dictionary.json");
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(`Dictionary fixture file ${filePath} could not be read: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(entries) || entries.some((entry) => typeof entry?.phrase !== "string")) {
+    throw new Error(`Dictionary fixture file ${filePath} must be a JSON array of entries with a "phrase".`);
+  }
+
+  // Fill in omitted fields, so that fixtures only need to list what they are about
+  return entries.map((entry) => ({
+    ipa: "",
+    partsOfSpeech: [],
+    definitions: [],
+    examples: [],
+    sourceUrl: "",
+    ...entry,
+  }));
+}
+
+/**
+ * Creates a dictionary provider using the dictionary selected by the `DICTIONARY_PROVIDER` environment variable.
+ *
+ * - "fixture": Entries are read from a local file (see `readFixtureEntries`).
+ * - "free-dictionary" (default): Phrases are looked up with the Free Dictionary API.
+ *
+ * @returns A `DictionaryProvider` for the configured dictionary.
+ */
+export function createDictionaryProvider(): DictionaryProvider {
+  return process.env.DICTIONARY_PROVIDER === "fixture"
+    ? createFixtureDictionaryProvider(readFixtureEntries())
+    : createFreeDictionaryProvider();
+}
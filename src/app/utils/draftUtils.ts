@@ -0,0 +1,216 @@
+import type { messagingApi } from "@line/bot-sdk";
+import { findOption } from "./filterUtils";
+import type { WordDraft, WordDraftStep } from "../types/draftTypes";
+
+/**
+ * The fields asked by the wizard, in order.
+ */
+const DRAFT_FIELDS: Exclude<WordDraftStep, "confirm">[] = ["meaning", "example", "category", "url"];
+
+/**
+ * Parses the "add" command into the phrase and any fields given up front.
+ *
+ * The fields may be separated by "|" in the order phrase, meaning, example, categories and URL,
+ * so that a word can be added in a single message (e.g., "add: sulk | to be silent because you are angry").
+ *
+ * @param text - The text following "add" (e.g., ": sulk", " sulk | to be silent ...").
+ * @returns The fields of the new draft, or `null` if no phrase is given.
+ */
+export function parseAddCommand(
+  text: string
+): Pick<WordDraft, "phrase" | "meaning" | "example" | "category" | "url"> | null {
+  const [phrase = "", meaning = "", example = "", category = "", url = ""] = text
+    .replace(/^\s*:/, "")
+    .split("|")
+    .map((part) => part.trim());
+  if (!phrase) {
+    return null;
+  }
+  return {
+    phrase,
+    meaning,
+    example,
+    category: category.split(",").map((name) => name.trim()).filter(Boolean),
+    url,
+  };
+}
+
+/**
+ * Returns the step following the given step, skipping fields that have already been filled in.
+ *
+ * @param draft - The draft being filled in.
+ * @param after - The step just completed, or `null` to find the first step.
+ * @returns The next step, or "confirm" if every field has been asked.
+ */
+export function getNextDraftStep(draft: WordDraft, after: WordDraftStep | null): WordDraftStep {
+  const start = after ? DRAFT_FIELDS.indexOf(after as Exclude<WordDraftStep, "confirm">) + 1 : 0;
+  const next = DRAFT_FIELDS.slice(start).find((field) =>
+    field === "category" ? draft.category.length === 0 : !draft[field]
+  );
+  return next ?? "confirm";
+}
+
+/**
+ * Applies the user's answer to the current step of the draft.
+ * Every step except "meaning" can be skipped by answering "skip", and the dictionary's suggestion for the step
+ * can be accepted by answering "dictionary".
+ *
+ * @param draft - The draft being filled in. Updated in place.
+ * @param input - The text typed by the user.
+ * @param categories - The categories defined in the deck, used to reuse the existing spelling of a category.
+ * @returns An error message if the answer is invalid, otherwise `null`.
+ */
+export function applyDraftInput(draft: WordDraft, input: string, categories: string[]): string | null {
+  const value = input.trim();
+  const skipped = value.toLowerCase() === "skip";
+
+  // Accept the value suggested by the dictionary
+  const suggestion = draft.step === "confirm" ? undefined : draft.suggestions[draft.step];
+  if (value.toLowerCase() === "dictionary" && suggestion !== undefined) {
+    Object.assign(draft, { [draft.step]: suggestion });
+    return null;
+  }
+
+  switch (draft.step) {
+    case "meaning":
+      if (skipped || !value) {
+        return "The meaning is required. Please type the meaning of the phrase.";
+      }
+      draft.meaning = value;
+      return null;
+    case "example":
+      draft.example = skipped ? "" : value;
+      return null;
+    case "category":
+      draft.category = skipped
+        ? []
+        : value
+            .split(",")
+            .map((name) => name.trim())
+            .filter(Boolean)
+            .map((name) => findOption(name, categories) ?? name); // Reuse existing categories to avoid near-duplicates
+      return null;
+    case "url":
+      if (!skipped && !/^https?:\/\/\S+$/i.test(value)) {
+        return 'Please type a URL starting with "http://" or "https://", or "skip".';
+      }
+      draft.url = skipped ? "" : value;
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Formats the question asked for the current step of the draft.
+ *
+ * @param draft - The draft being filled in.
+ * @returns The question text.
+ */
+export function formatDraftPrompt(draft: WordDraft): string {
+  // Show the dictionary's suggestion for the field being asked
+  if (draft.step !== "confirm") {
+    const suggestion = draft.suggestions[draft.step];
+    if (suggestion !== undefined) {
+      const text = Array.isArray(suggestion) ? suggestion.join(", ") : suggestion;
+      return `${formatDraftQuestion(draft)}\n\n📖 Dictionary:\n${text}\n\nSend "dictionary" to use it.`;
+    }
+  }
+  return formatDraftQuestion(draft);
+}
+
+/**
+ * Formats the question asked for the current step of the draft, without any suggestion.
+ *
+ * @param draft - The draft being filled in.
+ * @returns The question text.
+ */
+function formatDraftQuestion(draft: WordDraft): string {
+  switch (draft.step) {
+    case "meaning":
+      return `✍️ Adding "${draft.phrase}" to ${draft.deckName}.\nWhat does it mean?`;
+    case "example":
+      return "Type an example sentence, or \"skip\".";
+    case "category":
+      return "Type the categories separated by commas (e.g., Verb, Noun), or \"skip\".";
+    case "url":
+      return "Type a reference URL, or \"skip\".";
+    case "confirm":
+      return `Save "${draft.phrase}" to ${draft.deckName}?`;
+  }
+}
+
+/**
+ * Converts a draft into a Flex Message Bubble previewing the word before it is saved.
+ *
+ * @param draft - The draft to preview.
+ * @returns A FlexBubble object representing the fields of the new word.
+ */
+export function formatDraftFlexMessage(draft: WordDraft): messagingApi.FlexBubble {
+  // Helper function to create a row in the Flex Message body
+  const createRow = (label: string, value: string): messagingApi.FlexBox => ({
+    type: "box",
+    layout: "horizontal",
+    paddingTop: "sm",
+    contents: [
+      {
+        type: "text",
+        text: `${label}:`,
+        size: "sm",
+        color: "#c7d5e0",
+        flex: 2,
+      },
+      {
+        type: "text",
+        text: value || "-",
+        size: "md",
+        color: "#ffffff",
+        flex: 3,
+        wrap: true,
+      },
+    ],
+  });
+
+  return {
+    type: "bubble",
+    styles: {
+      body: { backgroundColor: "#2b3a42" },
+      header: { backgroundColor: "#2b3a42" },
+    },
+    header: {
+      type: "box",
+      layout: "vertical",
+      paddingBottom: "none",
+      contents: [
+        {
+          type: "text",
+          text: `New word in ${draft.deckName}`,
+          size: "sm",
+          color: "#c7d5e0",
+        },
+        {
+          type: "text",
+          text: draft.phrase,
+          weight: "bold",
+          size: draft.phrase.length > 20 ? "md" : "lg",
+          color: "#ffffff",
+          wrap: true,
+        },
+      ],
+    },
+    body: {
+      type: "box",
+      layout: "vertical",
+      contents: [
+        createRow("Meaning", draft.meaning),
+        { type: "separator", margin: "sm" },
+        createRow("Example", draft.example),
+        { type: "separator", margin: "sm" },
+        createRow("Category", draft.category.join(", ")),
+        { type: "separator", margin: "sm" },
+        createRow("URL", draft.url),
+        ...(draft.ipa ? [{ type: "separator", margin: "sm" } as const, createRow("IPA", draft.ipa)] : []),
+      ],
+    },
+  };
+}
@@ -0,0 +1,171 @@
+import type { messagingApi } from "@line/bot-sdk";
+import { findOption } from "./filterUtils";
+import type { NotionPage } from "../types/notionTypes";
+import type { EditableField, WordEdit } from "../types/editTypes";
+
+/**
+ * Display names of the fields that can be edited, in the order they are offered.
+ */
+export const EDITABLE_FIELD_LABELS: Record<EditableField, string> = {
+  meaning: "Meaning",
+  example: "Example",
+  category: "Category",
+  pronunciationCheck: "Pronunciation",
+};
+
+/**
+ * Checks if a given value is a field that can be edited.
+ *
+ * @param value - The value to check (e.g., a field received in postback data).
+ * @returns True if the value is an `EditableField`, false otherwise.
+ */
+export function isEditableField(value: string): value is EditableField {
+  return value in EDITABLE_FIELD_LABELS;
+}
+
+/**
+ * Applies the new value typed by the user to an edit.
+ *
+ * @param edit - The edit in progress. Updated in place.
+ * @param input - The text typed by the user.
+ * @param categories - The categories defined in the deck, used to reuse the existing spelling of a category.
+ * @returns An error message if the value is invalid, otherwise `null`.
+ */
+export function applyEditInput(edit: WordEdit, input: string, categories: string[]): string | null {
+  const value = input.trim();
+
+  switch (edit.field) {
+    case "meaning":
+      if (!value) {
+        return "The meaning cannot be empty. Please type the new meaning.";
+      }
+      edit.value = value;
+      return null;
+    case "example":
+      edit.value = value.toLowerCase() === "clear" ? "" : value;
+      return null;
+    case "category":
+      edit.value = value.toLowerCase() === "clear"
+        ? []
+        : value
+            .split(",")
+            .map((name) => name.trim())
+            .filter(Boolean)
+            .map((name) => findOption(name, categories) ?? name); // Reuse existing categories to avoid near-duplicates
+      return null;
+    case "pronunciationCheck":
+      if (!["on", "off", "yes", "no"].includes(value.toLowerCase())) {
+        return 'Please answer "on" or "off".';
+      }
+      edit.value = ["on", "yes"].includes(value.toLowerCase());
+      return null;
+  }
+}
+
+/**
+ * Formats the question asking for the new value of the field being edited.
+ *
+ * @param word - The word being edited.
+ * @param field - The field being edited.
+ * @returns The question text.
+ */
+export function formatEditPrompt(word: NotionPage, field: EditableField): string {
+  switch (field) {
+    case "meaning":
+      return `Type the new meaning of "${word.properties.phrase}".`;
+    case "example":
+      return `Type the new example sentences of "${word.properties.phrase}" (one per line), or "clear" to remove them.`;
+    case "category":
+      return `Type the new categories of "${word.properties.phrase}" separated by commas, or "clear" to remove them.`;
+    case "pronunciationCheck":
+      return `Should the pronunciation of "${word.properties.phrase}" be flagged for practice? Answer "on" or "off".`;
+  }
+}
+
+/**
+ * Formats the value of an editable field for display.
+ *
+ * @param value - The value of the field.
+ * @returns A human-readable string.
+ */
+function formatFieldValue(value: WordEdit["value"]): string {
+  if (typeof value === "boolean") {
+    return value ? "⚠️ Issue" : "✅ OK";
+  }
+  if (Array.isArray(value)) {
+    return value.join(", ");
+  }
+  return value ?? "";
+}
+
+/**
+ * Converts an edit into a Flex Message Bubble comparing the current and new values of the field,
+ * shown for confirmation before the change is written to Notion.
+ *
+ * @param word - The word being edited.
+ * @param edit - The edit to preview. Must have a new value.
+ * @returns A FlexBubble object representing the change.
+ */
+export function formatEditFlexMessage(word: NotionPage, edit: WordEdit): messagingApi.FlexBubble {
+  // Helper function to create a row in the Flex Message body
+  const createRow = (label: string, value: string, valueColor: string): messagingApi.FlexBox => ({
+    type: "box",
+    layout: "horizontal",
+    paddingTop: "sm",
+    contents: [
+      {
+        type: "text",
+        text: `${label}:`,
+        size: "sm",
+        color: "#c7d5e0",
+        flex: 2,
+      },
+      {
+        type: "text",
+        text: value || "-",
+        size: "md",
+        color: valueColor,
+        flex: 3,
+        wrap: true,
+      },
+    ],
+  });
+
+  return {
+    type: "bubble",
+    styles: {
+      body: { backgroundColor: "#2b3a42" },
+      header: { backgroundColor: "#2b3a42" },
+    },
+    header: {
+      type: "box",
+      layout: "vertical",
+      paddingBottom: "none",
+      contents: [
+        {
+          type: "text",
+          text: `Edit ${EDITABLE_FIELD_LABELS[edit.field]}`,
+          size: "sm",
+          color: "#c7d5e0",
+        },
+        {
+          type: "text",
+          text: word.properties.phrase,
+          weight: "bold",
+          size: word.properties.phrase.length > 20 ? "md" : "lg",
+          color: "#ffffff",
+          wrap: true,
+        },
+      ],
+    },
+    body: {
+      type: "box",
+      layout: "vertical",
+      contents: [
+        createRow("Before", formatFieldValue(word.properties[edit.field]), "#c7d5e0"),
+        { type: "separator", margin: "sm" },
+        createRow("After", formatFieldValue(edit.value), "#ffffff"),
+      ],
+    },
+  };
+}
@@ -0,0 +1,168 @@
+import type { messagingApi } from "@line/bot-sdk";
+import { createDictionaryProvider } from "./dictionaryProviderUtils";
+import { findOption } from "./filterUtils";
+import type { NotionPageProperties } from "../types/notionTypes";
+import type { DictionaryEntry, EnrichableField, WordEnrichment } from "../types/dictionaryTypes";
+
+/**
+ * The maximum number of definitions and example sentences suggested for a word.
+ */
+const MAX_SUGGESTED_DEFINITIONS = 2;
+const MAX_SUGGESTED_EXAMPLES = 2;
+
+/**
+ * Display names of the fields that can be filled in from the dictionary, in display order.
+ */
+export const ENRICHABLE_FIELD_LABELS: Record<EnrichableField, string> = {
+  ipa: "IPA",
+  meaning: "Meaning",
+  example: "Example",
+  category: "Category",
+  url: "URL",
+};
+
+/**
+ * The dictionary used to look up phrases.
+ */
+const dictionaryProvider = createDictionaryProvider();
+
+/**
+ * Looks up a phrase in the configured dictionary.
+ *
+ * @param phrase - The phrase to look up.
+ * @returns A promise that resolves to the entry, or `null` if the dictionary has no entry for the phrase.
+ * @throws An error if the dictionary cannot be reached.
+ */
+export async function lookUpPhrase(phrase: string): Promise<DictionaryEntry | null> {
+  try {
+    return await dictionaryProvider.lookUp(phrase);
+  } catch (error) {
+    console.error(`Failed to look up "${phrase}" with ${dictionaryProvider.name}:`, error);
+    throw new Error("Failed to look up the phrase.");
+  }
+}
+
+/**
+ * Converts a dictionary entry into values for the fields of a Notion page.
+ * Several definitions or examples are put on separate lines, as in the Notion pages written by hand.
+ *
+ * @param entry - The dictionary entry.
+ * @param categories - The categories defined in the deck, used to reuse the existing spelling of a part of speech.
+ * @returns The suggested value of every field. Empty values indicate that the dictionary has nothing to suggest.
+ */
+export function suggestFieldValues(
+  entry: DictionaryEntry,
+  categories: string[]
+): Pick<NotionPageProperties, EnrichableField> {
+  return {
+    ipa: entry.ipa,
+    meaning: entry.definitions.slice(0, MAX_SUGGESTED_DEFINITIONS).join("\n"),
+    example: entry.examples.slice(0, MAX_SUGGESTED_EXAMPLES).join("\n"),
+    category: entry.partsOfSpeech.map(
+      (name) => findOption(name, categories) ?? name.charAt(0).toUpperCase() + name.slice(1) // e.g., "verb" -> "Verb"
+    ),
+    url: entry.sourceUrl,
+  };
+}
+
+/**
+ * Selects the suggested values that would fill in empty fields of a word.
+ * Fields that already have a value are never overwritten.
+ *
+ * @param properties - The current properties of the word.
+ * @param suggestions - The values suggested by the dictionary (see `suggestFieldValues`).
+ * @param fields - The fields that may be filled in (e.g., the fields mapped to a Notion column).
+ * @returns The values to write, keyed by field. Empty if there is nothing to fill in.
+ */
+export function findMissingValues(
+  properties: Pick<NotionPageProperties, EnrichableField>,
+  suggestions: Pick<NotionPageProperties, EnrichableField>,
+  fields: EnrichableField[]
+): WordEnrichment["values"] {
+  const values: WordEnrichment["values"] = {};
+  for (const field of fields) {
+    if (field === "category") {
+      if (properties.category.length === 0 && suggestions.category.length > 0) {
+        values.category = suggestions.category;
+      }
+    } else if (!properties[field] && suggestions[field]) {
+      values[field] = suggestions[field];
+    }
+  }
+  return values;
+}
+
+/**
+ * Converts the values suggested for a word into a Flex Message Bubble,
+ * shown for confirmation before they are written to Notion.
+ *
+ * @param phrase - The phrase of the word.
+ * @param values - The values to preview (see `findMissingValues`).
+ * @returns A FlexBubble object listing the fields that would be filled in.
+ */
+export function formatEnrichmentFlexMessage(phrase: string, values: WordEnrichment["values"]): messagingApi.FlexBubble {
+  // Helper function to create a row in the Flex Message body
+  const createRow = (label: string, value: string): messagingApi.FlexBox => ({
+    type: "box",
+    layout: "horizontal",
+    paddingTop: "sm",
+    contents: [
+      {
+        type: "text",
+        text: `${label}:`,
+        size: "sm",
+        color: "#c7d5e0",
+        flex: 2,
+      },
+      {
+        type: "text",
+        text: value || "-",
+        size: "md",
+        color: "#ffffff",
+        flex: 3,
+        wrap: true,
+      },
+    ],
+  });
+
+  const rows = (Object.keys(ENRICHABLE_FIELD_LABELS) as EnrichableField[])
+    .filter((field) => values[field] !== undefined)
+    .map((field) => {
+      const value = values[field]!;
+      return createRow(ENRICHABLE_FIELD_LABELS[field], Array.isArray(value) ? value.join(", ") : value);
+    });
+
+  return {
+    type: "bubble",
+    styles: {
+      body: { backgroundColor: "#2b3a42" },
+      header: { backgroundColor: "#2b3a42" },
+    },
+    header: {
+      type: "box",
+      layout: "vertical",
+      paddingBottom: "none",
+      contents: [
+        {
+          type: "text",
+          text: "📖 From the dictionary",
+          size: "sm",
+          color: "#c7d5e0",
+        },
+        {
+          type: "text",
+          text: phrase,
+          weight: "bold",
+          size: phrase.length > 20 ? "md" : "lg",
+          color: "#ffffff",
+          wrap: true,
+        },
+      ],
+    },
+    body: {
+      type: "box",
+      layout: "vertical",
+      contents: rows.flatMap((row, index) => (index > 0 ? [{ type: "separator", margin: "sm" } as const, row] : [row])),
+    },
+  };
+}
@@ -0,0 +1,98 @@
+import type { DailyProgressRecord } from "../types/analyticsTypes";
+import type { AudioFile } from "../types/audioTypes";
+import type { NotionPage } from "../types/notionTypes";
+import type { ReviewHistoryEntry } from "../types/exportTypes";
+
+/**
+ * The columns of the review history in CSV format, in order.
+ */
+const HISTORY_CSV_COLUMNS: (keyof ReviewHistoryEntry)[] = ["date", "phrase", "rating", "direction", "deck", "reviewedAt", "pageId"];
+
+/**
+ * Lists every rating recorded in the progress documents of a learner.
+ *
+ * @param records - The progress documents of the learner, in any order.
+ * @returns The ratings in chronological order.
+ */
+export function listReviewHistory(records: DailyProgressRecord[]): ReviewHistoryEntry[] {
+  return records
+    .flatMap((record) =>
+      record.studiedWords.map((studied) => ({
+        date: record.date,
+        phrase: studied.phrase,
+        rating: studied.memorized,
+        direction: studied.direction ?? "Recognition",
+        deck: studied.deckName ?? "",
+        reviewedAt: studied.updatedAt,
+        pageId: studied.pageId,
+      }))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.reviewedAt.localeCompare(b.reviewedAt));
+}
+
+// Helper function to quote a CSV field if it contains a separator, a quote or a line break (RFC 4180).
+// Fields that spreadsheets would run as a formula are prefixed with a single quote so that they are shown as text.
+function escapeCsvField(value: string): string {
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats the review history as CSV, with a header row.
+ *
+ * @param entries - The ratings to export.
+ * @returns The CSV text, with CRLF line endings.
+ */
+export function formatReviewHistoryCsv(entries: ReviewHistoryEntry[]): string {
+  const rows = [
+    HISTORY_CSV_COLUMNS,
+    ...entries.map((entry) => HISTORY_CSV_COLUMNS.map((column) => entry[column])),
+  ];
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// Helper function to turn plain text into a single-line HTML field of an Anki note
+function toAnkiField(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\t/g, " ")
+    .replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Formats words as a tab-separated file that Anki imports as "Basic" notes into the given deck.
+ *
+ * - Front: The phrase, followed by a `[sound:...]` reference to its audio if it has been synthesized.
+ *   The audio files must be copied into Anki's media folder under the same name for the references to play.
+ * - Back: The IPA, meaning and example, one per line.
+ * - Tags: The categories of the word, with spaces replaced by underscores.
+ *
+ * @param deckName - The name of the Anki deck to import the notes into.
+ * @param cards - The words, each with the audio of its phrase, or `null` if none has been synthesized.
+ * @returns The TSV text, starting with the header lines that configure the import.
+ */
+export function formatAnkiTsv(deckName: string, cards: { word: NotionPage; audioFile: AudioFile | null }[]): string {
+  const header = [
+    "#separator:tab",
+    "#html:true",
+    "#notetype:Basic",
+    `#deck:${deckName.replace(/[\r\n]+/g, " ")}`,
+    "#columns:Front\tBack\tTags",
+    "#tags column:3",
+  ];
+
+  const rows = cards.map(({ word, audioFile }) => {
+    const { phrase, ipa, meaning, example, category } = word.properties;
+    const front = toAnkiField(phrase) + (audioFile ? ` [sound:${audioFile.key}]` : "");
+    const back = [toAnkiField(ipa), toAnkiField(meaning), example && `<i>${toAnkiField(example)}</i>`]
+      .filter(Boolean)
+      .join("<br><br>");
+    const tags = category.map((option) => option.trim().replace(/\s+/g, "_")).filter(Boolean).join(" ");
+    return [front, back, tags].join("\t");
+  });
+
+  return [...header, ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,76 @@
+import { normalizeAnswer, stemWord } from "./answerUtils";
+import type { StudyFilter, StudyFilterOptions } from "../types/filterTypes";
+
+/**
+ * The memorization levels that can be used to filter words.
+ */
+const MEMORIZATION_LEVELS = ["Never Better", "Good", "So So", "Not At All"];
+
+/**
+ * Normalizes a name for lenient matching, ignoring case, punctuation and inflection (e.g., "verbs" matches "Verb").
+ *
+ * @param name - The name to normalize.
+ * @returns The normalized name.
+ */
+function normalizeName(name: string): string {
+  return normalizeAnswer(name).split(" ").map(stemWord).join(" ");
+}
+
+/**
+ * Finds the option whose name matches the given text, ignoring case, punctuation and inflection.
+ *
+ * @param text - The text typed by the user.
+ * @param options - The option names to search.
+ * @returns The matching option name, or `undefined` if no option matches.
+ */
+export function findOption(text: string, options: string[]): string | undefined {
+  const normalized = normalizeName(text);
+  return options.find((option) => normalizeName(option) === normalized);
+}
+
+/**
+ * Parses the target of a "study" command into a filter.
+ *
+ * The target is matched, in order, against the memorization levels (e.g., "only Not At All"),
+ * the categories (e.g., "verbs") and the movies (e.g., "Inception") defined in the decks being studied.
+ *
+ * @param target - The text following the command (e.g., "verbs", "only Not At All").
+ * @param options - The categories and movies available in the decks being studied.
+ * @returns The `StudyFilter`, or `null` if the target does not match any level, category or movie.
+ */
+export function parseStudyFilter(target: string, options: StudyFilterOptions): StudyFilter | null {
+  const text = target.replace(/^only\s+/i, "");
+
+  const level = findOption(text, MEMORIZATION_LEVELS);
+  if (level) {
+    return { field: "memorized", value: level };
+  }
+  const category = findOption(text, options.category);
+  if (category) {
+    return { field: "category", value: category };
+  }
+  const movie = findOption(text, options.movie);
+  if (movie) {
+    return { field: "movie", value: movie };
+  }
+  return null;
+}
+
+/**
+ * Formats a filter into a short description for the user.
+ *
+ * @param filter - The filter to format.
+ * @returns A string such as "Category: Verb" or "Pronunciation drills".
+ */
+export function formatStudyFilter(filter: StudyFilter): string {
+  switch (filter.field) {
+    case "category":
+      return `Category: ${filter.value}`;
+    case "movie":
+      return `Movie: ${filter.value}`;
+    case "memorized":
+      return `Memorized: ${filter.value}`;
+    case "pronunciationCheck":
+      return "Pronunciation drills";
+  }
+}
@@ -1,72 +1,5 @@
-import { doc, getDoc, updateDoc, arrayUnion, increment, setDoc, serverTimestamp } from "firebase/firestore";
 import { getAuth, signInWithEmailAndPassword, onAuthStateChanged, signOut } from "firebase/auth";
-import { firestore } from "../constants/firebaseConfig";
-
-// Helper function to get the date in "YYYY-MM-DD" format
-function getCurrentDate(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, "0");
-  const day = String(now.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
-}
-
-/**
- * Saves the current learning progress to Firestore.
- * 
- * @param wordData - The word information being studied.
- * @param memorizedStatus - The memorization status: "Never Better", "Good", "So So", "Not At All".
- */
-export async function saveLearningProgress(
-  wordData: { pageId: string; phrase: string },
-  memorizedStatus: "Never Better" | "Good" | "So So" | "Not At All"
-) {
-  const date = getCurrentDate(); // Get the current date automatically
-
-  try {
-    const progressRef = doc(firestore, "learningProgress", date);
-    const progressDoc = await getDoc(progressRef);
-
-    // Ensure the document exists (initialize if not)
-    if (!progressDoc.exists()) {
-      await setDoc(
-        progressRef,
-        {
-          totalStudied: 0,
-          memorized: {
-            "Never Better": 0,
-            "Good": 0,
-            "So So": 0,
-            "Not At All": 0,
-          },
-          studiedWords: [],
-          lastUpdated: new Date().toISOString(),
-          createdAt: serverTimestamp(),
-        },
-        { merge: true } // Merge only if the document doesn't exist
-      );
-      console.log(`Document for ${date} initialized.`);
-    }
-
-    // Update the learning progress
-    await updateDoc(progressRef, {
-      totalStudied: increment(1), // Increment total studied count
-      [`memorized.${memorizedStatus}`]: increment(1), // Increment specific memorized status
-      studiedWords: arrayUnion({
-        pageId: wordData.pageId,
-        phrase: wordData.phrase,
-        memorized: memorizedStatus,
-        updatedAt: new Date().toISOString(),
-      }),
-      lastUpdated: new Date().toISOString(),
-    });
-
-    console.log("Learning progress saved successfully.");
-  } catch (error) {
-    console.error("Error saving learning progress:", error);
-    throw new Error("Failed to save learning progress.");
-  }
-}
+import "../constants/firebaseConfig"; // Initializes the Firebase app used by `getAuth`
 
 /**
  * Logs in a user with email and password.
@@ -80,14 +13,52 @@ export async function loginUser(email: string, password: string): Promise<void>
 }
 
 /**
- * Logs out the current user.
+ * Logs out the current user, ending their dashboard session.
  * @returns Promise<void>
  */
 export async function logoutUser(): Promise<void> {
   const auth = getAuth();
+  await fetch("/api/session", { method: "DELETE" });
   await signOut(auth);
 }
 
+/**
+ * Starts a dashboard session for the signed-in user by exchanging their ID token for a session cookie,
+ * which the server checks before serving the dashboard pages and API routes.
+ * @returns Promise resolving to true if the session was started, or false if the user may not use the dashboard.
+ * @throws An error if no user is signed in or the session cannot be started.
+ */
+export async function startSession(): Promise<boolean> {
+  const idToken = await getIdToken();
+  if (!idToken) {
+    throw new Error("Failed to start session: no user is signed in.");
+  }
+
+  const response = await fetch("/api/session", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ idToken }),
+  });
+  if (response.status === 403) {
+    return false;
+  }
+  if (!response.ok) {
+    console.error(`Error starting session: ${response.status} ${await response.text()}`);
+    throw new Error("Failed to start session.");
+  }
+  return true;
+}
+
+/**
+ * Returns the ID token of the signed-in user, sent to the dashboard API routes to authenticate requests.
+ * The token is refreshed automatically when it is about to expire.
+ * @returns Promise resolving to the ID token, or `null` if no user is signed in.
+ */
+export async function getIdToken(): Promise<string | null> {
+  const auth = getAuth();
+  return auth.currentUser ? auth.currentUser.getIdToken() : null;
+}
+
 /**
  * Observes the user's authentication state.
  * @param callback - Callback function to handle the user's authentication state.
@@ -1,6 +1,7 @@
-import { FlexBox, FlexBubble } from "@line/bot-sdk";
+import type { messagingApi } from "@line/bot-sdk";
 import { ButtonLabel } from "../constants/buttons";
-import type { NotionPage, NotionPageProperties } from "../types/notionTypes";
+import { formatRichTextLine, splitRichTextLines } from "./richTextUtils";
+import type { NotionPage, NotionPageProperties, RichTextSegment } from "../types/notionTypes";
 
 /**
  * Returns a string combining an emoji icon and the corresponding ButtonLabel text.
@@ -22,6 +23,18 @@ export function getIconAndLabel(label: ButtonLabel): string {
     [ButtonLabel.Good]: "👍", // Icon for the "Good" button
     [ButtonLabel.SoSo]: "💦", // Icon for the "So So" button
     [ButtonLabel.NotAtAll]: "💣", // Icon for the "Not At All" button
+    [ButtonLabel.Quiz]: "🎯", // Icon for the "Quiz" button
+    [ButtonLabel.Answer]: "✏️", // Icon for a quiz answer
+    [ButtonLabel.Reverse]: "🔁", // Icon for the "Reverse" button
+    [ButtonLabel.Cloze]: "🧩", // Icon for the "Cloze" button
+    [ButtonLabel.Decks]: "📚", // Icon for the "Decks" button
+    [ButtonLabel.SelectDeck]: "▶️", // Icon for a deck selected in the deck switcher
+    [ButtonLabel.ToggleDeck]: "🔀", // Icon for a deck toggled in the deck switcher
+    [ButtonLabel.Edit]: "🖊", // Icon for the "Edit" button
+    [ButtonLabel.EditField]: "📝", // Icon for a field selected to be edited
+    [ButtonLabel.LookUp]: "📖", // Icon for the "Look Up" button
+    [ButtonLabel.Start]: "🚀", // Icon for the "Start" button
+    [ButtonLabel.Finish]: "🏁", // Icon for the "Finish" button
   };
 
   // Combine the icon and label text
@@ -75,7 +88,7 @@ export function formatMessage(properties: NotionPageProperties): string {
  * @param page - The Notion page containing properties to be formatted.
  * @returns A FlexBubble object representing the page details in a structured format.
  */
-export function formatFlexMessage(page: NotionPage): FlexBubble {
+export function formatFlexMessage(page: NotionPage): messagingApi.FlexBubble {
   const properties = page.properties;
 
   // Get the memorization status label
@@ -92,7 +105,7 @@ export function formatFlexMessage(page: NotionPage): FlexBubble {
     : null;
 
   // Helper function to create a row in the Flex Message body
-  const createRow = (label: string, value: string, valueColor: string = "#ffffff"): FlexBox => ({
+  const createRow = (label: string, value: string, valueColor: string = "#ffffff"): messagingApi.FlexBox => ({
     type: "box",
     layout: "horizontal",
     paddingTop: "sm",
@@ -115,6 +128,36 @@ export function formatFlexMessage(page: NotionPage): FlexBubble {
     ],
   });
 
+  // Helper function to create a row whose value is rich text, rendering each line as styled spans
+  // and prefixing lines with bullets when the value has several lines (e.g., multiple example sentences)
+  const createRichTextRow = (label: string, richText: RichTextSegment[]): messagingApi.FlexBox => {
+    const lines = splitRichTextLines(richText);
+    if (lines.length === 0) {
+      return createRow(label, "");
+    }
+    return {
+      type: "box",
+      layout: "horizontal",
+      paddingTop: "sm",
+      contents: [
+        {
+          type: "text",
+          text: `${label}:`,
+          size: "sm",
+          color: "#c7d5e0",
+          flex: 2,
+        },
+        {
+          type: "box",
+          layout: "vertical",
+          flex: 3,
+          spacing: "xs",
+          contents: lines.map((line) => formatRichTextLine(line, lines.length > 1 ? "• " : "")),
+        },
+      ],
+    };
+  };
+
   return {
     type: "bubble",
     styles: {
@@ -135,15 +178,19 @@ export function formatFlexMessage(page: NotionPage): FlexBubble {
           color: "#ffffff",
           wrap: true,
         },
+        // Show the pronunciation below the phrase, if recorded
+        ...(properties.ipa
+          ? [{ type: "text", text: properties.ipa, size: "sm", color: "#c7d5e0", wrap: true } as const]
+          : []),
       ],
     },
     body: {
       type: "box",
       layout: "vertical",
       contents: [
-        createRow("Meaning", properties.meaning),
+        createRichTextRow("Meaning", page.richText.meaning),
         { type: "separator", margin: "sm" },
-        createRow("Example", properties.example),
+        createRichTextRow("Example", page.richText.example),
         { type: "separator", margin: "sm" },
         createRow(
           "Pronunciation",
@@ -165,6 +212,8 @@ export function formatFlexMessage(page: NotionPage): FlexBubble {
         ),
         { type: "separator", margin: "sm" },
         createRow("Memorized", memorizedLabel),
+        { type: "separator", margin: "sm" },
+        createRow("Next Review", properties.nextReview || "Not scheduled yet."),
       ],
     },
     footer: {
@@ -0,0 +1,208 @@
+import { FieldPath, FieldValue } from "firebase-admin/firestore";
+import { adminFirestore } from "../constants/firebaseAdminConfig";
+import { getLocalDate } from "./timeUtils";
+import type { ReviewSchedule } from "../types/scheduleTypes";
+import type { CardDirection } from "../types/cardTypes";
+import type { Deck } from "../types/deckTypes";
+import type { DailyProgress } from "../types/progressTypes";
+import type { DailyProgressRecord } from "../types/analyticsTypes";
+
+// Helper function to get the progress document of a user on a date ("users/{lineUserId}/progress/{localDate}")
+function getProgressRef(userId: string, date: string) {
+  return adminFirestore.collection("users").doc(userId).collection("progress").doc(date);
+}
+
+/**
+ * Saves the current learning progress of a user to Firestore.
+ * The user is registered in the "users" collection with their latest time zone.
+ * Progress is kept in one document per user and day, keyed by the date in the user's time zone,
+ * so that studying late in the evening counts towards the user's own day rather than the server's.
+ * Counts are kept both in total and per card direction, so that recognition and recall are measured independently,
+ * and per deck, keyed by the database ID of the deck the word was drawn from.
+ * 
+ * @param userId - The LINE user ID of the learner.
+ * @param timeZone - The IANA time zone of the user (e.g., "Asia/Tokyo").
+ * @param wordData - The word information being studied.
+ * @param memorizedStatus - The memorization status: "Never Better", "Good", "So So", "Not At All".
+ * @param direction - The direction in which the word was asked: "Recognition", "Reverse", "Cloze".
+ * @param deck - The deck the word was drawn from, or `null` if it is unknown.
+ * @returns A promise that resolves to the number of words the user had studied that day before this one.
+ */
+export async function saveLearningProgress(
+  userId: string,
+  timeZone: string,
+  wordData: { pageId: string; phrase: string },
+  memorizedStatus: "Never Better" | "Good" | "So So" | "Not At All",
+  direction: CardDirection,
+  deck: Deck | null
+): Promise<number> {
+  const date = getLocalDate(timeZone); // Get the user's current local date
+
+  try {
+    const progressRef = getProgressRef(userId, date);
+    const progressDoc = await progressRef.get();
+    const studiedBefore: number = progressDoc.exists ? progressDoc.data()?.totalStudied ?? 0 : 0;
+
+    // Ensure the document exists (initialize if not)
+    if (!progressDoc.exists) {
+      await progressRef.set(
+        {
+          totalStudied: 0,
+          memorized: {
+            "Never Better": 0,
+            "Good": 0,
+            "So So": 0,
+            "Not At All": 0,
+          },
+          directions: {},
+          decks: {},
+          studiedWords: [],
+          timeZone,
+          lastUpdated: new Date().toISOString(),
+          createdAt: FieldValue.serverTimestamp(),
+        },
+        { merge: true } // Merge only if the document doesn't exist
+      );
+      console.log(`Progress document for user ${userId} on ${date} initialized.`);
+    }
+
+    // Update the learning progress
+    await progressRef.update({
+      totalStudied: FieldValue.increment(1), // Increment total studied count
+      [`memorized.${memorizedStatus}`]: FieldValue.increment(1), // Increment specific memorized status
+      [`directions.${direction}.totalStudied`]: FieldValue.increment(1), // Increment total studied count for the direction
+      [`directions.${direction}.memorized.${memorizedStatus}`]: FieldValue.increment(1), // Increment memorized status for the direction
+      ...(deck && {
+        [`decks.${deck.databaseId}.name`]: deck.name, // Latest name of the deck
+        [`decks.${deck.databaseId}.totalStudied`]: FieldValue.increment(1), // Increment total studied count for the deck
+        [`decks.${deck.databaseId}.memorized.${memorizedStatus}`]: FieldValue.increment(1), // Increment memorized status for the deck
+      }),
+      studiedWords: FieldValue.arrayUnion({
+        pageId: wordData.pageId,
+        phrase: wordData.phrase,
+        memorized: memorizedStatus,
+        direction,
+        deckId: deck?.databaseId ?? null,
+        deckName: deck?.name ?? null,
+        updatedAt: new Date().toISOString(),
+      }),
+      timeZone, // Latest time zone of the user
+      lastUpdated: new Date().toISOString(),
+    });
+
+    // Register the learner with their latest time zone
+    await adminFirestore.collection("users").doc(userId).set({ userId, timeZone, lastStudied: date }, { merge: true });
+
+    console.log("Learning progress saved successfully.");
+    return studiedBefore;
+  } catch (error) {
+    console.error("Error saving learning progress:", error);
+    throw new Error("Failed to save learning progress.");
+  }
+}
+
+/**
+ * Loads the learning progress of a user saved on the given date.
+ * 
+ * @param userId - The LINE user ID of the learner.
+ * @param date - The date in the user's time zone, in "YYYY-MM-DD" format (see `getLocalDate`).
+ * @returns A promise that resolves to the progress of the day, or `null` if nothing was studied that day.
+ */
+export async function getLearningProgress(userId: string, date: string): Promise<DailyProgress | null> {
+  try {
+    const progressDoc = await getProgressRef(userId, date).get();
+    if (!progressDoc.exists) {
+      return null;
+    }
+    const { totalStudied, memorized } = progressDoc.data()!;
+    return { totalStudied, memorized };
+  } catch (error) {
+    console.error("Error loading learning progress:", error);
+    throw new Error("Failed to load learning progress.");
+  }
+}
+
+/**
+ * Loads the learning progress of a user saved between two dates.
+ * 
+ * @param userId - The LINE user ID of the learner.
+ * @param from - The first date in the user's time zone, in "YYYY-MM-DD" format.
+ * @param to - The last date in the user's time zone, in "YYYY-MM-DD" format.
+ * @returns A promise that resolves to the progress of the days on which the user studied, in chronological order.
+ */
+export async function getProgressHistory(userId: string, from: string, to: string): Promise<DailyProgressRecord[]> {
+  try {
+    const snapshot = await adminFirestore
+      .collection("users")
+      .doc(userId)
+      .collection("progress")
+      .where(FieldPath.documentId(), ">=", from)
+      .where(FieldPath.documentId(), "<=", to)
+      .get();
+    return snapshot.docs.map((progressDoc) => {
+      const { totalStudied, memorized, studiedWords } = progressDoc.data();
+      return { date: progressDoc.id, totalStudied, memorized, studiedWords: studiedWords ?? [] };
+    });
+  } catch (error) {
+    console.error("Error loading progress history:", error);
+    throw new Error("Failed to load progress history.");
+  }
+}
+
+/**
+ * Loads the review schedules mirrored to Firestore (see `saveReviewSchedule`) of the words in the given decks.
+ * 
+ * @param databaseIds - The database IDs of the decks whose schedules are loaded.
+ * @returns A promise that resolves to the schedule of every word of the decks that has been reviewed.
+ */
+export async function getReviewSchedules(
+  databaseIds: string[]
+): Promise<(ReviewSchedule & { pageId: string; phrase: string })[]> {
+  try {
+    const snapshots = await Promise.all(
+      databaseIds.map((databaseId) =>
+        adminFirestore.collection("reviewSchedules").where("deckId", "==", databaseId).get()
+      )
+    );
+    return snapshots.flatMap((snapshot) =>
+      snapshot.docs.map((scheduleDoc) => {
+        const { pageId, phrase, nextReview, ease, interval } = scheduleDoc.data();
+        return { pageId, phrase, nextReview, ease, interval };
+      })
+    );
+  } catch (error) {
+    console.error("Error loading review schedules:", error);
+    throw new Error("Failed to load review schedules.");
+  }
+}
+
+/**
+ * Mirrors the review schedule of a word to Firestore.
+ * The schedule is stored in the "reviewSchedules" collection, keyed by the Notion page ID,
+ * together with the database ID of the deck the word belongs to.
+ * 
+ * @param wordData - The word information being studied, including the database ID of its deck.
+ * @param schedule - The review schedule computed by the spaced-repetition scheduler.
+ */
+export async function saveReviewSchedule(
+  wordData: { pageId: string; phrase: string; databaseId: string },
+  schedule: ReviewSchedule
+) {
+  try {
+    const scheduleRef = adminFirestore.collection("reviewSchedules").doc(wordData.pageId);
+    await scheduleRef.set({
+      pageId: wordData.pageId,
+      phrase: wordData.phrase,
+      deckId: wordData.databaseId,
+      nextReview: schedule.nextReview,
+      ease: schedule.ease,
+      interval: schedule.interval,
+      lastUpdated: new Date().toISOString(),
+    });
+
+    console.log(`Review schedule for "${wordData.phrase}" saved successfully.`);
+  } catch (error) {
+    console.error("Error saving review schedule:", error);
+    throw new Error("Failed to save review schedule.");
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Bitrates in kbps, indexed by the 4-bit bitrate index of an MPEG audio frame header.
+ */
+const BITRATES = {
+  v1l1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  v1l2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  v1l3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2l1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  v2l2l3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+/**
+ * Sample rates in Hz, keyed by the 2-bit version ID of an MPEG audio frame header
+ * (0: MPEG 2.5, 2: MPEG 2, 3: MPEG 1) and indexed by the 2-bit sample rate index.
+ */
+const SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+/**
+ * Header information of a single MPEG audio frame.
+ */
+interface FrameHeader {
+  frameLength: number; // Length of the frame in bytes, including the header
+  samples: number; // Number of samples in the frame
+  sampleRate: number; // Sample rate in Hz
+}
+
+/**
+ * Returns the offset of the first byte after an ID3v2 tag, or 0 if the buffer does not start with one.
+ *
+ * @param buffer - The MP3 data.
+ * @returns The offset of the first audio frame candidate.
+ */
+function skipId3Tag(buffer: Buffer): number {
+  if (buffer.length < 10 || buffer.toString("latin1", 0, 3) !== "ID3") {
+    return 0;
+  }
+  // The tag size is stored as a 28-bit "syncsafe" integer (7 bits per byte)
+  const size = (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9];
+  const hasFooter = (buffer[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/**
+ * Parses the MPEG audio frame header at the given offset.
+ *
+ * @param buffer - The MP3 data.
+ * @param offset - The offset of the candidate frame header.
+ * @returns The parsed `FrameHeader`, or `null` if the bytes at the offset are not a valid frame header.
+ */
+function parseFrameHeader(buffer: Buffer, offset: number): FrameHeader | null {
+  if (offset + 4 > buffer.length || buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const versionId = (buffer[offset + 1] >> 3) & 0x03; // 0: MPEG 2.5, 1: reserved, 2: MPEG 2, 3: MPEG 1
+  const layerId = (buffer[offset + 1] >> 1) & 0x03; // 1: Layer III, 2: Layer II, 3: Layer I
+  const bitrateIndex = (buffer[offset + 2] >> 4) & 0x0f;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+  const padding = (buffer[offset + 2] >> 1) & 0x01;
+  if (versionId === 1 || layerId === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isVersion1 = versionId === 3;
+  const layer = 4 - layerId;
+  const bitrateTable = isVersion1
+    ? [BITRATES.v1l1, BITRATES.v1l2, BITRATES.v1l3][layer - 1]
+    : layer === 1 ? BITRATES.v2l1 : BITRATES.v2l2l3;
+  const bitrate = bitrateTable[bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[versionId][sampleRateIndex];
+
+  // Layer I frames consist of 4-byte slots, Layer II and III frames of single bytes
+  const samples = layer === 1 ? 384 : layer === 3 && !isVersion1 ? 576 : 1152;
+  const frameLength = layer === 1
+    ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+    : Math.floor((samples / 8) * bitrate / sampleRate) + padding;
+
+  return { frameLength, samples, sampleRate };
+}
+
+/**
+ * Computes the duration of MP3 audio by walking through its frames.
+ *
+ * @param buffer - The MP3 data.
+ * @returns The duration in milliseconds, rounded to the nearest integer. Returns 0 if no frames are found.
+ */
+export function getMp3Duration(buffer: Buffer): number {
+  let offset = skipId3Tag(buffer);
+  let seconds = 0;
+
+  while (offset < buffer.length) {
+    const header = parseFrameHeader(buffer, offset);
+    if (!header) {
+      offset += 1; // Resynchronize on the next byte
+      continue;
+    }
+    seconds += header.samples / header.sampleRate;
+    offset += header.frameLength;
+  }
+
+  return Math.round(seconds * 1000);
+}
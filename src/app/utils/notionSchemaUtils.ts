@@ -0,0 +1,364 @@
+import fs from "fs";
+import path from "path";
+import { PageObjectResponse, UpdatePageParameters } from "@notionhq/client/build/src/api-endpoints";
+import { NOTION_FIELD_DEFINITIONS } from "../constants/notionSchema";
+import { toPlainRichText } from "./richTextUtils";
+import type { NotionPage, NotionPageProperties, RichTextSegment } from "../types/notionTypes";
+import type { NotionField, NotionPropertyMapping, NotionPropertyType, NotionSchema } from "../types/notionSchemaTypes";
+
+/**
+ * A property of a page as returned by the Notion API.
+ */
+type PageProperty = PageObjectResponse["properties"][string];
+
+/**
+ * A property value accepted by the Notion API when updating a page, in its typed object form
+ * (e.g., `{ select: { name: "Good" } }`).
+ */
+type PagePropertyValue = Extract<NonNullable<UpdatePageParameters["properties"]>[string], { type?: NotionPropertyType }>;
+
+/**
+ * The names of all logical fields.
+ */
+const NOTION_FIELDS = Object.keys(NOTION_FIELD_DEFINITIONS) as NotionField[];
+
+/**
+ * Reads the raw schema configuration.
+ *
+ * The configuration is taken from the `NOTION_SCHEMA` environment variable (JSON) if it is set.
+ * Otherwise it is read from the file named by `NOTION_SCHEMA_FILE` (default: "notion-schema.json"),
+ * relative to the working directory. A missing default file means that no field is overridden.
+ *
+ * @returns The parsed configuration.
+ * @throws An error if the configuration is not valid JSON or the configured file does not exist.
+ */
+function readSchemaConfig(): unknown {
+  if (process.env.NOTION_SCHEMA) {
+    try {
+      return JSON.parse(process.env.NOTION_SCHEMA);
+    } catch (error) {
+      throw new Error(`NOTION_SCHEMA environment variable is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+
+  const filePath = path.resolve(process.cwd(), process.env.NOTION_SCHEMA_FILE || "notion-schema.json");
+  if (!fs.existsSync(filePath)) {
+    if (process.env.NOTION_SCHEMA_FILE) {
+      throw new Error(`Notion schema file not found: ${filePath}`);
+    }
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(`Notion schema file ${filePath} is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Resolves a schema configuration into a complete schema.
+ *
+ * The configuration is an object keyed by logical field. Each value is one of:
+ *
+ * - A string: The column name. The default column type of the field (or its first supported type) is kept.
+ * - An object with `name` and optional `type`: The column name and type.
+ * - `null`: The database has no column for the field. Only allowed for optional fields.
+ *
+ * Fields missing from the configuration keep their default mapping.
+ *
+ * @param config - The raw configuration (e.g., `{ "meaning": "意味", "movie": null }`).
+ * @returns The resolved `NotionSchema`.
+ * @throws An error listing every problem found in the configuration.
+ */
+export function resolveNotionSchema(config: unknown): NotionSchema {
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new Error("Notion schema configuration must be a JSON object keyed by field name.");
+  }
+
+  const problems: string[] = [];
+  const schema = Object.fromEntries(
+    NOTION_FIELDS.map((field) => [field, NOTION_FIELD_DEFINITIONS[field].defaultMapping])
+  ) as NotionSchema;
+
+  for (const [field, value] of Object.entries(config)) {
+    // Reject fields that do not exist, which are most likely typos
+    if (!(field in NOTION_FIELD_DEFINITIONS)) {
+      problems.push(`Unknown field "${field}". Supported fields: ${NOTION_FIELDS.join(", ")}.`);
+      continue;
+    }
+    const definition = NOTION_FIELD_DEFINITIONS[field as NotionField];
+
+    if (value === null) {
+      if (definition.required) {
+        problems.push(`Field "${field}" is required and cannot be mapped to null.`);
+      } else {
+        schema[field as NotionField] = null;
+      }
+      continue;
+    }
+
+    const defaultType = definition.defaultMapping?.type ?? definition.supportedTypes[0];
+    const { name, type = defaultType } = typeof value === "string" ? { name: value } : value;
+    if (typeof name !== "string" || !name.trim()) {
+      problems.push(`Field "${field}" must be mapped to a column name or an object with a "name".`);
+      continue;
+    }
+    if (!definition.supportedTypes.includes(type)) {
+      problems.push(
+        `Field "${field}" cannot be mapped to a column of type "${type}". Supported types: ${definition.supportedTypes.join(", ")}.`
+      );
+      continue;
+    }
+    schema[field as NotionField] = { name, type };
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid Notion schema configuration:\n${problems.map((problem) => `- ${problem}`).join("\n")}`);
+  }
+  return schema;
+}
+
+/**
+ * Loads the Notion schema from the configuration (see `readSchemaConfig` and `resolveNotionSchema`).
+ *
+ * @returns The resolved `NotionSchema`.
+ * @throws An error if the configuration cannot be read or is invalid.
+ */
+export function loadNotionSchema(): NotionSchema {
+  return resolveNotionSchema(readSchemaConfig());
+}
+
+/**
+ * Compares a schema with the columns of a Notion database.
+ *
+ * @param schema - The schema to check.
+ * @param databaseProperties - The columns of the database, as returned by `databases.retrieve`.
+ * @returns A list of human-readable problems. An empty list means that the database matches the schema.
+ */
+export function findSchemaProblems(
+  schema: NotionSchema,
+  databaseProperties: Record<string, { type: string }>
+): string[] {
+  const problems: string[] = [];
+
+  for (const field of NOTION_FIELDS) {
+    const mapping = schema[field];
+    if (!mapping) {
+      continue;
+    }
+
+    const column = databaseProperties[mapping.name];
+    if (!column) {
+      problems.push(`Field "${field}" is mapped to column "${mapping.name}", which does not exist.`);
+    } else if (column.type !== mapping.type) {
+      problems.push(
+        `Field "${field}" is mapped to column "${mapping.name}" of type "${mapping.type}", but the column has type "${column.type}".`
+      );
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Reads a page property as plain text.
+ *
+ * @param property - The property, or `undefined` if the page has no matching column.
+ * @returns The text, or an empty string if the property is empty or missing.
+ */
+function readText(property: PageProperty | undefined): string {
+  switch (property?.type) {
+    case "title":
+    case "rich_text":
+      return readRichText(property).map((segment) => segment.text).join("");
+    case "select":
+      return property.select?.name || "";
+    case "status":
+      return property.status?.name || "";
+    case "url":
+      return property.url || "";
+    case "date":
+      return property.date?.start || "";
+    case "created_time":
+      return property.created_time || "";
+    default:
+      return "";
+  }
+}
+
+/**
+ * Reads a page property as rich text, concatenating every item and preserving its formatting.
+ * Properties that do not hold rich text are read as a single plain segment.
+ *
+ * @param property - The property, or `undefined` if the page has no matching column.
+ * @returns The rich text segments, or an empty array if the property is empty or missing.
+ */
+function readRichText(property: PageProperty | undefined): RichTextSegment[] {
+  if (property?.type !== "title" && property?.type !== "rich_text") {
+    return toPlainRichText(readText(property));
+  }
+
+  const items = property.type === "title" ? property.title : property.rich_text;
+  return (items || []).map((item) => ({
+    text: item.plain_text,
+    bold: item.annotations.bold,
+    italic: item.annotations.italic,
+    strikethrough: item.annotations.strikethrough,
+    underline: item.annotations.underline,
+    code: item.annotations.code,
+    link: item.href,
+  }));
+}
+
+/**
+ * Reads a page property as a list of option names.
+ *
+ * @param property - The property, or `undefined` if the page has no matching column.
+ * @returns The option names, or an empty array if the property is empty or missing.
+ */
+function readList(property: PageProperty | undefined): string[] {
+  switch (property?.type) {
+    case "multi_select":
+      return property.multi_select?.map((item) => item.name) || [];
+    case "select":
+      return property.select ? [property.select.name] : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Looks up the property mapped to a logical field.
+ *
+ * @param schema - The schema describing the database columns.
+ * @param properties - The raw properties of the page, as returned by the Notion API.
+ * @param field - The logical field.
+ * @returns The property, or `undefined` if the field is unmapped or the property type differs from the schema.
+ */
+function getMappedProperty(
+  schema: NotionSchema,
+  properties: PageObjectResponse["properties"],
+  field: NotionField
+): PageProperty | undefined {
+  const mapping = schema[field];
+  const property = mapping ? properties[mapping.name] : undefined;
+  return property?.type === mapping?.type ? property : undefined;
+}
+
+/**
+ * Maps the raw properties of a Notion page to its logical fields.
+ *
+ * @param schema - The schema describing the database columns.
+ * @param properties - The raw properties of the page, as returned by the Notion API.
+ * @returns The structured `NotionPageProperties`. Fields that are unmapped or have a mismatched type are left empty.
+ */
+export function readPageProperties(
+  schema: NotionSchema,
+  properties: PageObjectResponse["properties"]
+): NotionPageProperties {
+  const getProperty = (field: NotionField) => getMappedProperty(schema, properties, field);
+
+  const pronunciationCheck = getProperty("pronunciationCheck");
+  const ease = getProperty("ease");
+  const interval = getProperty("interval");
+
+  return {
+    lastStudied: readText(getProperty("lastStudied")), // Date of the last study session
+    pronunciationCheck: pronunciationCheck?.type === "checkbox" ? pronunciationCheck.checkbox : false, // Whether pronunciation has been checked
+    movie: readList(getProperty("movie")), // List of associated movie names
+    url: readText(getProperty("url")), // URL string related to the word/phrase
+    category: readList(getProperty("category")), // List of categories (e.g., noun, verb)
+    created: readText(getProperty("created")), // Page creation date in ISO 8601 format
+    example: readText(getProperty("example")), // Example sentences in plain text
+    meaning: readText(getProperty("meaning")), // Meaning of the word/phrase in plain text
+    memorized: readText(getProperty("memorized")), // Memorization status (e.g., "Never Better")
+    ipa: readText(getProperty("ipa")), // Pronunciation in IPA
+    phrase: readText(getProperty("phrase")), // The primary phrase or word
+    nextReview: readText(getProperty("nextReview")), // Date the item is next due for review
+    ease: ease?.type === "number" ? ease.number : null, // Ease factor of the review schedule
+    interval: interval?.type === "number" ? interval.number : null, // Review interval in days
+  };
+}
+
+/**
+ * Reads the rich text of the fields whose formatting is displayed to the user.
+ *
+ * @param schema - The schema describing the database columns.
+ * @param properties - The raw properties of the page, as returned by the Notion API.
+ * @returns The rich text of the meaning and example fields.
+ */
+export function readPageRichText(
+  schema: NotionSchema,
+  properties: PageObjectResponse["properties"]
+): NotionPage["richText"] {
+  return {
+    meaning: readRichText(getMappedProperty(schema, properties, "meaning")),
+    example: readRichText(getMappedProperty(schema, properties, "example")),
+  };
+}
+
+/**
+ * Converts the value of a logical field into a property value for the given column type.
+ *
+ * @param type - The type of the column.
+ * @param value - The value of the field.
+ * @returns The property value accepted by the Notion API.
+ */
+function toPropertyValue(
+  type: Exclude<NotionPropertyType, "created_time">,
+  value: NotionPageProperties[NotionField]
+): PagePropertyValue {
+  const text = Array.isArray(value) ? value.join(", ") : value === null ? "" : String(value);
+  const names = Array.isArray(value) ? value : text ? [text] : [];
+
+  switch (type) {
+    case "title":
+      return { title: [{ text: { content: text } }] };
+    case "rich_text":
+      return { rich_text: text ? [{ text: { content: text } }] : [] };
+    case "number":
+      return { number: typeof value === "number" ? value : null };
+    case "select":
+      return { select: names.length > 0 ? { name: names[0] } : null };
+    case "multi_select":
+      return { multi_select: names.map((name) => ({ name })) };
+    case "status":
+      return { status: { name: text } };
+    case "date":
+      return { date: text ? { start: text } : null };
+    case "checkbox":
+      return { checkbox: value === true };
+    case "url":
+      return { url: text || null };
+  }
+}
+
+/**
+ * Builds the properties for updating a Notion page from the values of logical fields.
+ * Fields that are unmapped or mapped to read-only columns (e.g., "created_time") are skipped,
+ * as are empty values of "status" columns, which Notion does not allow to be cleared.
+ *
+ * @param schema - The schema describing the database columns.
+ * @param values - The values of the fields to update.
+ * @returns The properties accepted by `pages.update` and `pages.create`, keyed by column name.
+ */
+export function buildPageProperties(
+  schema: NotionSchema,
+  values: Partial<NotionPageProperties>
+): Record<string, PagePropertyValue> {
+  const properties: Record<string, PagePropertyValue> = {};
+
+  for (const [field, value] of Object.entries(values) as [NotionField, NotionPageProperties[NotionField]][]) {
+    const mapping: NotionPropertyMapping | null = schema[field];
+    if (!mapping || mapping.type === "created_time" || value === undefined) {
+      continue;
+    }
+    if (mapping.type === "status" && !value) {
+      continue; // A status always has a value, so it is left unchanged rather than cleared
+    }
+    properties[mapping.name] = toPropertyValue(mapping.type, value);
+  }
+
+  return properties;
+}
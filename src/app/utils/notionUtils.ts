@@ -1,12 +1,166 @@
-import { Client } from "@notionhq/client";
-import { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import { APIErrorCode, Client, isNotionClientError } from "@notionhq/client";
+import { PageObjectResponse, QueryDatabaseParameters } from "@notionhq/client/build/src/api-endpoints";
 import { NotionApiResponse, NotionPage, NotionPageProperties } from "../types/notionTypes";
+import type { NotionField, NotionPropertyMapping } from "../types/notionSchemaTypes";
+import type { StudyFilter, StudyFilterOptions } from "../types/filterTypes";
+import type { ReviewSchedule } from "../types/scheduleTypes";
+import type { WordQuery } from "../types/wordBrowserTypes";
+import { normalizeAnswer } from "./answerUtils";
+import {
+  buildPageProperties,
+  findSchemaProblems,
+  loadNotionSchema,
+  readPageProperties,
+  readPageRichText,
+} from "./notionSchemaUtils";
 
 // Initialize Notion client
 const notion = new Client({
   auth: process.env.NOTION_API_KEY, // Your Notion API Key from .env
 });
 
+/**
+ * A filter on a single database column accepted by the Notion API when querying a database.
+ */
+type DatabaseFilter = Extract<NonNullable<QueryDatabaseParameters["filter"]>, { property: string }>;
+
+/**
+ * The mapping of logical fields to database columns, loaded from the schema configuration.
+ */
+const notionSchema = loadNotionSchema();
+
+/**
+ * The IDs of the databases whose columns have been verified against the schema.
+ */
+const verifiedDatabaseIds = new Set<string>();
+
+/**
+ * Verifies that the columns of a Notion database match the schema configuration.
+ * Successful verifications are remembered, so each database is retrieved only once per process.
+ *
+ * @param databaseId - The ID of the database to verify.
+ * @returns A promise that resolves when the database matches the schema.
+ * @throws An error listing every missing or mistyped column, or if the database cannot be retrieved.
+ */
+export async function verifyDatabaseSchema(databaseId: string): Promise<void> {
+  if (verifiedDatabaseIds.has(databaseId)) {
+    return;
+  }
+
+  const database = await notion.databases.retrieve({ database_id: databaseId });
+  const problems = findSchemaProblems(notionSchema, database.properties);
+  if (problems.length > 0) {
+    throw new Error(
+      `Notion database ${databaseId} does not match the schema configuration:\n` +
+        problems.map((problem) => `- ${problem}`).join("\n") +
+        "\nRename the columns or update NOTION_SCHEMA (or notion-schema.json) to match the database."
+    );
+  }
+
+  verifiedDatabaseIds.add(databaseId);
+}
+
+/**
+ * Builds a filter matching pages in which the column mapped to a text field is not empty.
+ *
+ * @param mapping - The mapping of the field (e.g., "meaning").
+ * @returns The database filter.
+ */
+function isNotEmptyFilter(mapping: NotionPropertyMapping): DatabaseFilter {
+  return { property: mapping.name, [mapping.type]: { is_not_empty: true } } as DatabaseFilter;
+}
+
+/**
+ * Builds a filter matching pages in which the column mapped to a text field contains the given text (case-insensitive).
+ *
+ * @param mapping - The mapping of the field (e.g., "phrase").
+ * @param text - The text to search for.
+ * @returns The database filter.
+ */
+function containsTextFilter(mapping: NotionPropertyMapping, text: string): DatabaseFilter {
+  return { property: mapping.name, [mapping.type]: { contains: text } } as DatabaseFilter;
+}
+
+/**
+ * Builds a filter matching pages in which the column mapped to an option field contains the given option.
+ *
+ * @param mapping - The mapping of the field (e.g., "category").
+ * @param option - The option name (e.g., "Verb").
+ * @returns The database filter.
+ */
+function hasOptionFilter(mapping: NotionPropertyMapping, option: string): DatabaseFilter {
+  switch (mapping.type) {
+    case "select":
+      return { property: mapping.name, select: { equals: option } };
+    case "status":
+      return { property: mapping.name, status: { equals: option } };
+    default:
+      return { property: mapping.name, multi_select: { contains: option } };
+  }
+}
+
+/**
+ * Builds a filter matching the pages due for review on the given date, including pages that were never scheduled.
+ *
+ * @param date - The date in "YYYY-MM-DD" format.
+ * @returns The database filter.
+ */
+function dueFilter(date: string): NonNullable<QueryDatabaseParameters["filter"]> {
+  const nextReview = notionSchema.nextReview!.name;
+  return {
+    or: [
+      { property: nextReview, date: { is_empty: true } }, // Never scheduled
+      { property: nextReview, date: { on_or_before: date } }, // Due on the date or overdue
+    ],
+  };
+}
+
+/**
+ * Converts a study filter into a database filter on the columns mapped by the schema.
+ *
+ * @param filter - The study filter (e.g., `{ field: "category", value: "Verb" }`).
+ * @returns The database filter.
+ * @throws An error if the database has no column for the filtered field.
+ */
+function toDatabaseFilter(filter: StudyFilter): DatabaseFilter {
+  const mapping = notionSchema[filter.field];
+  if (!mapping) {
+    throw new Error(`The database has no column for the "${filter.field}" field.`);
+  }
+  return filter.field === "pronunciationCheck"
+    ? { property: mapping.name, checkbox: { equals: true } }
+    : hasOptionFilter(mapping, filter.value);
+}
+
+/**
+ * Converts a search of the word browser into a database filter on the columns mapped by the schema.
+ * Criteria on unmapped columns are ignored.
+ *
+ * @param wordQuery - The search (e.g., the words in a category studied since a date).
+ * @returns The database filter, or `undefined` to match every page.
+ */
+function toWordQueryFilter(wordQuery: WordQuery): QueryDatabaseParameters["filter"] {
+  const filters: DatabaseFilter[] = [];
+  if (wordQuery.search.trim()) {
+    filters.push(containsTextFilter(notionSchema.phrase!, wordQuery.search.trim()));
+  }
+  for (const field of ["category", "movie", "memorized"] as const) {
+    const mapping = notionSchema[field];
+    const option = wordQuery[field];
+    if (mapping && option) {
+      filters.push(hasOptionFilter(mapping, option));
+    }
+  }
+  const lastStudied = notionSchema.lastStudied!.name;
+  if (wordQuery.studiedFrom) {
+    filters.push({ property: lastStudied, date: { on_or_after: wordQuery.studiedFrom } });
+  }
+  if (wordQuery.studiedTo) {
+    filters.push({ property: lastStudied, date: { on_or_before: wordQuery.studiedTo } });
+  }
+  return filters.length > 0 ? { and: filters } : undefined;
+}
+
 /**
  * Transforms raw Notion API data into a structured NotionPage object.
  * 
@@ -22,54 +176,62 @@ function transformNotionPage(rawPage: PageObjectResponse): NotionPage {
   // Extract the properties field from the raw page object
   const properties = rawPage.properties;
 
-  // Map the raw properties into the structured NotionPageProperties object
-  const transformedProperties: NotionPageProperties = {
-    lastStudied: properties["Last Studied"]?.type === "date" ? properties["Last Studied"].date?.start || "" : "", // Date of the last study session
-    pronunciationCheck: properties["PronunciationCheck"]?.type === "checkbox" ? properties["PronunciationCheck"].checkbox || false : false, // Whether pronunciation has been checked
-    movie: properties["Movie"]?.type === "multi_select" ? properties["Movie"].multi_select?.map((item) => item.name) || [] : [], // List of associated movie names
-    url: properties["URL"]?.type === "url" ? properties["URL"].url || "" : "", // URL string related to the word/phrase
-    category: properties["Category"]?.type === "multi_select" ? properties["Category"].multi_select?.map((item) => item.name) || [] : [], // List of categories (e.g., noun, verb)
-    created: properties["Created"]?.type === "created_time" ? properties["Created"].created_time || "" : "", // Page creation date in ISO 8601 format
-    example: properties["Example"]?.type === "rich_text" ? properties["Example"].rich_text?.[0]?.plain_text || "" : "", // Example sentence in plain text
-    meaning: properties["Meaning"]?.type === "rich_text" ? properties["Meaning"].rich_text?.[0]?.plain_text || "" : "", // Meaning of the word/phrase in plain text
-    memorized: properties["Memorized"]?.type === "select" ? properties["Memorized"].select?.name || "" : "", // Memorization status (e.g., "Never Better")
-    phrase: properties["Phrase"]?.type === "title" ? properties["Phrase"].title?.[0]?.plain_text || "" : "", // The primary phrase or word
-  };
+  // Map the raw properties into the structured NotionPageProperties object using the configured schema
+  const transformedProperties: NotionPageProperties = readPageProperties(notionSchema, properties);
 
   // Return the formatted NotionPage object
   return {
     id: rawPage.id, // Unique identifier for the page
     url: rawPage.url, // URL of the Notion page
+    databaseId: rawPage.parent.type === "database_id" ? rawPage.parent.database_id : "", // Database the page belongs to
     properties: transformedProperties, // Structured properties of the page
+    richText: readPageRichText(notionSchema, properties), // Formatted meaning and example of the page
   };
 }
 
 /**
- * Fetches and formats pages from a specific Notion database with pagination support.
+ * Fetches and formats the pages that are due for review from a specific Notion database with pagination support.
  * 
  * This function queries a Notion database using the Notion API, retrieves pages starting from
  * a specified cursor (if provided), and transforms the raw API response into a structured format.
+ * Only pages whose "Next Review" date is today or earlier, or that have never been scheduled, are returned,
+ * with the most overdue pages first. If a study filter is given, all pages matching the filter are returned
+ * instead, regardless of their review date, so that a subset of words can be drilled ahead of schedule.
  * 
+ * @param databaseId - The ID of the Notion database (deck) to query.
+ * @param today - The current date in the user's time zone, in "YYYY-MM-DD" format, used to select the due pages.
  * @param startCursor - (Optional) The cursor to start fetching pages from. Defaults to the first page.
+ * @param studyFilter - (Optional) The filter scoping the study session (e.g., a category).
  * @returns A `Promise` that resolves to a `NotionApiResponse` containing structured and formatted pages.
  *          The response includes pagination details (`next_cursor`) and an array of formatted `NotionPage` objects.
  * @throws An error if the Notion API call fails or the data transformation encounters an issue.
  */
-export async function getFormattedDatabasePages(startCursor?: string): Promise<NotionApiResponse> {
+export async function getFormattedDatabasePages(
+  databaseId: string,
+  today: string,
+  startCursor?: string,
+  studyFilter?: StudyFilter | null
+): Promise<NotionApiResponse> {
   try {
-    // Ensure the database ID is defined in the environment variables
-    const databaseId = process.env.NOTION_DATABASE_ID;
-    if (!databaseId) {
-      throw new Error("NOTION_DATABASE_ID environment variable is not set.");
-    }
+    // Make sure the database has the columns described by the schema
+    await verifyDatabaseSchema(databaseId);
+    const nextReview = notionSchema.nextReview!.name;
+    const lastStudied = notionSchema.lastStudied!.name;
 
-    // Query the Notion database with optional pagination and sorting by "Last Studied"
+    // Query the Notion database for due (or filtered) pages with optional pagination, sorting by "Next Review" and "Last Studied"
     const rawResponse = await notion.databases.query({
-      database_id: databaseId, // Fixed database ID from environment variable
+      database_id: databaseId, // Database of the deck being studied
       start_cursor: startCursor, // Optional cursor for pagination
+      filter: studyFilter
+        ? toDatabaseFilter(studyFilter) // Words matching the study filter
+        : dueFilter(today), // Words due today or overdue
       sorts: [
         {
-          property: "Last Studied", // The property to sort by
+          property: nextReview, // Most overdue first (unscheduled pages come last)
+          direction: "ascending",
+        },
+        {
+          property: lastStudied, // The property to sort by
           direction: "ascending", // Sort in ascending order (oldest first)
         },
       ],
@@ -92,17 +254,230 @@ export async function getFormattedDatabasePages(startCursor?: string): Promise<N
 }
 
 /**
- * Updates the "Memorized" and "Last Studied" properties of a Notion page.
+ * Searches the pages of a Notion database for the word browser, regardless of their review date.
+ * 
+ * @param databaseId - The ID of the Notion database (deck) to search.
+ * @param wordQuery - The search, sort order and pagination cursor.
+ * @param pageSize - The maximum number of pages to return (at most 100).
+ * @returns A `Promise` that resolves to a `NotionApiResponse` with the matching pages and the cursor of the next batch.
+ * @throws An error if the Notion API call fails.
+ */
+export async function searchDatabasePages(
+  databaseId: string,
+  wordQuery: WordQuery,
+  pageSize: number
+): Promise<NotionApiResponse> {
+  try {
+    await verifyDatabaseSchema(databaseId);
+
+    // Fall back to the phrase if the sort column is not mapped
+    const sortMapping = notionSchema[wordQuery.sort] ?? notionSchema.phrase!;
+    const rawResponse = await notion.databases.query({
+      database_id: databaseId,
+      start_cursor: wordQuery.cursor ?? undefined,
+      page_size: pageSize,
+      filter: toWordQueryFilter(wordQuery),
+      sorts: [{ property: sortMapping.name, direction: wordQuery.direction }],
+    });
+
+    return {
+      next_cursor: rawResponse.next_cursor || null,
+      results: (rawResponse.results as PageObjectResponse[]).map(transformNotionPage),
+    };
+  } catch (error) {
+    console.error(`Error searching the pages of database ${databaseId}:`, error);
+    throw new Error("Failed to search database pages.");
+  }
+}
+
+/**
+ * Retrieves a single Notion page.
+ * 
+ * @param pageId - The ID of the Notion page.
+ * @returns A `Promise` that resolves to the `NotionPage`, or `null` if the page does not exist or is not shared with the integration.
+ * @throws An error if the Notion API call fails for another reason.
+ */
+export async function getNotionPage(pageId: string): Promise<NotionPage | null> {
+  try {
+    const rawPage = await notion.pages.retrieve({ page_id: pageId });
+    return "properties" in rawPage && !rawPage.archived ? transformNotionPage(rawPage) : null;
+  } catch (error) {
+    // Unknown or malformed page IDs are reported as missing pages
+    if (
+      isNotionClientError(error)
+      && (error.code === APIErrorCode.ObjectNotFound || error.code === APIErrorCode.ValidationError)
+    ) {
+      return null;
+    }
+    console.error(`Error retrieving page ${pageId}:`, error);
+    throw new Error("Failed to retrieve the page.");
+  }
+}
+
+/**
+ * Counts the pages of a Notion database that match a database filter.
+ * The Notion API has no count endpoint, so every matching page is fetched in batches of 100.
+ * 
+ * @param databaseId - The ID of the Notion database to query.
+ * @param filter - The database filter.
+ * @returns A `Promise` that resolves to the number of matching pages.
+ */
+async function countPages(databaseId: string, filter: NonNullable<QueryDatabaseParameters["filter"]>): Promise<number> {
+  let count = 0;
+  let startCursor: string | undefined = undefined;
+  do {
+    const rawResponse = await notion.databases.query({
+      database_id: databaseId,
+      start_cursor: startCursor,
+      page_size: 100,
+      filter,
+    });
+    count += rawResponse.results.length;
+    startCursor = rawResponse.next_cursor ?? undefined;
+  } while (startCursor);
+
+  return count;
+}
+
+/**
+ * Counts the pages of a Notion database that match a study filter.
+ * 
+ * @param databaseId - The ID of the Notion database (deck) to query.
+ * @param studyFilter - The filter to count pages for.
+ * @returns A `Promise` that resolves to the number of matching pages.
+ * @throws An error if the Notion API call fails or the database has no column for the filtered field.
+ */
+export async function countFilteredPages(databaseId: string, studyFilter: StudyFilter): Promise<number> {
+  try {
+    await verifyDatabaseSchema(databaseId);
+    return await countPages(databaseId, toDatabaseFilter(studyFilter));
+  } catch (error) {
+    console.error(`Error counting filtered pages of database ${databaseId}:`, error);
+    throw new Error("Failed to count filtered pages.");
+  }
+}
+
+/**
+ * Counts the pages of a Notion database that are due for review on the given date,
+ * including pages that have never been scheduled.
+ * 
+ * @param databaseId - The ID of the Notion database (deck) to query.
+ * @param date - The date in "YYYY-MM-DD" format (e.g., the user's local date).
+ * @returns A `Promise` that resolves to the number of due pages.
+ * @throws An error if the Notion API call fails.
+ */
+export async function countDuePages(databaseId: string, date: string): Promise<number> {
+  try {
+    await verifyDatabaseSchema(databaseId);
+    return await countPages(databaseId, dueFilter(date));
+  } catch (error) {
+    console.error(`Error counting due pages of database ${databaseId}:`, error);
+    throw new Error("Failed to count due pages.");
+  }
+}
+
+/**
+ * Retrieves the categories and movies defined in a Notion database, which can be used to filter study sessions.
+ * 
+ * @param databaseId - The ID of the Notion database (deck).
+ * @returns A `Promise` that resolves to the option names of the category and movie columns.
+ *          Columns that are not mapped by the schema yield no options.
+ * @throws An error if the database cannot be retrieved.
+ */
+export async function getFilterOptions(databaseId: string): Promise<StudyFilterOptions> {
+  try {
+    const database = await notion.databases.retrieve({ database_id: databaseId });
+
+    // Read the option names of a select or multi-select column
+    const getOptions = (mapping: NotionPropertyMapping | null): string[] => {
+      const property = mapping ? database.properties[mapping.name] : undefined;
+      if (property?.type === "select") return property.select.options.map((option) => option.name);
+      if (property?.type === "multi_select") return property.multi_select.options.map((option) => option.name);
+      return [];
+    };
+
+    return {
+      category: getOptions(notionSchema.category),
+      movie: getOptions(notionSchema.movie),
+    };
+  } catch (error) {
+    console.error(`Error retrieving the filter options of database ${databaseId}:`, error);
+    throw new Error("Failed to retrieve filter options.");
+  }
+}
+
+/**
+ * Fetches pages that can provide distractor meanings for a quiz question.
+ * 
+ * Pages sharing at least one of the given categories are fetched first. If they are not enough
+ * to build a question, pages from the whole database are fetched instead.
+ * Candidates are drawn from the same deck as the page being asked.
+ * 
+ * @param databaseId - The ID of the Notion database (deck) of the page being asked.
+ * @param categories - The categories of the page being asked (e.g., ["Verb"]).
+ * @param minCount - The minimum number of candidate pages required.
+ * @returns A `Promise` that resolves to an array of candidate `NotionPage` objects with a non-empty meaning.
+ * @throws An error if the Notion API call fails.
+ */
+export async function getQuizCandidatePages(
+  databaseId: string,
+  categories: string[],
+  minCount: number
+): Promise<NotionPage[]> {
+  try {
+    // Make sure the database has the columns described by the schema
+    await verifyDatabaseSchema(databaseId);
+
+    // Only pages with a meaning can be used as distractors
+    const hasMeaning = isNotEmptyFilter(notionSchema.meaning!);
+
+    // Query pages in the same categories first (if the database has a category column)
+    const categoryMapping = notionSchema.category;
+    if (categoryMapping && categories.length > 0) {
+      const rawResponse = await notion.databases.query({
+        database_id: databaseId,
+        page_size: 100,
+        filter: {
+          and: [
+            hasMeaning,
+            { or: categories.map((category) => hasOptionFilter(categoryMapping, category)) },
+          ],
+        },
+      });
+      const pages = (rawResponse.results as PageObjectResponse[]).map(transformNotionPage);
+      if (pages.length >= minCount) {
+        return pages;
+      }
+    }
+
+    // Fall back to pages from the whole database
+    const rawResponse = await notion.databases.query({
+      database_id: databaseId,
+      page_size: 100,
+      filter: hasMeaning,
+    });
+    return (rawResponse.results as PageObjectResponse[]).map(transformNotionPage);
+  } catch (error) {
+    console.error("Error fetching quiz candidate pages:", error);
+    throw new Error("Failed to fetch quiz candidate pages.");
+  }
+}
+
+/**
+ * Updates the memorization status, last studied date and review schedule (next review, ease, interval) of a Notion page.
+ * The columns to update are resolved through the schema configuration.
  * 
  * @param pageId - The ID of the Notion page to update.
- * @param memorizedValue - The new value for the "Memorized" property.
+ * @param memorizedValue - The new memorization status.
  *                          Must be one of: "Never Better", "Good", "So So", "Not At All".
+ * @param schedule - The review schedule computed by the spaced-repetition scheduler.
  * @returns A promise that resolves when the update is complete.
  * @throws An error if the Notion API update fails.
  */
 export async function updateMemorizationStatus(
   pageId: string,
-  memorizedValue: "Never Better" | "Good" | "So So" | "Not At All"
+  memorizedValue: "Never Better" | "Good" | "So So" | "Not At All",
+  schedule: ReviewSchedule
 ): Promise<void> {
   try {
     // Current timestamp in ISO 8601 format
@@ -111,17 +486,148 @@ export async function updateMemorizationStatus(
     // Update the Notion page
     await notion.pages.update({
       page_id: pageId,
-      properties: {
-        Memorized: {
-          select: { name: memorizedValue }, // Update the select field
-        },
-        "Last Studied": {
-          date: { start: currentTimestamp }, // Update the date field
-        },
-      },
+      properties: buildPageProperties(notionSchema, {
+        memorized: memorizedValue, // Memorization status
+        lastStudied: currentTimestamp, // Date of this study session
+        nextReview: schedule.nextReview, // Date the page is next due
+        ease: schedule.ease, // Ease factor of the schedule
+        interval: schedule.interval, // Interval in days
+      }),
     });
   } catch (error) {
     console.error(`Failed to update memorization status for page ${pageId}:`, error);
     throw new Error("Failed to update memorization status.");
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Clears the memorization status, last studied date and review schedule of a Notion page,
+ * so that the page is studied again as a new word.
+ * If the memorization status is a "status" column, which cannot be empty, it keeps its value.
+ * 
+ * @param pageId - The ID of the Notion page to reset.
+ * @returns A promise that resolves when the update is complete.
+ * @throws An error if the Notion API update fails.
+ */
+export async function resetMemorizationStatus(pageId: string): Promise<void> {
+  try {
+    await notion.pages.update({
+      page_id: pageId,
+      properties: buildPageProperties(notionSchema, {
+        memorized: "",
+        lastStudied: "",
+        nextReview: "", // Never scheduled, so the page is due right away
+        ease: null,
+        interval: null,
+      }),
+    });
+  } catch (error) {
+    console.error(`Failed to reset memorization status for page ${pageId}:`, error);
+    throw new Error("Failed to reset memorization status.");
+  }
+}
+
+/**
+ * Retrieves the title of a Notion database, used as the default name of a deck.
+ * 
+ * @param databaseId - The ID of the Notion database.
+ * @returns A promise that resolves to the plain text title, or an empty string if the database has no title.
+ * @throws An error if the database cannot be retrieved (e.g., it is not shared with the integration).
+ */
+export async function getDatabaseTitle(databaseId: string): Promise<string> {
+  try {
+    const database = await notion.databases.retrieve({ database_id: databaseId });
+    return "title" in database ? database.title.map((item) => item.plain_text).join("") : "";
+  } catch (error) {
+    console.error(`Error retrieving the title of database ${databaseId}:`, error);
+    throw new Error("Failed to retrieve the database title.");
+  }
+}
+
+/**
+ * Finds the pages of a Notion database whose phrase is the same as the given phrase,
+ * ignoring case, punctuation and surrounding whitespace.
+ * 
+ * @param databaseId - The ID of the Notion database (deck) to search.
+ * @param phrase - The phrase to look for (e.g., "sulk").
+ * @returns A `Promise` that resolves to the matching pages, or an empty array if the phrase is new.
+ * @throws An error if the Notion API call fails.
+ */
+export async function findPagesByPhrase(databaseId: string, phrase: string): Promise<NotionPage[]> {
+  try {
+    await verifyDatabaseSchema(databaseId);
+
+    // Narrow down the candidates in Notion, then compare the normalized phrases exactly
+    const rawResponse = await notion.databases.query({
+      database_id: databaseId,
+      page_size: 100,
+      filter: containsTextFilter(notionSchema.phrase!, phrase.trim()),
+    });
+    const normalizedPhrase = normalizeAnswer(phrase);
+    return (rawResponse.results as PageObjectResponse[])
+      .map(transformNotionPage)
+      .filter((page) => normalizeAnswer(page.properties.phrase) === normalizedPhrase);
+  } catch (error) {
+    console.error(`Error searching database ${databaseId} for phrase "${phrase}":`, error);
+    throw new Error("Failed to search for the phrase.");
+  }
+}
+
+/**
+ * Creates a page in a Notion database from the values of logical fields.
+ * The columns to write are resolved through the schema configuration.
+ * 
+ * @param databaseId - The ID of the Notion database (deck) to add the page to.
+ * @param values - The values of the fields of the new page. The phrase is required.
+ * @returns A `Promise` that resolves to the created `NotionPage`.
+ * @throws An error if the Notion API call fails.
+ */
+export async function createNotionPage(
+  databaseId: string,
+  values: Partial<NotionPageProperties> & Pick<NotionPageProperties, "phrase">
+): Promise<NotionPage> {
+  try {
+    await verifyDatabaseSchema(databaseId);
+
+    const rawPage = await notion.pages.create({
+      parent: { database_id: databaseId },
+      properties: buildPageProperties(notionSchema, values),
+    });
+    return transformNotionPage(rawPage as PageObjectResponse);
+  } catch (error) {
+    console.error(`Failed to create a page for "${values.phrase}" in database ${databaseId}:`, error);
+    throw new Error("Failed to create the page.");
+  }
+}
+
+/**
+ * Checks if a field is mapped to a column of the Notion databases.
+ * Optional fields (e.g., the pronunciation flag) may be left unmapped in the schema configuration.
+ * 
+ * @param field - The field to check.
+ * @returns True if the field can be read and written, false otherwise.
+ */
+export function isFieldMapped(field: NotionField): boolean {
+  return notionSchema[field] !== null;
+}
+
+/**
+ * Updates fields of a Notion page with the given values.
+ * The columns to update are resolved through the schema configuration.
+ * 
+ * @param pageId - The ID of the Notion page to update.
+ * @param values - The new values of the fields to update (e.g., `{ meaning: "..." }`).
+ * @returns A promise that resolves when the update is complete.
+ * @throws An error if the Notion API update fails.
+ */
+export async function updatePageFields(pageId: string, values: Partial<NotionPageProperties>): Promise<void> {
+  try {
+    await notion.pages.update({
+      page_id: pageId,
+      properties: buildPageProperties(notionSchema, values),
+    });
+  } catch (error) {
+    console.error(`Failed to update fields ${Object.keys(values).join(", ")} of page ${pageId}:`, error);
+    throw new Error("Failed to update the page.");
+  }
+}
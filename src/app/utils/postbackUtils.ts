@@ -0,0 +1,69 @@
+import { ButtonLabel } from "../constants/buttons";
+import { isEditableField } from "./editUtils";
+import type { PostbackPayload } from "../types/postbackTypes";
+import type { UserSession } from "../types/sessionTypes";
+
+/**
+ * Checks if a given value is a valid ButtonLabel.
+ * This function ensures type safety when processing user input or external data.
+ * 
+ * @param value - The input value to check.
+ * @returns - True if the value is a valid ButtonLabel, false otherwise.
+ */
+export function isValidButtonLabel(value: string): value is ButtonLabel {
+  // Use Object.values to get all possible ButtonLabel values and check inclusion
+  return Object.values(ButtonLabel).includes(value as ButtonLabel);
+}
+
+/**
+ * Serializes a postback payload into the query string format used for the `data` field of a postback action.
+ *
+ * @param payload - The payload to serialize.
+ * @returns The serialized payload (e.g., "action=Good&pageId=...&nonce=...").
+ */
+export function encodePostbackData(payload: PostbackPayload): string {
+  const params = new URLSearchParams({ action: payload.action });
+  if (payload.pageId) params.set("pageId", payload.pageId);
+  if (payload.nonce) params.set("nonce", payload.nonce);
+  if (payload.choice !== undefined) params.set("choice", String(payload.choice));
+  if (payload.deckId) params.set("deckId", payload.deckId);
+  if (payload.field) params.set("field", payload.field);
+  return params.toString();
+}
+
+/**
+ * Parses the `data` field of a postback event into a structured payload.
+ *
+ * @param data - The raw postback data received from the LINE platform.
+ * @returns The parsed `PostbackPayload`, or `null` if the data does not contain a valid action.
+ */
+export function parsePostbackData(data: string): PostbackPayload | null {
+  const params = new URLSearchParams(data);
+  const action = params.get("action");
+  if (!action || !isValidButtonLabel(action)) {
+    return null;
+  }
+
+  const choice = params.get("choice");
+  const field = params.get("field");
+  return {
+    action,
+    pageId: params.get("pageId") ?? undefined,
+    nonce: params.get("nonce") ?? undefined,
+    choice: choice !== null && /^\d+$/.test(choice) ? Number(choice) : undefined,
+    deckId: params.get("deckId") ?? undefined,
+    field: field !== null && isEditableField(field) ? field : undefined,
+  };
+}
+
+/**
+ * Checks whether a postback was sent from a button attached to a word that is no longer displayed.
+ * A button is stale if its page ID or nonce does not match the user's current session.
+ *
+ * @param payload - The parsed postback payload.
+ * @param session - The user's current session.
+ * @returns True if the button is stale, otherwise false.
+ */
+export function isStalePostback(payload: PostbackPayload, session: UserSession): boolean {
+  return payload.pageId !== session.currentWord?.id || payload.nonce !== session.nonce;
+}
@@ -0,0 +1,151 @@
+import type { messagingApi } from "@line/bot-sdk";
+import type { DailyProgress, StudySessionStats } from "../types/progressTypes";
+
+/**
+ * The memorization levels in display order, from best to worst.
+ */
+const RATINGS: (keyof DailyProgress["memorized"])[] = ["Never Better", "Good", "So So", "Not At All"];
+
+/**
+ * Adds a rating to the statistics of the current study session, starting a new session if there is none.
+ *
+ * @param stats - The statistics of the current study session, or `null` if no session has started.
+ * @param rating - The memorization level recorded for a word.
+ * @param now - The time of the rating. Defaults to the current time.
+ * @returns The updated statistics.
+ */
+export function addRating(
+  stats: StudySessionStats | null,
+  rating: keyof DailyProgress["memorized"],
+  now: Date = new Date()
+): StudySessionStats {
+  const { startedAt, memorized } = stats ?? {
+    startedAt: now.toISOString(),
+    memorized: { "Never Better": 0, "Good": 0, "So So": 0, "Not At All": 0 },
+  };
+  return { startedAt, memorized: { ...memorized, [rating]: memorized[rating] + 1 } };
+}
+
+/**
+ * Counts the ratings recorded across all memorization levels.
+ *
+ * @param memorized - The number of ratings per memorization level.
+ * @returns The total number of ratings.
+ */
+export function countRatings(memorized: DailyProgress["memorized"]): number {
+  return RATINGS.reduce((total, rating) => total + (memorized[rating] ?? 0), 0);
+}
+
+/**
+ * Computes the share of ratings where the word was remembered ("Never Better" or "Good").
+ *
+ * @param memorized - The number of ratings per memorization level.
+ * @returns The accuracy as a percentage from 0 to 100, or `null` if nothing was rated.
+ */
+export function getAccuracy(memorized: DailyProgress["memorized"]): number | null {
+  const total = countRatings(memorized);
+  if (total === 0) {
+    return null;
+  }
+  return Math.round((((memorized["Never Better"] ?? 0) + (memorized["Good"] ?? 0)) / total) * 100);
+}
+
+/**
+ * Converts the statistics of a study session into a Flex Message Bubble, shown when the session ends.
+ *
+ * @param title - The headline of the summary (e.g., "🎯 Daily goal reached!").
+ * @param stats - The statistics of the study session.
+ * @param progress - The progress of today and yesterday, used for the daily goal and to compare the accuracy.
+ * @param dailyGoal - The number of words the user aims to review each day, or 0 if the user has no goal.
+ * @param streak - The current streak in days and the number of streak freezes left.
+ * @returns A FlexBubble object summarizing the session.
+ */
+export function formatSummaryFlexMessage(
+  title: string,
+  stats: StudySessionStats,
+  progress: { today: DailyProgress | null; yesterday: DailyProgress | null },
+  dailyGoal: number,
+  streak: { current: number; freezes: number }
+): messagingApi.FlexBubble {
+  // Helper function to create a row in the Flex Message body
+  const createRow = (label: string, value: string): messagingApi.FlexBox => ({
+    type: "box",
+    layout: "horizontal",
+    paddingTop: "sm",
+    contents: [
+      {
+        type: "text",
+        text: label,
+        size: "sm",
+        color: "#c7d5e0",
+        flex: 3,
+      },
+      {
+        type: "text",
+        text: value,
+        size: "md",
+        color: "#ffffff",
+        flex: 3,
+        wrap: true,
+      },
+    ],
+  });
+
+  // Compare the accuracy of the session with yesterday's
+  const accuracy = getAccuracy(stats.memorized);
+  const yesterdayAccuracy = progress.yesterday ? getAccuracy(progress.yesterday.memorized) : null;
+  let accuracyText = accuracy === null ? "-" : `${accuracy}%`;
+  if (accuracy !== null && yesterdayAccuracy !== null) {
+    const difference = accuracy - yesterdayAccuracy;
+    accuracyText += ` (${difference >= 0 ? "▲" : "▼"}${Math.abs(difference)} vs. yesterday)`;
+  }
+
+  const studiedToday = progress.today?.totalStudied ?? 0;
+  const goalText = dailyGoal > 0
+    ? `${studiedToday} / ${dailyGoal}${studiedToday >= dailyGoal ? " ✅" : ""}`
+    : `${studiedToday} (no goal)`;
+  const streakText = streak.current > 0
+    ? `🔥 ${streak.current} day${streak.current === 1 ? "" : "s"}`
+    : "-";
+
+  return {
+    type: "bubble",
+    styles: {
+      body: { backgroundColor: "#2b3a42" },
+      header: { backgroundColor: "#2b3a42" },
+    },
+    header: {
+      type: "box",
+      layout: "vertical",
+      paddingBottom: "none",
+      contents: [
+        {
+          type: "text",
+          text: title,
+          weight: "bold",
+          size: "lg",
+          color: "#ffffff",
+          wrap: true,
+        },
+        {
+          type: "text",
+          text: `${countRatings(stats.memorized)} word${countRatings(stats.memorized) === 1 ? "" : "s"} reviewed`,
+          size: "sm",
+          color: "#c7d5e0",
+        },
+      ],
+    },
+    body: {
+      type: "box",
+      layout: "vertical",
+      contents: [
+        ...RATINGS.map((rating) => createRow(rating, String(stats.memorized[rating]))),
+        { type: "separator", margin: "md" },
+        createRow("Accuracy", accuracyText),
+        createRow("Today", goalText),
+        createRow("Streak", streakText),
+        createRow("Freezes", `❄️ ${streak.freezes}`),
+      ],
+    },
+  };
+}
@@ -0,0 +1,148 @@
+import type { messagingApi } from "@line/bot-sdk";
+import { ButtonLabel } from "../constants/buttons";
+import { encodePostbackData } from "./postbackUtils";
+import type { NotionPage } from "../types/notionTypes";
+import type { QuizQuestion } from "../types/quizTypes";
+
+/**
+ * The number of distractor meanings displayed alongside the correct meaning.
+ */
+export const DISTRACTOR_COUNT = 3;
+
+/**
+ * Returns a shuffled copy of the given array (Fisher-Yates shuffle).
+ *
+ * @param items - The items to shuffle.
+ * @returns A new array containing the same items in random order.
+ */
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Creates a multiple-choice question asking for the meaning of the given page.
+ *
+ * Distractors are drawn from the meanings of the candidate pages, preferring pages that share
+ * a category with the page being asked. Duplicate meanings and the correct meaning itself are excluded.
+ *
+ * @param page - The page whose phrase is being asked. Must have a meaning.
+ * @param candidates - The pages from which distractor meanings are drawn.
+ * @returns A `QuizQuestion`, or `null` if there are not enough distinct distractor meanings.
+ */
+export function createQuizQuestion(page: NotionPage, candidates: NotionPage[]): QuizQuestion | null {
+  const correctMeaning = page.properties.meaning;
+  if (!correctMeaning) {
+    return null;
+  }
+
+  // Split the candidates into pages in the same category and the rest
+  const isSameCategory = (candidate: NotionPage) =>
+    candidate.properties.category.some((category) => page.properties.category.includes(category));
+  const others = candidates.filter((candidate) => candidate.id !== page.id && candidate.properties.meaning);
+  const prioritized = [
+    ...shuffle(others.filter(isSameCategory)),
+    ...shuffle(others.filter((candidate) => !isSameCategory(candidate))),
+  ];
+
+  // Pick distinct distractor meanings in priority order
+  const distractors: string[] = [];
+  for (const candidate of prioritized) {
+    const meaning = candidate.properties.meaning;
+    if (meaning !== correctMeaning && !distractors.includes(meaning)) {
+      distractors.push(meaning);
+    }
+    if (distractors.length === DISTRACTOR_COUNT) {
+      break;
+    }
+  }
+  if (distractors.length < DISTRACTOR_COUNT) {
+    return null;
+  }
+
+  const choices = shuffle([correctMeaning, ...distractors]);
+  return {
+    pageId: page.id,
+    choices,
+    correctIndex: choices.indexOf(correctMeaning),
+  };
+}
+
+/**
+ * Converts a quiz question into a Flex Message Bubble for LINE Bot.
+ * Each choice is a tappable box that sends an "Answer" postback carrying the choice index.
+ *
+ * @param page - The page whose phrase is being asked.
+ * @param question - The quiz question to display.
+ * @param nonce - The session nonce, used to detect answers sent from stale questions.
+ * @returns A FlexBubble object representing the question and its choices.
+ */
+export function formatQuizFlexMessage(page: NotionPage, question: QuizQuestion, nonce: string): messagingApi.FlexBubble {
+  return {
+    type: "bubble",
+    styles: {
+      body: { backgroundColor: "#2b3a42" },
+      header: { backgroundColor: "#2b3a42" },
+    },
+    header: {
+      type: "box",
+      layout: "vertical",
+      paddingBottom: "none",
+      contents: [
+        {
+          type: "text",
+          text: "What does this mean?",
+          size: "sm",
+          color: "#c7d5e0",
+        },
+        {
+          type: "text",
+          text: page.properties.phrase,
+          weight: "bold",
+          size: page.properties.phrase.length > 20 ? "md" : "lg",
+          color: "#ffffff",
+          wrap: true,
+        },
+      ],
+    },
+    body: {
+      type: "box",
+      layout: "vertical",
+      spacing: "sm",
+      contents: question.choices.map((choice, index) => ({
+        type: "box",
+        layout: "horizontal",
+        paddingAll: "md",
+        cornerRadius: "md",
+        backgroundColor: "#3d5260",
+        action: {
+          type: "postback",
+          label: `${index + 1}`,
+          data: encodePostbackData({ action: ButtonLabel.Answer, pageId: page.id, nonce, choice: index }),
+          displayText: `${index + 1}. ${choice}`.slice(0, 300), // LINE limits displayText to 300 characters
+        },
+        contents: [
+          {
+            type: "text",
+            text: `${index + 1}.`,
+            size: "sm",
+            color: "#c7d5e0",
+            flex: 0,
+          },
+          {
+            type: "text",
+            text: choice,
+            size: "sm",
+            color: "#ffffff",
+            wrap: true,
+            margin: "md",
+          },
+        ],
+      })),
+    },
+  };
+}
@@ -0,0 +1,205 @@
+import { createStore } from "./storeUtils";
+import { getLocalDateTime, isTimeInRange, parseTimeOfDay, resolveTimeZone } from "./timeUtils";
+import type { ReminderLog, ReminderSettings } from "../types/reminderTypes";
+import type { UserSettings } from "../types/userTypes";
+
+/**
+ * The interval between the scheduled runs of the reminder route in minutes (see the cron schedule in vercel.json).
+ */
+const REMINDER_RUN_INTERVAL_MINUTES = 60;
+
+/**
+ * Store for the dates on which reminders were sent, keyed by LINE user ID.
+ */
+const reminderLogStore = createStore<ReminderLog>("reminderLogs");
+
+/**
+ * Loads the date on which the last reminder was sent to the given user.
+ *
+ * @param userId - The LINE user ID.
+ * @returns A promise that resolves to the local date of the last reminder, or an empty string if none was sent.
+ * @throws An error if the reminder log store cannot be read.
+ */
+export async function getLastReminderDate(userId: string): Promise<string> {
+  try {
+    return (await reminderLogStore.get(userId))?.lastSentDate ?? "";
+  } catch (error) {
+    console.error(`Failed to load reminder log for user ${userId}:`, error);
+    throw new Error("Failed to load reminder log.");
+  }
+}
+
+/**
+ * Records that a reminder was sent to the given user, so that no other reminder is sent on the same day.
+ *
+ * @param userId - The LINE user ID.
+ * @param date - The user's local date on which the reminder was sent, in "YYYY-MM-DD" format.
+ * @throws An error if the reminder log store cannot be written.
+ */
+export async function saveReminderDate(userId: string, date: string): Promise<void> {
+  try {
+    await reminderLogStore.set(userId, { userId, lastSentDate: date });
+  } catch (error) {
+    console.error(`Failed to save reminder log for user ${userId}:`, error);
+    throw new Error("Failed to save reminder log.");
+  }
+}
+
+/**
+ * Decides whether the daily reminder should be sent to a user now.
+ *
+ * A reminder is due once the user's local time reaches the reminder time, unless reminders are muted,
+ * a reminder was already sent on the same local date, or the local time falls within the user's quiet hours.
+ *
+ * @param settings - The user's settings.
+ * @param lastSentDate - The local date of the last reminder sent to the user (see `getLastReminderDate`).
+ * @param now - The current time. Defaults to the current time.
+ * @returns Whether the reminder is due, and the user's local date.
+ */
+export function isReminderDue(
+  settings: UserSettings,
+  lastSentDate: string,
+  now: Date = new Date()
+): { due: boolean; date: string } {
+  const { date, time } = getLocalDateTime(settings.timeZone, now);
+  const { enabled, time: reminderTime, quietHours } = settings.reminder;
+  const due = enabled
+    && time >= reminderTime
+    && lastSentDate !== date
+    && !(quietHours && isTimeInRange(time, quietHours));
+  return { due, date };
+}
+
+/**
+ * Checks if the quiet hours prevent the daily reminder from ever being sent.
+ * A reminder is sent on the first scheduled run at or after the reminder time that is outside the quiet hours,
+ * so it is never sent if every run from the reminder time until midnight falls within them
+ * (e.g., a reminder at 23:00 with quiet hours from 22:00 to 07:00).
+ *
+ * @param reminder - The reminder preferences.
+ * @returns True if the reminder can never be sent, otherwise false.
+ */
+export function isReminderSilenced(reminder: ReminderSettings): boolean {
+  if (!reminder.quietHours) {
+    return false;
+  }
+
+  const [hour, minute] = reminder.time.split(":").map(Number);
+  const firstRun = Math.ceil((hour * 60 + minute) / REMINDER_RUN_INTERVAL_MINUTES) * REMINDER_RUN_INTERVAL_MINUTES;
+  for (let run = firstRun; run < 24 * 60; run += REMINDER_RUN_INTERVAL_MINUTES) {
+    const time = `${String(Math.floor(run / 60)).padStart(2, "0")}:${String(run % 60).padStart(2, "0")}`;
+    if (!isTimeInRange(time, reminder.quietHours)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Helper function to describe why a reminder time and quiet hours cannot be combined
+function formatSilencedReminderError({ time, quietHours }: ReminderSettings): string {
+  return `A reminder at ${time} would never be sent during your quiet hours (${quietHours!.start}-${quietHours!.end}). `
+    + "Please choose a reminder time before the quiet hours start, or change the quiet hours.";
+}
+
+/**
+ * Applies a reminder option typed by the user to their settings.
+ *
+ * Supported options:
+ * - "on", "off" (or "mute"): Enables or mutes the daily reminder.
+ * - "<time>" (e.g., "7:30", "8am"): Sets the reminder time and enables the reminder.
+ * - "quiet <start>-<end>" (e.g., "quiet 22:00-07:00"), "quiet off": Sets or clears the quiet hours.
+ * - "timezone <name>" (or "tz <name>", e.g., "timezone Asia/Tokyo"): Sets the time zone.
+ *
+ * @param settings - The user's settings. Updated in place, unless the option is invalid.
+ * @param option - The option following the "reminder" command.
+ * @returns An error message if the option is invalid or would prevent the reminder from ever being sent, otherwise `null`.
+ */
+export function applyReminderOption(settings: UserSettings, option: string): string | null {
+  const [subcommand = "", ...rest] = option.trim().split(/\s+/);
+  const argument = rest.join(" ");
+
+  switch (subcommand.toLowerCase()) {
+    case "on": {
+      const reminder = { ...settings.reminder, enabled: true };
+      if (isReminderSilenced(reminder)) {
+        return formatSilencedReminderError(reminder);
+      }
+      settings.reminder = reminder;
+      return null;
+    }
+    case "off":
+    case "mute":
+      settings.reminder.enabled = false;
+      return null;
+    case "quiet": {
+      if (argument.toLowerCase() === "off") {
+        settings.reminder.quietHours = null;
+        return null;
+      }
+      const [start, end] = argument.split(/\s*(?:-|to)\s*/).map(parseTimeOfDay);
+      if (!start || !end || start === end) {
+        return 'Please specify the quiet hours as a range, e.g., "reminder quiet 22:00-07:00", or "reminder quiet off".';
+      }
+      const reminder = { ...settings.reminder, quietHours: { start, end } };
+      if (reminder.enabled && isReminderSilenced(reminder)) {
+        return formatSilencedReminderError(reminder);
+      }
+      settings.reminder = reminder;
+      return null;
+    }
+    case "timezone":
+    case "tz": {
+      const timeZone = resolveTimeZone(argument);
+      if (!argument || !timeZone) {
+        return `"${argument}" is not a known time zone. Please use a name such as "Asia/Tokyo" or "Europe/London".`;
+      }
+      settings.timeZone = timeZone;
+      return null;
+    }
+    default: {
+      const time = parseTimeOfDay(option.replace(/^at\s+/i, ""));
+      if (!time) {
+        return `"${option.trim()}" is not a valid reminder option.`;
+      }
+      const reminder = { ...settings.reminder, enabled: true, time };
+      if (isReminderSilenced(reminder)) {
+        return formatSilencedReminderError(reminder);
+      }
+      settings.reminder = reminder;
+      return null;
+    }
+  }
+}
+
+/**
+ * Formats the reminder preferences of a user for display.
+ *
+ * @param settings - The user's settings.
+ * @returns A multi-line description of the preferences.
+ */
+export function formatReminderSettings(settings: UserSettings): string {
+  const { enabled, time, quietHours } = settings.reminder;
+  return [
+    `Reminder: ${enabled ? `🔔 Every day at ${time}` : "🔕 Off"}`,
+    `Quiet hours: ${quietHours ? `${quietHours.start}-${quietHours.end}` : "None"}`,
+    `Time zone: ${settings.timeZone}`,
+    ...(enabled && isReminderSilenced(settings.reminder)
+      ? ["⚠️ The reminder time falls within your quiet hours, so no reminder will be sent."]
+      : []),
+  ].join("\n");
+}
+
+/**
+ * Formats the text of the daily reminder.
+ *
+ * @param dueCount - The number of words due for review today.
+ * @param streak - The current streak in days.
+ * @returns The reminder text.
+ */
+export function formatReminderMessage(dueCount: number, streak: number): string {
+  const dueText = `📚 ${dueCount} word${dueCount === 1 ? " is" : "s are"} due for review today.`;
+  const streakText = streak > 0
+    ? `🔥 You're on a ${streak}-day streak. Keep it going!`
+    : "🔥 Study today to start a new streak!";
+  return `⏰ Time to study!\n${dueText}\n${streakText}`;
+}
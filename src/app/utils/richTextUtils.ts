@@ -0,0 +1,116 @@
+import type { messagingApi } from "@line/bot-sdk";
+import type { RichTextSegment } from "../types/notionTypes";
+
+/**
+ * Matches a list marker at the start of a line (e.g., "- ", "• ", "1. ").
+ */
+const LIST_MARKER = /^\s*(?:[-*•・]|\d+[.)])\s+/;
+
+/**
+ * Colors used to render formatted text on the dark background of the Flex Messages.
+ */
+const TEXT_COLOR = "#ffffff";
+const CODE_COLOR = "#ffd479";
+const LINK_COLOR = "#8ab4f8";
+
+/**
+ * Converts plain text into rich text without formatting.
+ *
+ * @param text - The plain text.
+ * @returns A single unformatted segment, or an empty array if the text is empty.
+ */
+export function toPlainRichText(text: string): RichTextSegment[] {
+  return text
+    ? [{ text, bold: false, italic: false, strikethrough: false, underline: false, code: false, link: null }]
+    : [];
+}
+
+/**
+ * Splits rich text into lines, removing list markers, surrounding whitespace and empty lines.
+ *
+ * @param segments - The rich text to split.
+ * @returns The lines, each consisting of the segments (or parts of segments) on that line.
+ */
+export function splitRichTextLines(segments: RichTextSegment[]): RichTextSegment[][] {
+  // Break segments at line breaks, keeping the formatting of each part
+  const lines: RichTextSegment[][] = [[]];
+  for (const segment of segments) {
+    segment.text.split("\n").forEach((text, index) => {
+      if (index > 0) {
+        lines.push([]);
+      }
+      lines[lines.length - 1].push({ ...segment, text });
+    });
+  }
+
+  return lines
+    .map((line) => {
+      const trimmed = line.filter((segment) => segment.text);
+      if (trimmed.length > 0) {
+        const lastIndex = trimmed.length - 1;
+        trimmed[0] = { ...trimmed[0], text: trimmed[0].text.replace(LIST_MARKER, "").trimStart() };
+        trimmed[lastIndex] = { ...trimmed[lastIndex], text: trimmed[lastIndex].text.trimEnd() };
+      }
+      return trimmed.filter((segment) => segment.text);
+    })
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Splits the plain text of an example field into individual sentences, one per line.
+ *
+ * @param example - The plain text of the example field.
+ * @returns The example sentences, without list markers or empty lines.
+ */
+export function splitExampleSentences(example: string): string[] {
+  return example
+    .split("\n")
+    .map((line) => line.replace(LIST_MARKER, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Converts a rich text segment into a Flex span, mapping annotations to span styles.
+ *
+ * Flex spans cannot carry links or fonts, so links are rendered underlined in a link color
+ * and inline code is rendered in a distinct color.
+ *
+ * @param segment - The segment to convert. Must not be empty.
+ * @returns The styled FlexSpan.
+ */
+function toFlexSpan(segment: RichTextSegment): messagingApi.FlexSpan {
+  return {
+    type: "span",
+    text: segment.text,
+    color: segment.link ? LINK_COLOR : segment.code ? CODE_COLOR : TEXT_COLOR,
+    weight: segment.bold ? "bold" : "regular",
+    style: segment.italic ? "italic" : "normal",
+    decoration: segment.strikethrough
+      ? "line-through"
+      : segment.underline || segment.link
+        ? "underline"
+        : "none",
+  };
+}
+
+/**
+ * Converts a line of rich text into a Flex text component made of styled spans.
+ * If the line contains a link, tapping the text opens the first link.
+ *
+ * @param line - The segments of the line (see `splitRichTextLines`).
+ * @param prefix - (Optional) Unstyled text placed before the line (e.g., a bullet).
+ * @returns The FlexText component.
+ */
+export function formatRichTextLine(line: RichTextSegment[], prefix: string = ""): messagingApi.FlexText {
+  const link = line.find((segment) => segment.link)?.link;
+  const prefixSpans: messagingApi.FlexSpan[] = prefix ? [{ type: "span", text: prefix, color: TEXT_COLOR }] : [];
+
+  return {
+    type: "text",
+    contents: [...prefixSpans, ...line.map(toFlexSpan)],
+    size: "md",
+    color: TEXT_COLOR,
+    wrap: true,
+    ...(link ? { action: { type: "uri", label: "Open link", uri: link } } : {}),
+  };
+}
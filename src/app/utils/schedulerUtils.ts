@@ -0,0 +1,70 @@
+import type { NotionPageProperties } from "../types/notionTypes";
+import type { ReviewSchedule } from "../types/scheduleTypes";
+import { addDays } from "./timeUtils";
+
+/**
+ * The ease factor assigned to items that have never been reviewed.
+ */
+export const DEFAULT_EASE = 2.5;
+
+/**
+ * The lowest ease factor an item can reach, so that difficult items are still reviewed at growing intervals.
+ */
+const MIN_EASE = 1.3;
+
+/**
+ * Maps each memorization level to an SM-2 recall quality (0-5).
+ * Ratings below 3 are treated as a failed recall and restart the interval sequence.
+ */
+const RECALL_QUALITY: Record<"Never Better" | "Good" | "So So" | "Not At All", number> = {
+  "Never Better": 5, // Perfect recall
+  "Good": 4, // Correct recall after some hesitation
+  "So So": 3, // Correct recall with serious difficulty
+  "Not At All": 1, // Failed recall
+};
+
+/**
+ * Computes the next review schedule of an item using the SM-2 algorithm.
+ *
+ * - A failed recall ("Not At All") resets the interval to 1 day.
+ * - Otherwise the interval grows from 1 day to 6 days, and then by the ease factor on each review.
+ * - The ease factor is adjusted according to the recall quality and never falls below 1.3.
+ *
+ * @param properties - The current properties of the item, providing the previous ease factor and interval.
+ * @param memorizedValue - The memorization level selected by the user.
+ * @param today - The date of the review in the user's time zone, in "YYYY-MM-DD" format.
+ * @returns The `ReviewSchedule` to persist for the item.
+ */
+export function computeNextSchedule(
+  properties: Pick<NotionPageProperties, "ease" | "interval">,
+  memorizedValue: "Never Better" | "Good" | "So So" | "Not At All",
+  today: string
+): ReviewSchedule {
+  const quality = RECALL_QUALITY[memorizedValue];
+  const previousEase = properties.ease ?? DEFAULT_EASE;
+  const previousInterval = properties.interval ?? 0;
+
+  // Determine the next interval in days
+  let interval: number;
+  if (quality < 3) {
+    interval = 1; // Start over after a failed recall
+  } else if (previousInterval < 1) {
+    interval = 1; // First successful review
+  } else if (previousInterval < 6) {
+    interval = 6; // Second successful review
+  } else {
+    interval = Math.round(previousInterval * previousEase);
+  }
+
+  // Adjust the ease factor based on the recall quality
+  const ease = Math.max(
+    MIN_EASE,
+    previousEase + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    nextReview: addDays(today, interval),
+    ease: Math.round(ease * 100) / 100, // Keep two decimal places for readability in Notion
+    interval,
+  };
+}
@@ -0,0 +1,96 @@
+import { randomUUID } from "crypto";
+import { createStore } from "./storeUtils";
+import type { UserSession } from "../types/sessionTypes";
+
+/**
+ * Store for persisting user sessions, keyed by LINE user ID.
+ */
+const sessionStore = createStore<UserSession>("sessions");
+
+/**
+ * Creates a new session in its initial state.
+ *
+ * @param userId - The LINE user ID that owns the session.
+ * @returns A `UserSession` with no word displayed.
+ */
+function createSession(userId: string): UserSession {
+  const now = new Date().toISOString();
+  return {
+    userId,
+    state: "NotDisplayed",
+    currentWord: null,
+    nonce: randomUUID(),
+    quiz: null,
+    direction: "Recognition",
+    prompt: null,
+    filter: null,
+    draft: null,
+    edit: null,
+    enrichment: null,
+    stats: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Loads the session of the given user, creating a new one if none exists yet.
+ * Missing fields of previously saved sessions are filled in with their initial values.
+ *
+ * @param userId - The LINE user ID whose session should be loaded.
+ * @returns A promise that resolves to the user's `UserSession`.
+ * @throws An error if the session store cannot be read.
+ */
+export async function getSession(userId: string): Promise<UserSession> {
+  try {
+    const session = await sessionStore.get(userId);
+    return { ...createSession(userId), ...session };
+  } catch (error) {
+    console.error(`Failed to load session for user ${userId}:`, error);
+    throw new Error("Failed to load session.");
+  }
+}
+
+/**
+ * Persists the given session and refreshes its `updatedAt` timestamp.
+ *
+ * @param session - The session to save.
+ * @throws An error if the session store cannot be written.
+ */
+export async function saveSession(session: UserSession): Promise<void> {
+  try {
+    session.updatedAt = new Date().toISOString();
+    await sessionStore.set(session.userId, session);
+  } catch (error) {
+    console.error(`Failed to save session for user ${session.userId}:`, error);
+    throw new Error("Failed to save session.");
+  }
+}
+
+/**
+ * Renews the nonce of the given session.
+ * Call this whenever a new word is displayed, so that buttons attached to the previous word become stale.
+ * Any edit of the previous word and any dictionary suggestions for it are discarded as well.
+ *
+ * @param session - The session whose nonce should be renewed.
+ */
+export function renewNonce(session: UserSession): void {
+  session.nonce = randomUUID();
+  session.edit = null;
+  session.enrichment = null;
+}
+
+/**
+ * Lists the users who have a session, i.e., every user who has ever interacted with the bot.
+ *
+ * @returns A promise that resolves to the LINE user IDs.
+ * @throws An error if the session store cannot be read.
+ */
+export async function listSessionUserIds(): Promise<string[]> {
+  try {
+    return await sessionStore.keys();
+  } catch (error) {
+    console.error("Failed to list sessions:", error);
+    throw new Error("Failed to list sessions.");
+  }
+}
@@ -0,0 +1,81 @@
+import { createStore } from "./storeUtils";
+import { DEFAULT_VOICE } from "./ttsUtils";
+import { DEFAULT_TIME_ZONE } from "./timeUtils";
+import type { UserSettings } from "../types/userTypes";
+import type { ReminderSettings } from "../types/reminderTypes";
+
+/**
+ * Store for persisting user settings, keyed by LINE user ID.
+ */
+const settingsStore = createStore<UserSettings>("userSettings");
+
+/**
+ * The number of words to review each day when the user has not set a goal.
+ */
+export const DEFAULT_DAILY_GOAL = 20;
+
+/**
+ * The reminder preferences used when the user has not configured reminders.
+ * Reminders are off until the user turns them on with the "reminder" command, so that nobody receives
+ * push messages they did not ask for.
+ */
+export const DEFAULT_REMINDER: ReminderSettings = {
+  enabled: false,
+  time: "08:00",
+  quietHours: null,
+};
+
+/**
+ * Creates settings with the default values.
+ *
+ * @param userId - The LINE user ID that owns the settings.
+ * @returns `UserSettings` with the default values.
+ */
+function createSettings(userId: string): UserSettings {
+  const now = new Date().toISOString();
+  return {
+    userId,
+    voice: { ...DEFAULT_VOICE },
+    decks: [],
+    selectedDeckIds: [],
+    dailyGoal: DEFAULT_DAILY_GOAL,
+    timeZone: DEFAULT_TIME_ZONE,
+    reminder: { ...DEFAULT_REMINDER },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Loads the settings of the given user, falling back to the default values if none are saved yet.
+ * Missing fields of previously saved settings are filled in with the default values.
+ *
+ * @param userId - The LINE user ID whose settings should be loaded.
+ * @returns A promise that resolves to the user's `UserSettings`.
+ * @throws An error if the settings store cannot be read.
+ */
+export async function getUserSettings(userId: string): Promise<UserSettings> {
+  try {
+    const settings = await settingsStore.get(userId);
+    return { ...createSettings(userId), ...settings };
+  } catch (error) {
+    console.error(`Failed to load settings for user ${userId}:`, error);
+    throw new Error("Failed to load user settings.");
+  }
+}
+
+/**
+ * Persists the given settings and refreshes their `updatedAt` timestamp.
+ *
+ * @param settings - The settings to save.
+ * @throws An error if the settings store cannot be written.
+ */
+export async function saveUserSettings(settings: UserSettings): Promise<void> {
+  try {
+    settings.updatedAt = new Date().toISOString();
+    await settingsStore.set(settings.userId, settings);
+  } catch (error) {
+    console.error(`Failed to save settings for user ${settings.userId}:`, error);
+    throw new Error("Failed to save user settings.");
+  }
+}
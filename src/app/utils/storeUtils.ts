@@ -0,0 +1,165 @@
+import { adminFirestore } from "../constants/firebaseAdminConfig";
+
+/**
+ * A minimal key-value store used to persist per-user data (e.g., chat sessions).
+ *
+ * Implementations are interchangeable so that the bot can run against Firestore in
+ * production and against a process-local map in tests or local development.
+ */
+export interface KeyValueStore<T> {
+  /**
+   * Retrieves the value stored under the given key.
+   *
+   * @param key - The key to look up (e.g., a LINE user ID).
+   * @returns A promise that resolves to the stored value, or `null` if nothing is stored.
+   */
+  get(key: string): Promise<T | null>;
+
+  /**
+   * Stores a value under the given key, replacing any existing value.
+   *
+   * @param key - The key to store the value under.
+   * @param value - The value to store.
+   */
+  set(key: string, value: T): Promise<void>;
+
+  /**
+   * Stores a value under the given key only if nothing is stored under it yet, as a single atomic operation.
+   * Concurrent calls for the same key are guaranteed to succeed at most once.
+   *
+   * @param key - The key to store the value under.
+   * @param value - The value to store.
+   * @param isStale - (Optional) Decides whether an existing value may be replaced (e.g., because it has expired).
+   *                  By default, existing values are never replaced.
+   * @returns A promise that resolves to true if the value was stored, or false if the key already existed.
+   */
+  create(key: string, value: T, isStale?: (existing: T) => boolean): Promise<boolean>;
+
+  /**
+   * Removes the value stored under the given key and returns it, as a single atomic operation.
+   * Concurrent calls for the same key are guaranteed to return the value at most once (e.g., to redeem a one-time code).
+   *
+   * @param key - The key to remove.
+   * @returns A promise that resolves to the removed value, or `null` if nothing was stored.
+   */
+  take(key: string): Promise<T | null>;
+
+  /**
+   * Removes the value stored under the given key. Does nothing if the key does not exist.
+   *
+   * @param key - The key to remove.
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Lists the keys of every stored value (e.g., to visit every user in a scheduled job).
+   *
+   * @returns A promise that resolves to the keys, in no particular order.
+   */
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Creates a store that keeps values in process memory.
+ * Values are lost whenever the process restarts, so this backend is intended for tests and local development.
+ *
+ * @returns A `KeyValueStore` backed by a `Map`.
+ */
+export function createInMemoryStore<T>(): KeyValueStore<T> {
+  const entries = new Map<string, T>();
+
+  return {
+    async get(key) {
+      // Return a copy so that callers cannot mutate the stored value by reference
+      const value = entries.get(key);
+      return value === undefined ? null : structuredClone(value);
+    },
+    async set(key, value) {
+      entries.set(key, structuredClone(value));
+    },
+    async create(key, value, isStale = () => false) {
+      const existing = entries.get(key);
+      if (existing !== undefined && !isStale(existing)) {
+        return false;
+      }
+      entries.set(key, structuredClone(value));
+      return true;
+    },
+    async take(key) {
+      const value = entries.get(key);
+      entries.delete(key);
+      return value === undefined ? null : value;
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async keys() {
+      return [...entries.keys()];
+    },
+  };
+}
+
+/**
+ * Creates a store that keeps each value as a document in a Firestore collection.
+ * Documents are accessed with the Firebase Admin SDK, since clients are denied access by the security rules.
+ *
+ * @param collectionPath - The Firestore collection in which documents are stored (e.g., "sessions").
+ * @returns A `KeyValueStore` backed by Firestore.
+ */
+export function createFirestoreStore<T extends object>(collectionPath: string): KeyValueStore<T> {
+  const collection = adminFirestore.collection(collectionPath);
+
+  return {
+    async get(key) {
+      const snapshot = await collection.doc(key).get();
+      return snapshot.exists ? (snapshot.data() as T) : null;
+    },
+    async set(key, value) {
+      await collection.doc(key).set(value);
+    },
+    async create(key, value, isStale = () => false) {
+      const ref = collection.doc(key);
+      return adminFirestore.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        if (snapshot.exists && !isStale(snapshot.data() as T)) {
+          return false;
+        }
+        transaction.set(ref, value);
+        return true;
+      });
+    },
+    async take(key) {
+      const ref = collection.doc(key);
+      return adminFirestore.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        if (!snapshot.exists) {
+          return null;
+        }
+        transaction.delete(ref);
+        return snapshot.data() as T;
+      });
+    },
+    async delete(key) {
+      await collection.doc(key).delete();
+    },
+    async keys() {
+      const snapshot = await collection.select().get(); // Only the IDs are needed, so no field is read
+      return snapshot.docs.map((document) => document.id);
+    },
+  };
+}
+
+/**
+ * Creates a store using the backend selected by the `STORE_BACKEND` environment variable.
+ *
+ * - "memory": Values are kept in process memory (see `createInMemoryStore`).
+ * - "firestore" (default): Values are persisted in Firestore (see `createFirestoreStore`).
+ *
+ * @param collectionPath - The Firestore collection to use when the Firestore backend is selected.
+ * @returns A `KeyValueStore` for the configured backend.
+ */
+export function createStore<T extends object>(collectionPath: string): KeyValueStore<T> {
+  return process.env.STORE_BACKEND === "memory"
+    ? createInMemoryStore<T>()
+    : createFirestoreStore<T>(collectionPath);
+}
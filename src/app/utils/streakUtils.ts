@@ -0,0 +1,107 @@
+import { createStore } from "./storeUtils";
+import { daysBetween } from "./timeUtils";
+import type { Streak } from "../types/streakTypes";
+
+/**
+ * The number of streak freezes given to a new user.
+ */
+const INITIAL_FREEZES = 1;
+
+/**
+ * The maximum number of streak freezes a user can hold.
+ */
+const MAX_FREEZES = 2;
+
+/**
+ * The number of consecutive study days that earns a streak freeze (e.g., one freeze per week).
+ */
+const DAYS_PER_FREEZE = 7;
+
+/**
+ * Store for persisting study streaks, keyed by LINE user ID.
+ */
+const streakStore = createStore<Streak>("streaks");
+
+/**
+ * Loads the streak of the given user, or an empty streak if the user has never studied.
+ *
+ * @param userId - The LINE user ID whose streak should be loaded.
+ * @returns A promise that resolves to the user's `Streak`.
+ * @throws An error if the streak store cannot be read.
+ */
+export async function getStreak(userId: string): Promise<Streak> {
+  try {
+    const streak = await streakStore.get(userId);
+    return { userId, current: 0, freezes: INITIAL_FREEZES, longest: 0, lastStudyDate: "", ...streak };
+  } catch (error) {
+    console.error(`Failed to load streak for user ${userId}:`, error);
+    throw new Error("Failed to load streak.");
+  }
+}
+
+/**
+ * Counts the days missed since the last study day, before the given date.
+ *
+ * @param streak - The user's streak.
+ * @param today - The user's local date in "YYYY-MM-DD" format.
+ * @returns The number of days without studying between the last study day and today (exclusive).
+ */
+function countMissedDays(streak: Streak, today: string): number {
+  return Math.max(daysBetween(streak.lastStudyDate, today) - 1, 0);
+}
+
+/**
+ * Returns the length of the streak as of the given date.
+ * A streak is still alive if every day missed since the last study day can be covered by a freeze.
+ * Today itself never breaks the streak, since the user may not have studied yet.
+ *
+ * @param streak - The user's streak.
+ * @param today - The user's local date in "YYYY-MM-DD" format.
+ * @returns The number of consecutive days studied, or 0 if the streak is broken.
+ */
+export function getCurrentStreak(streak: Streak, today: string): number {
+  if (!streak.lastStudyDate) {
+    return 0;
+  }
+  return countMissedDays(streak, today) <= streak.freezes ? streak.current : 0;
+}
+
+/**
+ * Records that the user studied on the given date. Studying several times a day counts once.
+ *
+ * - If the previous study day was yesterday, the streak is extended.
+ * - If days were missed and enough freezes are left, one freeze is spent per missed day and the streak is extended.
+ * - Otherwise a new streak is started.
+ *
+ * A freeze is earned every `DAYS_PER_FREEZE` consecutive days, up to `MAX_FREEZES`.
+ *
+ * @param userId - The LINE user ID who studied.
+ * @param today - The user's local date in "YYYY-MM-DD" format.
+ * @returns A promise that resolves to the updated `Streak`.
+ * @throws An error if the streak store cannot be read or written.
+ */
+export async function recordStudyDay(userId: string, today: string): Promise<Streak> {
+  const streak = await getStreak(userId);
+  if (streak.lastStudyDate === today) {
+    return streak;
+  }
+
+  const current = getCurrentStreak(streak, today);
+  if (current > 0) {
+    streak.freezes -= countMissedDays(streak, today); // Spend a freeze for each missed day
+  }
+  streak.current = current + 1;
+  if (streak.current % DAYS_PER_FREEZE === 0) {
+    streak.freezes = Math.min(streak.freezes + 1, MAX_FREEZES);
+  }
+  streak.longest = Math.max(streak.longest, streak.current);
+  streak.lastStudyDate = today;
+
+  try {
+    await streakStore.set(userId, streak);
+    return streak;
+  } catch (error) {
+    console.error(`Failed to save streak for user ${userId}:`, error);
+    throw new Error("Failed to save streak.");
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * The time zone used for users who have not set one.
+ * Configured with the `DEFAULT_TIME_ZONE` environment variable (e.g., "Asia/Tokyo").
+ */
+export const DEFAULT_TIME_ZONE = process.env.DEFAULT_TIME_ZONE || "UTC";
+
+/**
+ * Resolves a time zone typed by the user into its canonical IANA name.
+ *
+ * @param input - The time zone name in any letter case (e.g., "europe/london").
+ * @returns The canonical name (e.g., "Europe/London"), or `null` if the runtime does not know the time zone.
+ */
+export function resolveTimeZone(input: string): string | null {
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: input.trim() }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the calendar date and wall-clock time of an instant in the given time zone.
+ *
+ * @param timeZone - The IANA time zone name (e.g., "Asia/Tokyo").
+ * @param now - The instant to convert. Defaults to the current time.
+ * @returns The local date in "YYYY-MM-DD" format and the local time in "HH:MM" format.
+ */
+export function getLocalDateTime(timeZone: string, now: Date = new Date()): { date: string; time: string } {
+  // The "en-CA" locale formats dates as "YYYY-MM-DD"
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+/**
+ * Returns the calendar date of an instant in the given time zone.
+ *
+ * @param timeZone - The IANA time zone name (e.g., "Asia/Tokyo").
+ * @param now - The instant to convert. Defaults to the current time.
+ * @returns The local date in "YYYY-MM-DD" format.
+ */
+export function getLocalDate(timeZone: string, now: Date = new Date()): string {
+  return getLocalDateTime(timeZone, now).date;
+}
+
+/**
+ * Shifts a calendar date by the given number of days.
+ *
+ * @param date - The date in "YYYY-MM-DD" format.
+ * @param days - The number of days to add (negative to subtract).
+ * @returns The shifted date in "YYYY-MM-DD" format.
+ */
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * Counts the days from one calendar date to another.
+ *
+ * @param from - The start date in "YYYY-MM-DD" format.
+ * @param to - The end date in "YYYY-MM-DD" format.
+ * @returns The number of days, negative if `to` is before `from` (e.g., 1 from "2024-11-27" to "2024-11-28").
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * Parses a time of day typed by the user.
+ *
+ * @param input - The time (e.g., "7:30", "07:30", "7", "7am", "9:15 pm").
+ * @returns The time in "HH:MM" format, or `null` if the input is not a valid time.
+ */
+export function parseTimeOfDay(input: string): string | null {
+  const match = input.trim().toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) {
+    return null;
+  }
+
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  const period = match[3];
+  if (period) {
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    hour = (hour % 12) + (period === "pm" ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) {
+    return null;
+  }
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+/**
+ * Checks if a time of day falls within a range, which may wrap around midnight (e.g., "22:00" to "07:00").
+ *
+ * @param time - The time to check, in "HH:MM" format.
+ * @param range - The start (inclusive) and end (exclusive) of the range, in "HH:MM" format.
+ * @returns True if the time is within the range, false otherwise.
+ */
+export function isTimeInRange(time: string, range: { start: string; end: string }): boolean {
+  return range.start <= range.end
+    ? time >= range.start && time < range.end
+    : time >= range.start || time < range.end;
+}
@@ -0,0 +1,124 @@
+import { TextToSpeechClient, protos } from "@google-cloud/text-to-speech";
+import type { SpeechInput, TtsProvider, VoiceOptions } from "../types/ttsTypes";
+
+/**
+ * Language codes for each supported accent.
+ */
+const LANGUAGE_CODES: Record<VoiceOptions["accent"], string> = {
+  US: "en-US",
+  UK: "en-GB",
+  AU: "en-AU",
+};
+
+/**
+ * Google Cloud Text-to-Speech genders for each supported voice gender.
+ */
+const SSML_GENDERS: Record<VoiceOptions["gender"], protos.google.cloud.texttospeech.v1.SsmlVoiceGender> = {
+  Female: protos.google.cloud.texttospeech.v1.SsmlVoiceGender.FEMALE,
+  Male: protos.google.cloud.texttospeech.v1.SsmlVoiceGender.MALE,
+  Neutral: protos.google.cloud.texttospeech.v1.SsmlVoiceGender.NEUTRAL,
+};
+
+/**
+ * Creates a provider that synthesizes speech with Google Cloud Text-to-Speech API.
+ * Credentials are read from `GOOGLE_APPLICATION_CREDENTIALS`.
+ *
+ * @returns A `TtsProvider` backed by Google Cloud Text-to-Speech.
+ */
+export function createGoogleTtsProvider(): TtsProvider {
+  // Initialize Google Cloud Text-to-Speech client
+  const client = new TextToSpeechClient();
+
+  return {
+    name: "google",
+    async synthesize(input, voice) {
+      // Construct the request
+      const request: protos.google.cloud.texttospeech.v1.ISynthesizeSpeechRequest = {
+        input,
+        voice: { languageCode: LANGUAGE_CODES[voice.accent], ssmlGender: SSML_GENDERS[voice.gender] },
+        audioConfig: { audioEncoding: "MP3", speakingRate: voice.speakingRate },
+      };
+
+      // Perform text-to-speech request
+      const [response] = await client.synthesizeSpeech(request);
+
+      if (!response.audioContent) {
+        throw new Error("Failed to generate audio content.");
+      }
+
+      return Buffer.from(response.audioContent);
+    },
+  };
+}
+
+/**
+ * Creates an offline provider that stands in for a real engine in tests and local development.
+ * It produces silent MP3 audio (MPEG-2 Layer III, 24 kHz, 32 kbps) whose length is proportional
+ * to the amount of text and inversely proportional to the speaking rate.
+ *
+ * @returns A `TtsProvider` that works without network access.
+ */
+export function createOfflineTtsProvider(): TtsProvider {
+  const FRAME_LENGTH = 96; // Bytes per frame at 32 kbps and 24 kHz
+  const FRAME_DURATION_MS = 24; // 576 samples at 24 kHz
+  const MS_PER_CHARACTER = 80; // Approximate speaking time per character at normal speed
+
+  return {
+    name: "offline",
+    async synthesize(input, voice) {
+      // Strip SSML markup so that only the spoken text determines the length
+      const text = "text" in input ? input.text : input.ssml.replace(/<[^>]+>/g, "");
+      const durationMs = (Math.max(text.trim().length, 1) * MS_PER_CHARACTER) / voice.speakingRate;
+      const frameCount = Math.max(1, Math.round(durationMs / FRAME_DURATION_MS));
+
+      // Each frame consists of a frame header followed by zeroed side information and main data
+      const frame = Buffer.alloc(FRAME_LENGTH);
+      frame.set([0xff, 0xf3, 0x44, 0xc4]);
+      return Buffer.concat(Array.from({ length: frameCount }, () => frame));
+    },
+  };
+}
+
+/**
+ * Creates a text-to-speech provider using the engine selected by the `TTS_PROVIDER` environment variable.
+ *
+ * - "offline": Silent audio is produced locally (see `createOfflineTtsProvider`).
+ * - "google" (default): Speech is synthesized with Google Cloud Text-to-Speech API.
+ *
+ * @returns A `TtsProvider` for the configured engine.
+ */
+export function createTtsProvider(): TtsProvider {
+  return process.env.TTS_PROVIDER === "offline" ? createOfflineTtsProvider() : createGoogleTtsProvider();
+}
+
+/**
+ * Escapes the characters that have a special meaning in SSML.
+ *
+ * @param text - The text to escape.
+ * @returns The escaped text.
+ */
+function escapeSsml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Builds SSML that reads a sentence with a part of it emphasized.
+ *
+ * @param sentence - The sentence to read (e.g., an example sentence).
+ * @param emphasis - The start and end offsets of the part to emphasize, or `null` to read the sentence plainly.
+ * @returns The SSML markup.
+ */
+export function buildEmphasisSsml(sentence: string, emphasis: { start: number; end: number } | null): SpeechInput {
+  if (!emphasis) {
+    return { ssml: `<speak>${escapeSsml(sentence)}</speak>` };
+  }
+  const before = escapeSsml(sentence.slice(0, emphasis.start));
+  const target = escapeSsml(sentence.slice(emphasis.start, emphasis.end));
+  const after = escapeSsml(sentence.slice(emphasis.end));
+  return { ssml: `<speak>${before}<emphasis level="strong">${target}</emphasis>${after}</speak>` };
+}
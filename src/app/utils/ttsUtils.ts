@@ -0,0 +1,141 @@
+import { createHash } from "crypto";
+import { createStore } from "./storeUtils";
+import { createAudioStorage } from "./audioStorageUtils";
+import { createTtsProvider } from "./ttsProviderUtils";
+import { getMp3Duration } from "./mp3Utils";
+import type { AudioFile } from "../types/audioTypes";
+import type { SpeechInput, VoiceOptions } from "../types/ttsTypes";
+
+/**
+ * The voice used when no preference is given.
+ */
+export const DEFAULT_VOICE: VoiceOptions = {
+  accent: "US",
+  gender: "Neutral",
+  speakingRate: 1.0,
+};
+
+/**
+ * The speaking rate used for slow playback.
+ */
+export const SLOW_SPEAKING_RATE = 0.75;
+
+/**
+ * The text-to-speech engine used for synthesis.
+ */
+const ttsProvider = createTtsProvider();
+
+/**
+ * Storage for the synthesized audio data.
+ */
+const audioStorage = createAudioStorage();
+
+/**
+ * Store for the metadata of synthesized audio files, keyed by content-addressed key.
+ * A record in this store means the audio has already been synthesized and uploaded.
+ */
+const audioFileStore = createStore<AudioFile>("audioFiles");
+
+/**
+ * Returns the content-addressed key of the audio for the given input and voice.
+ *
+ * @param input - The text or SSML to be synthesized.
+ * @param voice - The voice options.
+ * @returns The key, consisting of the SHA-256 digest of the provider, input and voice followed by ".mp3".
+ */
+function getAudioKey(input: SpeechInput, voice: VoiceOptions): string {
+  const digest = createHash("sha256")
+    .update(JSON.stringify({ provider: ttsProvider.name, input, voice }))
+    .digest("hex");
+  return `${digest}.mp3`;
+}
+
+/**
+ * Validates voice options received from an external source (e.g., an API request body).
+ * Missing options fall back to the default voice.
+ *
+ * @param options - The raw options, with optional `accent`, `gender` and `speakingRate` fields.
+ * @returns The validated `VoiceOptions`, or an error message describing the first invalid option.
+ */
+export function validateVoiceOptions(options: Record<string, unknown>): { voice: VoiceOptions } | { error: string } {
+  const { accent = DEFAULT_VOICE.accent, gender = DEFAULT_VOICE.gender, speakingRate = DEFAULT_VOICE.speakingRate } = options;
+
+  if (accent !== "US" && accent !== "UK" && accent !== "AU") {
+    return { error: "Invalid 'accent' parameter. Must be one of: US, UK, AU." };
+  }
+  if (gender !== "Female" && gender !== "Male" && gender !== "Neutral") {
+    return { error: "Invalid 'gender' parameter. Must be one of: Female, Male, Neutral." };
+  }
+  if (typeof speakingRate !== "number" || !(speakingRate >= 0.25 && speakingRate <= 4.0)) {
+    return { error: "Invalid 'speakingRate' parameter. Must be a number between 0.25 and 4.0." };
+  }
+
+  return { voice: { accent, gender, speakingRate } };
+}
+
+/**
+ * Returns the audio for the given input and voice, synthesizing and storing it only if it does not exist yet.
+ *
+ * @param input - The text or SSML to be synthesized into speech.
+ * @param voice - The voice options. Defaults to `DEFAULT_VOICE`.
+ * @returns A promise that resolves to the `AudioFile`, including its public URL and duration.
+ * @throws An error if the audio cannot be synthesized or stored.
+ */
+export async function getOrCreateAudioFile(input: SpeechInput, voice: VoiceOptions = DEFAULT_VOICE): Promise<AudioFile> {
+  const key = getAudioKey(input, voice);
+  const text = "text" in input ? input.text : input.ssml;
+
+  try {
+    // Reuse the audio if it has already been synthesized
+    const cachedFile = await audioFileStore.get(key);
+    if (cachedFile) {
+      console.log(`Audio file cache hit for text: "${text}"`);
+      return cachedFile;
+    }
+
+    // Synthesize the audio, store it, and record its metadata
+    const data = await ttsProvider.synthesize(input, voice);
+    const url = await audioStorage.save(key, data);
+    const audioFile: AudioFile = {
+      key,
+      url,
+      durationMs: getMp3Duration(data),
+      text,
+      createdAt: new Date().toISOString(),
+    };
+    await audioFileStore.set(key, audioFile);
+
+    console.log(`Audio file created successfully for text: "${text}"`);
+    return audioFile;
+  } catch (error) {
+    console.error(`An error occurred while generating the audio file for text: "${text}"`, error);
+    throw new Error("Failed to generate audio file.");
+  }
+}
+
+/**
+ * Returns the audio for the given input and voice if it has already been synthesized, without synthesizing it.
+ *
+ * @param input - The text or SSML that was synthesized into speech.
+ * @param voice - The voice options. Defaults to `DEFAULT_VOICE`.
+ * @returns A promise that resolves to the `AudioFile`, or `null` if the audio has not been synthesized yet.
+ * @throws An error if the audio file store cannot be read.
+ */
+export async function findAudioFile(input: SpeechInput, voice: VoiceOptions = DEFAULT_VOICE): Promise<AudioFile | null> {
+  try {
+    return await audioFileStore.get(getAudioKey(input, voice));
+  } catch (error) {
+    console.error("An error occurred while looking up the audio file:", error);
+    throw new Error("Failed to look up audio file.");
+  }
+}
+
+/**
+ * Loads the stored audio data for the given key.
+ *
+ * @param key - The content-addressed key of the audio file.
+ * @returns A promise that resolves to the MP3 data, or `null` if no audio is stored under the key.
+ */
+export async function loadAudioData(key: string): Promise<Buffer | null> {
+  return audioStorage.load(key);
+}
@@ -0,0 +1,102 @@
+import * as line from "@line/bot-sdk";
+import { createStore } from "./storeUtils";
+
+/**
+ * Record of a webhook event that has been claimed for processing.
+ */
+interface ProcessedWebhookEvent {
+  webhookEventId: string; // ULID of the webhook event
+  status: "processing" | "processed"; // Whether the processing has finished
+  claimedAt: string; // ISO 8601 timestamp of when processing started
+  processedAt: string | null; // ISO 8601 timestamp of when processing ended, or null while it is in progress
+}
+
+/**
+ * The number of minutes after which an event that is still being processed is considered abandoned
+ * (e.g., by an invocation that crashed or timed out), so that a redelivery of the event can claim it again.
+ */
+const CLAIM_TTL_MINUTES = 5;
+
+/**
+ * Store for tracking processed webhook events, keyed by webhook event ID.
+ */
+const processedEventStore = createStore<ProcessedWebhookEvent>("processedWebhookEvents");
+
+/**
+ * Verifies that a webhook request was sent by the LINE platform.
+ * The `x-line-signature` header must match the HMAC-SHA256 digest of the raw request body,
+ * computed with the channel secret.
+ *
+ * @param rawBody - The raw (unparsed) request body.
+ * @param signature - The value of the `x-line-signature` header.
+ * @returns True if the signature is valid, otherwise false.
+ */
+export function isValidSignature(rawBody: string, signature: string | null): boolean {
+  const channelSecret = process.env.LINE_CHANNEL_SECRET;
+  if (!channelSecret) {
+    console.error("LINE_CHANNEL_SECRET environment variable is not set.");
+    return false;
+  }
+  if (!signature) {
+    return false;
+  }
+  return line.validateSignature(rawBody, channelSecret, signature);
+}
+
+/**
+ * Claims a webhook event for processing, so that redeliveries of the same event are not applied twice.
+ * The claim is an atomic create-if-absent write, so only one delivery of an event can claim it,
+ * even if the deliveries are handled concurrently. Claims that have been processing for longer than
+ * `CLAIM_TTL_MINUTES` are taken over.
+ *
+ * @param webhookEventId - The ID that uniquely identifies the webhook event.
+ * @param now - The current time. Defaults to the current time.
+ * @returns A promise that resolves to true if the event was claimed, or false if it has already been claimed.
+ */
+export async function claimEvent(webhookEventId: string, now: Date = new Date()): Promise<boolean> {
+  const staleBefore = new Date(now.getTime() - CLAIM_TTL_MINUTES * 60 * 1000).toISOString();
+  try {
+    return await processedEventStore.create(
+      webhookEventId,
+      { webhookEventId, status: "processing", claimedAt: now.toISOString(), processedAt: null },
+      (claim) => claim.status === "processing" && claim.claimedAt < staleBefore
+    );
+  } catch (error) {
+    // Fall back to processing the event rather than dropping it
+    console.error(`Failed to claim webhook event ${webhookEventId}:`, error);
+    return true;
+  }
+}
+
+/**
+ * Records that a claimed webhook event has been processed, so that its redeliveries are skipped.
+ *
+ * @param webhookEventId - The ID that uniquely identifies the webhook event.
+ */
+export async function completeEvent(webhookEventId: string): Promise<void> {
+  try {
+    const claim = await processedEventStore.get(webhookEventId);
+    await processedEventStore.set(webhookEventId, {
+      webhookEventId,
+      status: "processed",
+      claimedAt: claim?.claimedAt ?? new Date().toISOString(),
+      processedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`Failed to mark webhook event ${webhookEventId} as processed:`, error);
+  }
+}
+
+/**
+ * Releases the claim of a webhook event whose processing failed, so that a redelivery of the event is processed again.
+ * A rating is not recorded twice by the retry, since the session leaves the rating state before the rating is recorded.
+ *
+ * @param webhookEventId - The ID that uniquely identifies the webhook event.
+ */
+export async function releaseEvent(webhookEventId: string): Promise<void> {
+  try {
+    await processedEventStore.delete(webhookEventId);
+  } catch (error) {
+    console.error(`Failed to release webhook event ${webhookEventId}:`, error);
+  }
+}
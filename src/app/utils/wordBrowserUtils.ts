@@ -0,0 +1,188 @@
+import { getAvailableDecks, getSharedDecks, parseDatabaseId } from "./deckUtils";
+import { getNotionPage } from "./notionUtils";
+import { getAccountLink } from "./accountLinkUtils";
+import { getUserSettings } from "./settingsUtils";
+import type { NotionPage } from "../types/notionTypes";
+import type { Deck } from "../types/deckTypes";
+import type { BulkWordAction, EditableWordValues, WordQuery, WordSortField } from "../types/wordBrowserTypes";
+
+/**
+ * The maximum number of words that can be changed by a single bulk request.
+ * Words are updated one at a time to stay within the rate limits of the Notion API.
+ */
+export const MAX_BULK_WORDS = 50;
+
+/**
+ * The fields by which the words can be sorted, used to validate requests.
+ */
+const SORT_FIELDS: WordSortField[] = ["phrase", "lastStudied", "nextReview", "memorized"];
+
+/**
+ * Validates a search of the word browser received as URL query parameters.
+ *
+ * Supported parameters: `q`, `category`, `movie`, `memorized`, `studiedFrom`, `studiedTo` ("YYYY-MM-DD"),
+ * `sort` ("phrase", "lastStudied", "nextReview" or "memorized"), `direction` ("ascending" or "descending") and `cursor`.
+ * Missing parameters match every word, sorted by phrase.
+ *
+ * @param params - The query parameters of the request.
+ * @returns The validated `WordQuery`, or an error message describing the first invalid parameter.
+ */
+export function parseWordQuery(params: URLSearchParams): { query: WordQuery } | { error: string } {
+  const sort = params.get("sort") || "phrase";
+  const direction = params.get("direction") || "ascending";
+  const studiedFrom = params.get("studiedFrom") || null;
+  const studiedTo = params.get("studiedTo") || null;
+
+  if (!SORT_FIELDS.includes(sort as WordSortField)) {
+    return { error: `Invalid 'sort' parameter. Must be one of: ${SORT_FIELDS.join(", ")}.` };
+  }
+  if (direction !== "ascending" && direction !== "descending") {
+    return { error: "Invalid 'direction' parameter. Must be one of: ascending, descending." };
+  }
+  for (const [name, date] of [["studiedFrom", studiedFrom], ["studiedTo", studiedTo]]) {
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return { error: `Invalid '${name}' parameter. Must be a date in YYYY-MM-DD format.` };
+    }
+  }
+
+  return {
+    query: {
+      search: params.get("q") ?? "",
+      category: params.get("category") || null,
+      movie: params.get("movie") || null,
+      memorized: params.get("memorized") || null,
+      studiedFrom,
+      studiedTo,
+      sort: sort as WordSortField,
+      direction,
+      cursor: params.get("cursor") || null,
+    },
+  };
+}
+
+/**
+ * Checks that a parsed JSON request body is an object, as expected by the validators of the word browser.
+ *
+ * @param body - The parsed JSON body of the request, or `null` if it could not be parsed.
+ * @returns True if the body is a plain JSON object, false otherwise.
+ */
+export function isJsonObject(body: unknown): body is Record<string, unknown> {
+  return typeof body === "object" && body !== null && !Array.isArray(body);
+}
+
+/**
+ * Validates the new values of a word received from the word editor.
+ * Only the fields present in the body are changed.
+ *
+ * @param body - The parsed JSON body of the request.
+ * @returns The validated values, or an error message describing the first invalid field.
+ */
+export function validateWordValues(body: Record<string, unknown>): { values: EditableWordValues } | { error: string } {
+  const values: EditableWordValues = {};
+
+  for (const field of ["phrase", "ipa", "meaning", "example", "url"] as const) {
+    const value = body[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== "string") {
+      return { error: `Invalid '${field}' parameter. Must be a string.` };
+    }
+    values[field] = value.trim();
+  }
+  if (values.phrase === "") {
+    return { error: "Invalid 'phrase' parameter. The phrase cannot be empty." };
+  }
+
+  for (const field of ["category", "movie"] as const) {
+    const value = body[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+      return { error: `Invalid '${field}' parameter. Must be an array of strings.` };
+    }
+    values[field] = value.map((item) => item.trim()).filter(Boolean);
+  }
+
+  if (body.pronunciationCheck !== undefined) {
+    if (typeof body.pronunciationCheck !== "boolean") {
+      return { error: "Invalid 'pronunciationCheck' parameter. Must be a boolean." };
+    }
+    values.pronunciationCheck = body.pronunciationCheck;
+  }
+
+  if (Object.keys(values).length === 0) {
+    return { error: "No field to update was provided." };
+  }
+  return { values };
+}
+
+/**
+ * Validates a bulk change received from the word browser.
+ *
+ * @param body - The parsed JSON body of the request, with `action` ("reset" or "tag"), `pageIds` and,
+ *               for "tag", the `category` to add.
+ * @returns The validated action and page IDs, or an error message describing the first invalid parameter.
+ */
+export function validateBulkAction(
+  body: Record<string, unknown>
+): { action: BulkWordAction; pageIds: string[] } | { error: string } {
+  const { action, pageIds, category } = body;
+
+  if (!Array.isArray(pageIds) || pageIds.length === 0 || !pageIds.every((id) => typeof id === "string")) {
+    return { error: "Invalid 'pageIds' parameter. Must be a non-empty array of page IDs." };
+  }
+  if (pageIds.length > MAX_BULK_WORDS) {
+    return { error: `Too many words. At most ${MAX_BULK_WORDS} words can be changed at once.` };
+  }
+
+  if (action === "reset") {
+    return { action: { type: "reset" }, pageIds };
+  }
+  if (action === "tag") {
+    if (typeof category !== "string" || !category.trim()) {
+      return { error: "Invalid 'category' parameter. Must be a non-empty string." };
+    }
+    return { action: { type: "tag", category: category.trim() }, pageIds };
+  }
+  return { error: "Invalid 'action' parameter. Must be one of: reset, tag." };
+}
+
+/**
+ * Lists the decks whose words a dashboard user can browse and change: the decks available to the linked
+ * LINE account, including the decks it registered with "deck add", or the shared decks if no account is linked.
+ *
+ * @param uid - The Firebase user ID of the signed-in user.
+ * @returns A promise that resolves to the decks, in the order shown by the bot.
+ * @throws An error if the account link or the settings of the LINE account cannot be loaded.
+ */
+export async function getUserDecks(uid: string): Promise<Deck[]> {
+  const link = await getAccountLink(uid);
+  return link ? getAvailableDecks(await getUserSettings(link.lineUserId)) : getSharedDecks();
+}
+
+/**
+ * Finds the deck requested by the word browser among the decks of the user.
+ *
+ * @param decks - The decks of the user (see `getUserDecks`).
+ * @param databaseId - The database ID of the requested deck, or `null` for the first deck.
+ * @returns The deck, or `undefined` if the database is not one of the decks of the user.
+ */
+export function findUserDeck(decks: Deck[], databaseId: string | null): Deck | undefined {
+  return databaseId ? decks.find((deck) => deck.databaseId === parseDatabaseId(databaseId)) : decks[0];
+}
+
+/**
+ * Retrieves a word for the word browser.
+ * Only the words of the decks of the user can be viewed and changed, even if the integration can access other pages.
+ *
+ * @param decks - The decks of the user (see `getUserDecks`).
+ * @param pageId - The ID of the Notion page of the word.
+ * @returns A promise that resolves to the word, or `null` if it does not exist or belongs to another database.
+ * @throws An error if the page cannot be retrieved.
+ */
+export async function getUserPage(decks: Deck[], pageId: string): Promise<NotionPage | null> {
+  const page = await getNotionPage(pageId);
+  return page && decks.some((deck) => deck.databaseId === page.databaseId) ? page : null;
+}
@@ -0,0 +1,23 @@
+import type { DueForecastDay } from "@/app/types/analyticsTypes";
+
+type DueForecastProps = {
+  days: DueForecastDay[];
+};
+
+export function DueForecast({ days }: DueForecastProps) {
+  const max = Math.max(1, ...days.map((day) => day.count));
+
+  return (
+    <div className="flex flex-col gap-2">
+      {days.map((day, index) => (
+        <div key={day.date} className="flex items-center gap-3 text-sm">
+          <span className="w-24 shrink-0 text-muted-foreground">{index === 0 ? "Today" : day.date.slice(5)}</span>
+          <div className="h-3 flex-1 rounded-sm bg-muted">
+            <div className="h-full rounded-sm bg-chart-3" style={{ width: `${(day.count / max) * 100}%` }} />
+          </div>
+          <span className="w-8 text-right">{day.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
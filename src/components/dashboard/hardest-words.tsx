@@ -0,0 +1,32 @@
+import type { HardWord } from "@/app/types/analyticsTypes";
+
+type HardestWordsProps = {
+  words: HardWord[];
+};
+
+export function HardestWords({ words }: HardestWordsProps) {
+  if (words.length === 0) {
+    return <p className="text-sm text-muted-foreground">No word has been rated &quot;Not At All&quot; yet.</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-muted-foreground">
+          <th className="pb-2 font-medium">Phrase</th>
+          <th className="pb-2 text-right font-medium">Not At All</th>
+          <th className="pb-2 text-right font-medium">Reviews</th>
+        </tr>
+      </thead>
+      <tbody>
+        {words.map((word) => (
+          <tr key={word.pageId} className="border-t">
+            <td className="py-2">{word.phrase}</td>
+            <td className="py-2 text-right">{word.notAtAll}</td>
+            <td className="py-2 text-right">{word.reviews}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type LinkAccountProps = {
+  onLink: (code: string) => Promise<void>;
+};
+
+export function LinkAccount({ onLink }: LinkAccountProps) {
+  const [code, setCode] = useState("");
+  const [isLinking, setIsLinking] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLinking(true);
+    setError("");
+    try {
+      await onLink(code.trim());
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-md">
+      <CardHeader>
+        <CardTitle>Link your LINE account</CardTitle>
+        <CardDescription>
+          Send &quot;link&quot; to the bot on LINE, then enter the code it replies with to see your progress and settings here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="code">Link code</Label>
+            <Input
+              id="code"
+              placeholder="e.g. K7QH2MZP"
+              autoComplete="off"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" disabled={isLinking || !code.trim()}>
+            {isLinking ? (
+              <>
+                <Loader2 className="animate-spin" />
+                Linking...
+              </>
+            ) : "Link account"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,52 @@
+import { cn } from "@/lib/utils";
+import type { DailyProgressRecord } from "@/app/types/analyticsTypes";
+
+// Colors of the memorization levels, stacked from the bottom in this order
+const LEVELS: { rating: keyof DailyProgressRecord["memorized"]; className: string }[] = [
+  { rating: "Never Better", className: "bg-chart-2" },
+  { rating: "Good", className: "bg-chart-4" },
+  { rating: "So So", className: "bg-chart-5" },
+  { rating: "Not At All", className: "bg-chart-1" },
+];
+
+type MemorizationChartProps = {
+  days: DailyProgressRecord[];
+};
+
+export function MemorizationChart({ days }: MemorizationChartProps) {
+  const max = Math.max(1, ...days.map((day) => day.totalStudied));
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex h-40 items-end gap-1">
+        {days.map((day) => (
+          <div
+            key={day.date}
+            className="flex h-full flex-1 flex-col-reverse"
+            title={[day.date, ...LEVELS.map(({ rating }) => `${rating}: ${day.memorized[rating] ?? 0}`)].join("\n")}
+          >
+            {LEVELS.map(({ rating, className }) => (
+              <div
+                key={rating}
+                className={cn("w-full", className)}
+                style={{ height: `${((day.memorized[rating] ?? 0) / max) * 100}%` }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{days[0]?.date}</span>
+        <span>{days[days.length - 1]?.date}</span>
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {LEVELS.map(({ rating, className }) => (
+          <span key={rating} className="flex items-center gap-1">
+            <span className={cn("h-3 w-3 rounded-sm", className)} />
+            {rating}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { cn } from "@/lib/utils";
+import type { HeatmapCell } from "@/app/types/analyticsTypes";
+
+// Background classes of the heatmap cells, from "nothing studied" to "busiest days"
+const LEVEL_CLASSES: Record<HeatmapCell["level"], string> = {
+  0: "bg-muted",
+  1: "bg-emerald-200",
+  2: "bg-emerald-400",
+  3: "bg-emerald-600",
+  4: "bg-emerald-800",
+};
+
+type ProgressHeatmapProps = {
+  columns: HeatmapCell[][];
+};
+
+export function ProgressHeatmap({ columns }: ProgressHeatmapProps) {
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex gap-1 overflow-x-auto">
+        {columns.map((week) => (
+          <div key={week[0].date} className="flex flex-col gap-1">
+            {week.map((cell) => (
+              <div
+                key={cell.date}
+                className={cn("h-3 w-3 rounded-sm", LEVEL_CLASSES[cell.level])}
+                title={`${cell.date}: ${cell.count} word${cell.count === 1 ? "" : "s"}`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+        Less
+        {Object.values(LEVEL_CLASSES).map((className) => (
+          <div key={className} className={cn("h-3 w-3 rounded-sm", className)} />
+        ))}
+        More
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { UserSettings } from "@/app/types/userTypes";
+
+type SettingsSummaryProps = {
+  settings: UserSettings;
+};
+
+export function SettingsSummary({ settings }: SettingsSummaryProps) {
+  const { voice, reminder } = settings;
+
+  // The rows of the summary, matching the replies of the "goal", "reminder" and "voice" commands
+  const rows: [string, string][] = [
+    ["Daily goal", settings.dailyGoal > 0 ? `${settings.dailyGoal} words a day` : "None"],
+    ["Reminder", reminder.enabled ? `🔔 Every day at ${reminder.time}` : "🔕 Off"],
+    ["Quiet hours", reminder.quietHours ? `${reminder.quietHours.start}-${reminder.quietHours.end}` : "None"],
+    ["Time zone", settings.timeZone],
+    ["Voice", `${voice.accent} · ${voice.gender} · ${voice.speakingRate}x`],
+    ["Own decks", settings.decks.map((deck) => deck.name).join(", ") || "None"],
+  ];
+
+  return (
+    <dl className="grid grid-cols-[8rem_1fr] gap-x-4 gap-y-2 text-sm">
+      {rows.map(([label, value]) => (
+        <div key={label} className="contents">
+          <dt className="text-muted-foreground">{label}</dt>
+          <dd>{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { NotionPage } from "@/app/types/notionTypes";
+import type { EditableWordValues } from "@/app/types/wordBrowserTypes";
+
+// Shared classes of the multi-line inputs, matching the `Input` component
+const TEXTAREA_CLASS_NAME =
+  "flex min-h-20 w-full rounded-md border border-input bg-transparent px-3 py-2 text-base shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring md:text-sm";
+
+type WordDetailProps = {
+  word: NotionPage;
+  onSave: (values: EditableWordValues) => Promise<void>;
+  onClose: () => void;
+};
+
+// Splits a comma-separated list of options typed by the user (e.g., "Verb, Idiom")
+function splitOptions(text: string): string[] {
+  return text.split(",").map((option) => option.trim()).filter(Boolean);
+}
+
+export function WordDetail({ word, onSave, onClose }: WordDetailProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const properties = word.properties;
+
+  // Calculate the number of days since the word was last studied
+  const daysSinceLastStudied = properties.lastStudied
+    ? Math.floor((new Date().getTime() - new Date(properties.lastStudied).getTime()) / (1000 * 60 * 60 * 24))
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = new FormData(e.currentTarget);
+    const text = (name: string) => String(form.get(name) ?? "").trim();
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        phrase: text("phrase"),
+        ipa: text("ipa"),
+        meaning: text("meaning"),
+        example: text("example"),
+        category: splitOptions(text("category")),
+        movie: splitOptions(text("movie")),
+        pronunciationCheck: form.get("pronunciationCheck") === "on",
+        url: text("url"),
+      });
+      setIsEditing(false);
+    } catch (error) {
+      console.error("Error saving word:", error);
+      alert(`Failed to save the word. ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // The rows of the detail view, in the same order as the card shown in the chat
+  const rows: [string, string][] = [
+    ["Meaning", properties.meaning],
+    ["Example", properties.example],
+    ["Pronunciation", properties.pronunciationCheck ? "⚠️ Issue" : "✅ OK"],
+    ["Category", properties.category.join(", ")],
+    ["Movie", properties.movie.join(", ")],
+    [
+      "Last Studied",
+      properties.lastStudied
+        ? `${properties.lastStudied}${daysSinceLastStudied !== null ? ` (${daysSinceLastStudied} days ago)` : ""}`
+        : "Not studied yet.",
+    ],
+    ["Memorized", properties.memorized || "No progress recorded."],
+    ["Next Review", properties.nextReview || "Not scheduled yet."],
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">{properties.phrase}</CardTitle>
+        {properties.ipa && <CardDescription>{properties.ipa}</CardDescription>}
+      </CardHeader>
+      <CardContent>
+        {isEditing ? (
+          <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="phrase">Phrase</Label>
+              <Input id="phrase" name="phrase" defaultValue={properties.phrase} required />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="ipa">IPA</Label>
+              <Input id="ipa" name="ipa" defaultValue={properties.ipa} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="meaning">Meaning</Label>
+              <textarea id="meaning" name="meaning" defaultValue={properties.meaning} className={TEXTAREA_CLASS_NAME} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="example">Example</Label>
+              <textarea id="example" name="example" defaultValue={properties.example} className={TEXTAREA_CLASS_NAME} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="category">Category (comma-separated)</Label>
+              <Input id="category" name="category" defaultValue={properties.category.join(", ")} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="movie">Movie (comma-separated)</Label>
+              <Input id="movie" name="movie" defaultValue={properties.movie.join(", ")} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="url">URL</Label>
+              <Input id="url" name="url" type="url" defaultValue={properties.url} />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" name="pronunciationCheck" defaultChecked={properties.pronunciationCheck} />
+              Needs pronunciation practice
+            </label>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="animate-spin" />
+                    Saving...
+                  </>
+                ) : "Save"}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex flex-col gap-4">
+            <dl className="grid grid-cols-[8rem_1fr] gap-x-4 gap-y-2 text-sm">
+              {rows.map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt className="text-muted-foreground">{label}</dt>
+                  <dd className="whitespace-pre-wrap">{value || "-"}</dd>
+                </div>
+              ))}
+            </dl>
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => setIsEditing(true)}>Edit</Button>
+              {properties.url && (
+                <Button variant="outline" asChild>
+                  <a href={properties.url} target="_blank" rel="noreferrer">URL</a>
+                </Button>
+              )}
+              <Button variant="outline" asChild>
+                <a href={word.url} target="_blank" rel="noreferrer">Notion</a>
+              </Button>
+              <Button variant="ghost" onClick={onClose}>Close</Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * Runs once when the server starts.
+ *
+ * Verifies that the Notion databases of the shared decks have the columns described by the schema configuration,
+ * so that missing or mistyped columns are reported at startup rather than on the first webhook event.
+ */
+export async function register() {
+  // The Notion client only runs in the Node.js runtime
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+
+  const { getSharedDecks } = await import("./app/utils/deckUtils");
+  const { verifyDatabaseSchema } = await import("./app/utils/notionUtils");
+
+  const decks = getSharedDecks();
+  if (decks.length === 0) {
+    console.warn("Neither NOTION_DECKS nor NOTION_DATABASE_ID is set. Skipping Notion schema verification.");
+    return;
+  }
+
+  for (const deck of decks) {
+    await verifyDatabaseSchema(deck.databaseId);
+    console.log(`Notion database of deck "${deck.name}" matches the schema configuration.`);
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "./app/utils/authUtils";
+
+/**
+ * Checks the identity of the user before the dashboard pages and API routes are served.
+ *
+ * - Dashboard pages: users without a valid session are redirected to the login page,
+ *   so that protected content is never rendered for them.
+ * - API routes: requests without a valid session cookie or Firebase ID token are rejected with 401,
+ *   and users who may not use the dashboard with 403. The route handlers check the request again.
+ * - `/api/generate-audio-file` also accepts the internal API key, used for server-to-server calls,
+ *   which is verified by the route handler.
+ *
+ * The LINE webhook, the reminder cron route and the audio files are not covered,
+ * as they are authenticated by their own signatures and secrets or are public.
+ *
+ * @param request - The incoming NextRequest object.
+ * @returns The response of the route, a redirect to the login page, or an error response.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  // Server-to-server calls are passed on, and the route handler verifies the key
+  if (pathname === "/api/generate-audio-file" && request.headers.has("internal-api-key")) {
+    return NextResponse.next();
+  }
+
+  try {
+    const auth = await authorizeRequest(request);
+    if (!("error" in auth)) {
+      return NextResponse.next();
+    }
+
+    if (pathname.startsWith("/api/")) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const loginUrl = new URL("/", request.url);
+    loginUrl.searchParams.set("next", pathname);
+    if (auth.status === 403) {
+      loginUrl.searchParams.set("error", "forbidden");
+    }
+    return NextResponse.redirect(loginUrl);
+  } catch (error) {
+    console.error("Error authenticating request:", error);
+    return NextResponse.json({ error: "Failed to authenticate the request." }, { status: 500 });
+  }
+}
+
+export const config = {
+  matcher: ["/dashboard/:path*", "/api/account/:path*", "/api/export/:path*", "/api/words/:path*", "/api/generate-audio-file"],
+};